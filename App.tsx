@@ -1,37 +1,154 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import MapInterface from './components/MapInterface';
 import EntryForm from './components/EntryForm';
-import { JournalEntry, Coordinates, Category, DateRange } from './types';
-import { generateTravelSummary } from './services/geminiService';
-import { ApiService } from './services/api';
+import ConflictResolver from './components/ConflictResolver';
+import TripSwitcher from './components/TripSwitcher';
+import FilterBar from './components/FilterBar';
+import PhotoGallery from './components/PhotoGallery';
+import PhotoImportReview from './components/PhotoImportReview';
+import TraceImportPreview from './components/TraceImportPreview';
+import JournalImportReview from './components/JournalImportReview';
+import TravelBookDialog from './components/TravelBookDialog';
+import ShareDialog from './components/ShareDialog';
+import LoginScreen from './components/LoginScreen';
+import AISettingsDialog from './components/AISettingsDialog';
+import TravelStoryPanel, { FinishedStory } from './components/TravelStoryPanel';
+import JournalChat from './components/JournalChat';
+import { JournalEntry, MediaItem, Coordinates, EntryConflict, EntryFormData, Trip, RouteMode, EntryFilter, ImportMode, User, EntryQuery, EntryEvent, AISettings, TravelStory } from './types';
+import { AI_PROVIDERS, getAISettings, saveAISettings } from './services/aiProvider';
+import { computeRouteStats, formatDistance, getDayColor } from './services/geo';
+import { applyFilter, EMPTY_FILTER, filterFromQuery, filterToQuery, isWithinDays } from './services/filters';
+import { compareNewestFirst, mergeEntries, queryFromFilter } from './services/entryQuery';
+import { reverseGeocode } from './services/geocoding';
+import { storyScope, storyToText } from './services/story';
+import { ImportedPhoto, PhotoDraft, readImportedPhotos } from './services/photoImport';
+import { EXPORT_FORMATS, ExportFormat, ParsedTraceFile, parseTraceFile, serializeEntries } from './services/geoFormats';
+import { ApiService, ConflictError, ValidationError } from './services/api';
 
-const App: React.FC = () => {
+// The Trace List loads this many at a time as you scroll
+const TRACE_PAGE_SIZE = 30;
+// The map asks for at most this many traces in view; clustering keeps them readable
+const VIEWPORT_LIMIT = 500;
+const VIEWPORT_DEBOUNCE_MS = 300;
+// Typing in the text filter and saving traces wait this long before asking the server again
+const FILTER_TEXT_DEBOUNCE_MS = 300;
+const TOTALS_DEBOUNCE_MS = 300;
+// Wait before reopening a dropped live-update connection
+const LIVE_RECONNECT_MS = 5000;
+
+const entryTime = (entry: JournalEntry) => new Date(entry.timestamp).getTime();
+
+const isWithinTrip = (entry: JournalEntry, trip: Trip) => isWithinDays(entry.timestamp, trip.startDate, trip.endDate);
+
+interface JournalProps {
+  user: User;
+  onSignOut: () => void;
+}
+
+const Journal: React.FC<JournalProps> = ({ user, onSignOut }) => {
   const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [filter, setFilter] = useState<EntryFilter>(() => filterFromQuery(window.location.search));
+  const activeTripId = filter.tripId;
   const [tempMarker, setTempMarker] = useState<Coordinates | null>(null);
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [selectedEntryId, setSelectedEntryId] = useState<string | undefined>(undefined);
+  const [editingEntryId, setEditingEntryId] = useState<string | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(true);
   const [isSyncing, setIsSyncing] = useState(false);
   const [isBackendOnline, setIsBackendOnline] = useState<boolean | null>(null);
+  const [pendingCount, setPendingCount] = useState(() => ApiService.getPendingCount());
+  const [conflicts, setConflicts] = useState<EntryConflict[]>(() => ApiService.getConflicts());
   
-  const [dateRange, setDateRange] = useState<DateRange>({
-    start: new Date(Date.now() - 30 * 86400000).toISOString().slice(0, 10),
-    end: new Date().toISOString().slice(0, 10)
-  });
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [travelStory, setTravelStory] = useState<string | null>(null);
+  const [routeMode, setRouteMode] = useState<RouteMode>('off');
+  const [stories, setStories] = useState<TravelStory[]>([]);
+  const [mapFocus, setMapFocus] = useState<Coordinates | null>(null);
+  const [importedPhotos, setImportedPhotos] = useState<ImportedPhoto[] | null>(null);
+  const [traceImport, setTraceImport] = useState<{ fileName: string; parsed: ParsedTraceFile } | null>(null);
+  const [journalImport, setJournalImport] = useState<{ fileName: string; rows: unknown[] } | null>(null);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [isBookDialogOpen, setIsBookDialogOpen] = useState(false);
+  const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
+  const [aiSettings, setAISettings] = useState<AISettings>(() => getAISettings());
+  const [isAISettingsOpen, setIsAISettingsOpen] = useState(false);
+  const [isChatOpen, setIsChatOpen] = useState(false);
+  // Paging state for the Trace List; boundary is the oldest time it has loaded contiguously
+  const [traceList, setTraceList] = useState<{ cursor: string | null; hasMore: boolean; boundary: number | null; isLoading: boolean }>(
+    { cursor: null, hasMore: true, boundary: null, isLoading: false }
+  );
+  const [viewportBbox, setViewportBbox] = useState<[number, number, number, number] | null>(null);
+  // The map shows at most VIEWPORT_LIMIT traces per area; true when the area holds more
+  const [isViewportCapped, setIsViewportCapped] = useState(false);
+  // Counts from the server, which knows about the pages not loaded yet; key is the query they were made for
+  const [totals, setTotals] = useState<{ key: string; scope: number; matching: number } | null>(null);
+  const [serverText, setServerText] = useState(filter.text);
+  const traceListRef = useRef<HTMLDivElement>(null);
+  const mapSectionRef = useRef<HTMLDivElement>(null);
+  const traceSentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setServerText(filter.text), FILTER_TEXT_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [filter.text]);
+
+  const serverQueryKey = JSON.stringify(queryFromFilter({ ...filter, text: serverText }));
+  const serverQuery: EntryQuery = useMemo(() => JSON.parse(serverQueryKey), [serverQueryKey]);
+  // Pages that come back after the filter changed are ignored
+  const traceQueryRef = useRef(serverQueryKey);
+  // Bumped to reload the visible traces after the live connection missed some changes
+  const [resyncVersion, setResyncVersion] = useState(0);
+  const liveConnectionsRef = useRef(0);
+
+  // Replays the offline outbox and swaps any local ids we are holding for the server ones
+  const reconcilePendingChanges = async () => {
+    if (ApiService.getPendingCount() === 0) return;
+    setIsSyncing(true);
+    try {
+      const { synced, idMap } = await ApiService.syncPendingOperations();
+      if (synced > 0) {
+        const remap = (id?: string) => (id && idMap[id]) || id;
+        setSelectedEntryId(remap);
+        setEditingEntryId(remap);
+        setFilter(prev => prev.tripId && idMap[prev.tripId] ? { ...prev, tripId: idMap[prev.tripId] } : prev);
+        // The caches hold every trace and trip we have loaded, now with server ids
+        setEntries(await ApiService.getLocalEntries());
+        setTrips(await ApiService.getLocalTrips());
+      }
+    } catch (error) {
+      console.error("Sync failed:", error);
+    } finally {
+      setPendingCount(ApiService.getPendingCount());
+      setConflicts(ApiService.getConflicts());
+      setIsSyncing(false);
+    }
+  };
 
   useEffect(() => {
     const initApp = async () => {
+      // Show what we have cached straight away; the Trace List and the map fetch the rest page by page
+      const [cached, cachedTrips, cachedStories] = await Promise.all([ApiService.getLocalEntries(), ApiService.getLocalTrips(), ApiService.getLocalStories()]);
+      setEntries(cached);
+      setTrips(cachedTrips);
+      setStories(cachedStories);
+      setIsLoading(false);
       const online = await ApiService.checkConnection();
       setIsBackendOnline(online);
       try {
-        const data = await ApiService.getEntries();
-        setEntries(data);
+        if (online && ApiService.getPendingCount() > 0) {
+          const { idMap } = await ApiService.syncPendingOperations();
+          setFilter(prev => prev.tripId && idMap[prev.tripId] ? { ...prev, tripId: idMap[prev.tripId] } : prev);
+          setEntries(await ApiService.getLocalEntries());
+        }
+        const tripData = await ApiService.getTrips();
+        setTrips(tripData);
+        // Drop a bookmarked trip that no longer exists
+        setFilter(prev => prev.tripId && !tripData.some(t => t.id === prev.tripId) ? { ...prev, tripId: null } : prev);
+        setStories(await ApiService.getStories());
       } catch (error) {
         console.error("Initial load failed:", error);
       } finally {
-        setIsLoading(false);
+        setPendingCount(ApiService.getPendingCount());
+        setConflicts(ApiService.getConflicts());
       }
     };
     initApp();
@@ -39,26 +156,181 @@ const App: React.FC = () => {
     const interval = setInterval(async () => {
       const online = await ApiService.checkConnection();
       setIsBackendOnline(online);
+      if (online) await reconcilePendingChanges();
     }, 30000);
     return () => clearInterval(interval);
   }, []);
 
+  const loadTracePage = async (cursor: string | null) => {
+    const key = serverQueryKey;
+    try {
+      const page = await ApiService.getEntriesPage({ ...serverQuery, limit: TRACE_PAGE_SIZE, cursor });
+      if (traceQueryRef.current !== key) return;
+      setEntries(prev => mergeEntries(prev, page.entries));
+      const last = page.entries[page.entries.length - 1];
+      setTraceList({
+        cursor: page.nextCursor,
+        hasMore: !!page.nextCursor,
+        boundary: page.nextCursor && last ? entryTime(last) : null,
+        isLoading: false
+      });
+    } catch (error) {
+      console.error("Loading traces failed:", error);
+      if (traceQueryRef.current === key) setTraceList(prev => ({ ...prev, isLoading: false }));
+    }
+  };
+
+  // A new filter starts the Trace List over from the newest trace
+  useEffect(() => {
+    traceQueryRef.current = serverQueryKey;
+    setTraceList({ cursor: null, hasMore: true, boundary: null, isLoading: true });
+    loadTracePage(null);
+  }, [serverQueryKey, resyncVersion]);
+
+  const loadMoreTraces = () => {
+    if (!traceList.hasMore || traceList.isLoading) return;
+    setTraceList(prev => ({ ...prev, isLoading: true }));
+    loadTracePage(traceList.cursor);
+  };
+  const loadMoreRef = useRef(loadMoreTraces);
+  loadMoreRef.current = loadMoreTraces;
+
+  // Infinite scroll: load the next page when the end of the list comes into view
+  useEffect(() => {
+    const sentinel = traceSentinelRef.current;
+    if (!sentinel) return;
+    const observer = new IntersectionObserver(
+      (observed) => { if (observed.some(o => o.isIntersecting)) loadMoreRef.current(); },
+      { root: traceListRef.current, rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+    // Observing again after each page re-checks a sentinel that is still in view
+  }, [isLoading, traceList.cursor]);
+
+  // Fetch the traces in view after the map settles
+  useEffect(() => {
+    if (!viewportBbox) return;
+    const key = serverQueryKey;
+    const timer = setTimeout(async () => {
+      try {
+        const page = await ApiService.getEntriesPage({ ...serverQuery, bbox: viewportBbox, limit: VIEWPORT_LIMIT });
+        if (traceQueryRef.current !== key) return;
+        setEntries(prev => mergeEntries(prev, page.entries));
+        setIsViewportCapped(!!page.nextCursor);
+      } catch (error) {
+        console.error("Loading the map area failed:", error);
+      }
+    }, VIEWPORT_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [viewportBbox, serverQueryKey, resyncVersion]);
+
+  // Recount after the filter, the trip or the traces change
+  useEffect(() => {
+    const timer = setTimeout(async () => {
+      try {
+        const [scope, matching] = await Promise.all([
+          ApiService.countEntries(activeTripId ? { tripId: activeTripId } : {}),
+          ApiService.countEntries(serverQuery)
+        ]);
+        setTotals({ key: serverQueryKey, scope, matching });
+      } catch (error) {
+        console.error("Counting traces failed:", error);
+      }
+    }, TOTALS_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [serverQueryKey, activeTripId, entries.length, resyncVersion]);
+
+  // Exports, books, shares, the reflection and the assistant cover every trace, not just the pages loaded so far
+  const loadAllEntries = async (): Promise<JournalEntry[]> => {
+    const all = await ApiService.getEntries();
+    setEntries(all);
+    setTraceList({ cursor: null, hasMore: false, boundary: null, isLoading: false });
+    return all;
+  };
+
+  // Changes made in another tab or on another device
+  const applyEntryEvent = (event: EntryEvent) => {
+    if (event.type === 'entries.reset') {
+      loadAllEntries().catch(error => console.error("Reloading traces failed:", error));
+    } else if (event.type === 'entry.deleted') {
+      const forget = (id?: string) => id === event.id ? undefined : id;
+      setEntries(prev => prev.filter(entry => entry.id !== event.id));
+      setSelectedEntryId(forget);
+      setEditingEntryId(forget);
+    } else {
+      const { entry, replaces } = event;
+      setEntries(prev => mergeEntries(replaces ? prev.filter(e => e.id !== replaces) : prev, [entry]));
+      if (replaces) {
+        const remap = (id?: string) => id === replaces ? entry.id : id;
+        setSelectedEntryId(remap);
+        setEditingEntryId(remap);
+      }
+    }
+    setPendingCount(ApiService.getPendingCount());
+  };
+
+  useEffect(() => ApiService.onTabEvent(applyEntryEvent), []);
+
+  // Live updates while the server is reachable. Any connection after the first may have missed changes, so it reloads.
+  useEffect(() => {
+    if (!isBackendOnline) return;
+    const controller = new AbortController();
+    const onOpen = () => {
+      if (liveConnectionsRef.current++ > 0) setResyncVersion(v => v + 1);
+    };
+    (async () => {
+      while (!controller.signal.aborted) {
+        try {
+          await ApiService.streamEntryEvents(applyEntryEvent, onOpen, controller.signal);
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          console.warn("Live updates disconnected:", error);
+        }
+        await new Promise(resolve => setTimeout(resolve, LIVE_RECONNECT_MS));
+      }
+    })();
+    return () => controller.abort();
+  }, [isBackendOnline]);
+
+  // Keep the active filter in the URL so the view can be bookmarked
+  useEffect(() => {
+    const query = filterToQuery(filter);
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+  }, [filter]);
+
+  // Switching trips replaces the date range, since the trip already defines its span
+  const setActiveTripId = (tripId: string | null) => {
+    setFilter(prev => ({ ...prev, tripId, dateRange: { start: '', end: '' } }));
+  };
+
   const handleMapClick = (coords: Coordinates) => {
     setTempMarker(coords);
     setIsFormOpen(true);
     setSelectedEntryId(undefined);
+    setEditingEntryId(undefined);
   };
 
   const handleEntrySelect = (id: string) => {
     setSelectedEntryId(id);
     setTempMarker(null);
     setIsFormOpen(false);
+    setEditingEntryId(undefined);
   };
 
-  const handleFormSubmit = async (data: { note: string; category: Category; photoUrl: string | null; date: string }) => {
+  const handleClosePanel = () => {
+    setIsFormOpen(false);
+    setSelectedEntryId(undefined);
+    setEditingEntryId(undefined);
+    setTempMarker(null);
+  };
+
+  const handleFormSubmit = async (data: EntryFormData) => {
+    if (editingEntryId) return handleEditSubmit(editingEntryId, data);
     if (!tempMarker) return;
     setIsSyncing(true);
     try {
+      const placeName = await reverseGeocode(tempMarker.lat, tempMarker.lng);
       const newEntryPayload = {
         latitude: tempMarker.lat,
         longitude: tempMarker.lng,
@@ -66,15 +338,110 @@ const App: React.FC = () => {
         dateDisplay: new Date(data.date).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }),
         note: data.note,
         category: data.category,
-        photoUrl: data.photoUrl 
+        photos: data.photos,
+        placeName,
+        tripId: data.tripId
       };
       const savedEntry = await ApiService.createEntry(newEntryPayload);
       setEntries(prev => [...prev, savedEntry]);
       setIsFormOpen(false);
       setTempMarker(null);
     } catch (error) {
-      alert("Failed to save to cloud, saved locally instead.");
+      alert(error instanceof ValidationError ? error.message : "Failed to save to cloud, saved locally instead.");
+    } finally {
+      setPendingCount(ApiService.getPendingCount());
+      setIsSyncing(false);
+    }
+  };
+
+  const handleEditSubmit = async (id: string, data: EntryFormData) => {
+    setIsSyncing(true);
+    try {
+      // Traces saved before place naming (or while it was unreachable) get their name on the next edit
+      const current = entries.find(entry => entry.id === id);
+      const placeName = current && !current.placeName ? await reverseGeocode(current.latitude, current.longitude) : null;
+      const updatedEntry = await ApiService.updateEntry(id, {
+        ...(placeName ? { placeName } : {}),
+        timestamp: data.date,
+        dateDisplay: new Date(data.date).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }),
+        note: data.note,
+        category: data.category,
+        photos: data.photos,
+        tripId: data.tripId
+      });
+      setEntries(prev => prev.map(entry => entry.id === id ? updatedEntry : entry));
+      setEditingEntryId(undefined);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        setEditingEntryId(undefined);
+        setConflicts(ApiService.getConflicts());
+        return;
+      }
+      alert(error instanceof ValidationError ? error.message : "Failed to update this memory.");
     } finally {
+      setPendingCount(ApiService.getPendingCount());
+      setIsSyncing(false);
+    }
+  };
+
+  const handleEntryMove = async (id: string, coords: Coordinates): Promise<boolean> => {
+    setIsSyncing(true);
+    try {
+      const placeName = await reverseGeocode(coords.lat, coords.lng);
+      const updatedEntry = await ApiService.updateEntry(id, { latitude: coords.lat, longitude: coords.lng, placeName });
+      setEntries(prev => prev.map(entry => entry.id === id ? updatedEntry : entry));
+      return true;
+    } catch (error) {
+      if (error instanceof ConflictError) setConflicts(ApiService.getConflicts());
+      else alert(error instanceof ValidationError ? error.message : "Failed to move this memory.");
+      return false;
+    } finally {
+      setPendingCount(ApiService.getPendingCount());
+      setIsSyncing(false);
+    }
+  };
+
+  const handlePhotoFolder = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    const photos = await readImportedPhotos(files);
+    if (photos.length === 0) return alert("No photos found in that folder.");
+    setImportedPhotos(photos);
+  };
+
+  // One entry per reviewed draft, saved in order so the outbox stays chronological when offline
+  const handleSavePhotoDrafts = async (drafts: PhotoDraft[], tripId: string | null) => {
+    setIsSyncing(true);
+    const saved: JournalEntry[] = [];
+    const unplaced = drafts.filter(draft => draft.latitude === null || draft.longitude === null).length;
+    try {
+      for (const draft of drafts) {
+        if (draft.latitude === null || draft.longitude === null) continue;
+        const photos: MediaItem[] = [];
+        for (const photo of draft.photos) {
+          photos.push({ url: await ApiService.storePhoto(photo.file), caption: '' });
+        }
+        const placeName = await reverseGeocode(draft.latitude, draft.longitude);
+        saved.push(await ApiService.createEntry({
+          latitude: draft.latitude,
+          longitude: draft.longitude,
+          timestamp: draft.takenAt,
+          dateDisplay: new Date(draft.takenAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }),
+          note: draft.note,
+          category: draft.category,
+          photos,
+          placeName,
+          tripId
+        }));
+      }
+      if (unplaced > 0) alert(`${unplaced} ${unplaced === 1 ? 'entry has' : 'entries have'} no location and ${unplaced === 1 ? 'was' : 'were'} not saved. Log ${unplaced === 1 ? 'it' : 'them'} from the map instead.`);
+    } catch (error) {
+      alert(`Saved ${saved.length} of ${drafts.length} entries before something went wrong.`);
+    } finally {
+      setImportedPhotos(null);
+      setEntries(prev => [...prev, ...saved]);
+      setPendingCount(ApiService.getPendingCount());
       setIsSyncing(false);
     }
   };
@@ -88,32 +455,122 @@ const App: React.FC = () => {
         await ApiService.deleteEntry(id);
         setEntries(prev => prev.filter(entry => entry.id !== id));
         if (selectedEntryId === id) setSelectedEntryId(undefined);
+        if (editingEntryId === id) setEditingEntryId(undefined);
       } catch (error) {
+        if (error instanceof ConflictError) return setConflicts(ApiService.getConflicts());
         alert("Action failed.");
       } finally {
+        setPendingCount(ApiService.getPendingCount());
         setIsSyncing(false);
       }
     }
   };
 
-  const handleGenerateSummary = async () => {
-    setIsGenerating(true);
-    setTravelStory(null);
-    const start = new Date(dateRange.start).getTime();
-    const end = new Date(dateRange.end).getTime() + 86400000;
-    const filtered = entries.filter(e => {
-      const t = new Date(e.timestamp).getTime();
-      return t >= start && t <= end;
+  const applyResolvedEntry = (entryId: string, resolved: JournalEntry | null) => {
+    setEntries(prev => {
+      const rest = prev.filter(entry => entry.id !== entryId);
+      return resolved ? [...rest, resolved] : rest;
     });
-    const story = await generateTravelSummary(filtered);
-    setTravelStory(story);
-    setIsGenerating(false);
+    if (!resolved && selectedEntryId === entryId) setSelectedEntryId(undefined);
+    if (resolved && selectedEntryId === entryId) setSelectedEntryId(resolved.id);
+  };
+
+  const handleResolveConflict = async (conflict: EntryConflict, resolution: Omit<JournalEntry, 'id'> | null) => {
+    setIsSyncing(true);
+    try {
+      const resolved = await ApiService.resolveConflict(conflict, resolution);
+      applyResolvedEntry(conflict.entryId, resolved);
+    } catch (error) {
+      if (!(error instanceof ConflictError)) alert("Could not reach the server. Try again once you're back online.");
+    } finally {
+      setConflicts(ApiService.getConflicts());
+      setIsSyncing(false);
+    }
+  };
+
+  const handleAcceptRemote = async (conflict: EntryConflict) => {
+    const resolved = await ApiService.acceptRemoteVersion(conflict);
+    applyResolvedEntry(conflict.entryId, resolved);
+    setConflicts(ApiService.getConflicts());
+  };
+
+  const handleSaveTrip = async (data: Omit<Trip, 'id'>, id: string | null, claimEntries: boolean) => {
+    setIsSyncing(true);
+    try {
+      if (id) {
+        const updatedTrip = await ApiService.updateTrip(id, data);
+        setTrips(prev => prev.map(trip => trip.id === id ? updatedTrip : trip));
+        return;
+      }
+      const savedTrip = await ApiService.createTrip(data);
+      setTrips(prev => [...prev, savedTrip]);
+      setActiveTripId(savedTrip.id);
+      if (claimEntries) {
+        const unassigned = entries.filter(entry => !entry.tripId && isWithinTrip(entry, savedTrip));
+        for (const entry of unassigned) {
+          try {
+            const updatedEntry = await ApiService.updateEntry(entry.id, { tripId: savedTrip.id });
+            setEntries(prev => prev.map(e => e.id === entry.id ? updatedEntry : e));
+          } catch (error) {
+            if (error instanceof ConflictError) setConflicts(ApiService.getConflicts());
+          }
+        }
+      }
+    } catch (error) {
+      alert("Failed to save this trip.");
+    } finally {
+      setPendingCount(ApiService.getPendingCount());
+      setIsSyncing(false);
+    }
+  };
+
+  const handleDeleteTrip = async (id: string) => {
+    setIsSyncing(true);
+    try {
+      // The server bumps the revision of every trace it unlinks, so take its copies rather than just clearing tripId
+      const unlinked = new Map((await ApiService.deleteTrip(id)).map(entry => [entry.id, entry]));
+      setTrips(prev => prev.filter(trip => trip.id !== id));
+      setStories(prev => prev.filter(story => story.tripId !== id));
+      setEntries(prev => prev.map(entry => unlinked.get(entry.id) ?? (entry.tripId === id ? { ...entry, tripId: null } : entry)));
+      if (activeTripId === id) setActiveTripId(null);
+    } catch (error) {
+      console.error("Deleting the trip failed:", error);
+      alert("Failed to delete this trip.");
+    } finally {
+      setPendingCount(ApiService.getPendingCount());
+      setIsSyncing(false);
+    }
   };
 
-  const handleExport = () => {
-    const dataStr = JSON.stringify(entries, null, 2);
-    const dataUri = 'data:application/json;charset=utf-8,'+ encodeURIComponent(dataStr);
-    const exportFileDefaultName = `wanderlust-traces-${new Date().toISOString().slice(0, 10)}.json`;
+  const handleSaveStory = async (finished: FinishedStory) => {
+    const saved = await ApiService.saveStory({ ...finished, tripId: activeTripId, dateRange: filter.dateRange });
+    setStories(prev => [...prev.filter(story => storyScope(story) !== storyScope(saved)), saved]);
+  };
+
+  const handleDeleteStory = async (story: TravelStory) => {
+    if (!confirm('Delete this story? You can always write a new one.')) return;
+    await ApiService.deleteStory(story.id);
+    setStories(prev => prev.filter(s => s.id !== story.id));
+  };
+
+  // Select a trace picked outside the map and bring it into view
+  const handleEntryFocus = async (id: string) => {
+    const entry = entries.find(e => e.id === id) ?? (await loadAllEntries()).find(e => e.id === id);
+    if (!entry) {
+      alert("That trace isn't in your journal any more.");
+      return;
+    }
+    handleEntrySelect(id);
+    setMapFocus({ lat: entry.latitude, lng: entry.longitude });
+    mapSectionRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsExportMenuOpen(false);
+    const { extension, mimeType } = EXPORT_FORMATS.find(f => f.format === format)!;
+    const dataStr = serializeEntries(applyFilter(await loadAllEntries(), filter), format, { resolveMediaUrl: url => ApiService.exportMediaUrl(url) });
+    const dataUri = `data:${mimeType};charset=utf-8,` + encodeURIComponent(dataStr);
+    const exportFileDefaultName = `wanderlust-traces-${new Date().toISOString().slice(0, 10)}.${extension}`;
     const linkElement = document.createElement('a');
     linkElement.setAttribute('href', dataUri);
     linkElement.setAttribute('download', exportFileDefaultName);
@@ -123,15 +580,23 @@ const App: React.FC = () => {
   const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
+    e.target.value = '';
     const reader = new FileReader();
     reader.onload = async (event) => {
       try {
-        const importedData = JSON.parse(event.target?.result as string);
-        if (Array.isArray(importedData)) {
-          await ApiService.importEntries(importedData);
-          setEntries(importedData);
-          alert("Journal imported successfully!");
+        const text = event.target?.result as string;
+        // GeoJSON, KML and GPX become new traces; the app's own backups get validated and merged or replaced
+        const parsed = parseTraceFile(text, file.name);
+        if (parsed) {
+          if (parsed.entries.length === 0) return alert("No points found in this file.");
+          setTraceImport({ fileName: file.name, parsed });
+          return;
         }
+        const importedData = JSON.parse(text);
+        if (!Array.isArray(importedData)) return alert("Failed to import. Expected a list of traces.");
+        // The preview checks for duplicates against the whole journal
+        await loadAllEntries();
+        setJournalImport({ fileName: file.name, rows: importedData });
       } catch (err) {
         alert("Failed to import. Invalid file format.");
       }
@@ -139,10 +604,57 @@ const App: React.FC = () => {
     reader.readAsText(file);
   };
 
+  const handleConfirmJournalImport = async (mode: ImportMode) => {
+    if (!journalImport) throw new Error('Nothing to import');
+    setIsSyncing(true);
+    try {
+      const report = await ApiService.importEntries(journalImport.rows, mode);
+      setEntries(report.entries);
+      return report;
+    } finally {
+      setPendingCount(ApiService.getPendingCount());
+      setIsSyncing(false);
+    }
+  };
+
+  // Re-importing the same GPX or KML skips the points we already have
+  const handleConfirmTraceImport = async (imported: Omit<JournalEntry, 'id'>[], tripId: string | null) => {
+    setIsSyncing(true);
+    try {
+      const report = await ApiService.importEntries(imported.map(entry => ({ ...entry, tripId })), 'merge');
+      setEntries(report.entries);
+      if (report.duplicates > 0) alert(`Imported ${report.imported} traces; ${report.duplicates} were already in your journal.`);
+    } catch (error) {
+      alert("Failed to import these traces.");
+    } finally {
+      setTraceImport(null);
+      setPendingCount(ApiService.getPendingCount());
+      setIsSyncing(false);
+    }
+  };
+
+  const activeTrip = trips.find(t => t.id === activeTripId) || null;
+  const visibleEntries = useMemo(() => applyFilter(entries, filter), [entries, filter]);
+  // Loaded traces are a lower bound until the server's count for this filter arrives
+  const currentTotals = totals?.key === serverQueryKey ? totals : null;
+  const scopeCount = Math.max(currentTotals?.scope ?? 0, activeTripId ? entries.filter(e => e.tripId === activeTripId).length : entries.length);
+  const matchingCount = Math.max(currentTotals?.matching ?? 0, visibleEntries.length);
+  // Stories are kept per trip and date range and cover all of it; the other filters only narrow the list and the map
+  const storyFilter = { ...EMPTY_FILTER, tripId: activeTripId, dateRange: filter.dateRange };
+  const currentScope = storyScope(storyFilter);
+  const currentStory = stories.find(story => storyScope(story) === currentScope) ?? null;
+
+  const routeStats = useMemo(() => computeRouteStats(visibleEntries), [visibleEntries]);
+  const furthestEntry = routeStats.furthest ? entries.find(e => e.id === routeStats.furthest?.entryId) : undefined;
+
   const selectedEntry = entries.find(e => e.id === selectedEntryId);
+  const editingEntry = entries.find(e => e.id === editingEntryId);
   const sortedEntries = useMemo(() => {
-     return [...entries].sort((a,b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-  }, [entries]);
+     const sorted = [...visibleEntries].sort(compareNewestFirst);
+     // Traces the map loaded further back wait until the list has paged down to them
+     const { hasMore, boundary } = traceList;
+     return hasMore && boundary !== null ? sorted.filter(e => entryTime(e) >= boundary) : sorted;
+  }, [visibleEntries, traceList]);
 
   if (isLoading) {
     return (
@@ -161,6 +673,83 @@ const App: React.FC = () => {
   return (
     <div className="min-h-screen p-4 md:p-8 flex flex-col items-center justify-start font-sans text-stone-800 bg-gradient-to-br from-pastel-lavender via-pastel-gold/30 to-pastel-sand/30">
       
+      {conflicts.length > 0 && (
+        <ConflictResolver
+          conflict={conflicts[0]}
+          onResolve={(resolution) => handleResolveConflict(conflicts[0], resolution)}
+          onAcceptRemote={() => handleAcceptRemote(conflicts[0])}
+        />
+      )}
+
+      {importedPhotos && (
+        <PhotoImportReview
+          photos={importedPhotos}
+          trips={trips}
+          defaultTripId={activeTripId}
+          onSave={handleSavePhotoDrafts}
+          onCancel={() => setImportedPhotos(null)}
+        />
+      )}
+
+      {journalImport && (
+        <JournalImportReview
+          fileName={journalImport.fileName}
+          rows={journalImport.rows}
+          existing={entries}
+          onConfirm={handleConfirmJournalImport}
+          onClose={() => setJournalImport(null)}
+        />
+      )}
+
+      {isBookDialogOpen && (
+        <TravelBookDialog
+          entries={entries}
+          trips={trips}
+          initialTripId={activeTripId}
+          initialRange={filter.dateRange}
+          onClose={() => setIsBookDialogOpen(false)}
+        />
+      )}
+
+      {isShareDialogOpen && (
+        <ShareDialog
+          entries={entries}
+          trips={trips}
+          initialTripId={activeTripId}
+          initialRange={filter.dateRange}
+          story={currentStory ? storyToText(currentStory) : null}
+          onClose={() => setIsShareDialogOpen(false)}
+        />
+      )}
+
+      {isAISettingsOpen && (
+        <AISettingsDialog
+          settings={aiSettings}
+          onSave={(next) => { saveAISettings(next); setAISettings(next); setIsAISettingsOpen(false); }}
+          onClose={() => setIsAISettingsOpen(false)}
+        />
+      )}
+
+      <JournalChat
+        isOpen={isChatOpen}
+        entries={entries}
+        trips={trips}
+        loadEntries={loadAllEntries}
+        onEntryFocus={handleEntryFocus}
+        onClose={() => setIsChatOpen(false)}
+      />
+
+      {traceImport && (
+        <TraceImportPreview
+          fileName={traceImport.fileName}
+          parsed={traceImport.parsed}
+          trips={trips}
+          defaultTripId={activeTripId}
+          onConfirm={handleConfirmTraceImport}
+          onCancel={() => setTraceImport(null)}
+        />
+      )}
+
       {isSyncing && (
         <div className="fixed top-4 right-4 z-[5000] bg-white/80 backdrop-blur px-4 py-2 rounded-full shadow-lg border border-primary/20 flex items-center gap-2 animate-bounce">
            <div className="w-2 h-2 bg-primary rounded-full animate-ping"></div>
@@ -179,35 +768,112 @@ const App: React.FC = () => {
             </div>
             <p className="text-sm font-serif italic text-stone-500 mt-1 ml-13">Fuel your wanderlust, one trace at a time.</p>
             <div className="flex items-center gap-2 mt-2 ml-13">
-              <div className={`w-2 h-2 rounded-full ${isBackendOnline ? 'bg-green-500 shadow-[0_0_5px_rgba(34,197,94,0.5)]' : 'bg-amber-500'}`}></div>
+              <div className={`w-2 h-2 rounded-full ${pendingCount > 0 ? 'bg-amber-500 animate-pulse' : isBackendOnline ? 'bg-green-500 shadow-[0_0_5px_rgba(34,197,94,0.5)]' : 'bg-amber-500'}`}></div>
               <span className="text-[10px] font-ui font-bold uppercase tracking-widest text-stone-400">
-                {isBackendOnline ? 'Cloud Database Connected' : 'Running Offline Mode'}
+                {pendingCount > 0
+                  ? `${pendingCount} ${pendingCount === 1 ? 'change' : 'changes'} pending`
+                  : isBackendOnline ? 'Cloud Database Connected' : 'Running Offline Mode'}
               </span>
+              {pendingCount > 0 && isBackendOnline && (
+                <button onClick={reconcilePendingChanges} disabled={isSyncing} className="text-[10px] font-ui font-bold uppercase tracking-widest text-primary hover:underline disabled:opacity-50">
+                  Sync now
+                </button>
+              )}
+              <span className="text-[10px] font-ui font-bold uppercase tracking-widest text-stone-300">·</span>
+              <span className="text-[10px] font-ui font-bold uppercase tracking-widest text-stone-400">{user.username}</span>
+              <button onClick={onSignOut} className="text-[10px] font-ui font-bold uppercase tracking-widest text-stone-400 hover:text-primary hover:underline">
+                Sign out
+              </button>
             </div>
           </div>
-          <div className="flex gap-4">
+          <div className="flex flex-wrap items-center gap-4">
+             <TripSwitcher
+                trips={trips}
+                activeTripId={activeTripId}
+                onSelect={setActiveTripId}
+                onSave={handleSaveTrip}
+                onDelete={handleDeleteTrip}
+             />
              <label className="cursor-pointer px-4 py-2 bg-white/50 hover:bg-white text-stone-600 rounded-full text-xs font-ui font-bold uppercase tracking-wider transition-all border border-stone-200">
                 Import
-                <input type="file" accept=".json" onChange={handleImport} className="hidden" />
+                <input type="file" accept=".json,.geojson,.kml,.gpx" onChange={handleImport} className="hidden" />
+             </label>
+             <label className="cursor-pointer px-4 py-2 bg-white/50 hover:bg-white text-stone-600 rounded-full text-xs font-ui font-bold uppercase tracking-wider transition-all border border-stone-200">
+                📷 Photo Folder
+                <input type="file" accept="image/*" multiple {...{ webkitdirectory: '' }} onChange={handlePhotoFolder} className="hidden" />
              </label>
-             <button onClick={handleExport} className="px-4 py-2 bg-white/50 hover:bg-white text-stone-600 rounded-full text-xs font-ui font-bold uppercase tracking-wider transition-all border border-stone-200">
-                Export
+             <div className="relative">
+                <button onClick={() => setIsExportMenuOpen(open => !open)} className="px-4 py-2 bg-white/50 hover:bg-white text-stone-600 rounded-full text-xs font-ui font-bold uppercase tracking-wider transition-all border border-stone-200">
+                   Export{visibleEntries.length !== entries.length ? ` (${visibleEntries.length})` : ''} ▾
+                </button>
+                {isExportMenuOpen && (
+                  <div className="absolute right-0 mt-2 z-[3000] w-56 bg-white/95 backdrop-blur rounded-2xl shadow-xl border border-stone-100 py-2">
+                    {EXPORT_FORMATS.map(({ format, label }) => (
+                      <button
+                        key={format}
+                        onClick={() => handleExport(format)}
+                        className="w-full text-left px-4 py-2 text-xs font-sans text-stone-600 hover:bg-pastel-gold/20 hover:text-primary"
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+             </div>
+             <button
+                onClick={async () => { await loadAllEntries(); setIsShareDialogOpen(true); }}
+                disabled={!isBackendOnline}
+                title={isBackendOnline ? undefined : 'Sharing needs a connection to the server'}
+                className="px-4 py-2 bg-white/50 hover:bg-white text-stone-600 rounded-full text-xs font-ui font-bold uppercase tracking-wider transition-all border border-stone-200 disabled:opacity-50"
+             >
+                🔗 Share
+             </button>
+             <button
+                onClick={() => setIsChatOpen(open => !open)}
+                title="Ask questions about your journal"
+                className="px-4 py-2 bg-white/50 hover:bg-white text-stone-600 rounded-full text-xs font-ui font-bold uppercase tracking-wider transition-all border border-stone-200"
+             >
+                💬 Ask
+             </button>
+             <button
+                onClick={() => setIsAISettingsOpen(true)}
+                title="Choose the AI provider and models"
+                className="px-4 py-2 bg-white/50 hover:bg-white text-stone-600 rounded-full text-xs font-ui font-bold uppercase tracking-wider transition-all border border-stone-200"
+             >
+                ✨ AI: {AI_PROVIDERS.find(p => p.id === aiSettings.provider)?.label}
              </button>
           </div>
         </header>
 
+        <FilterBar
+          filter={filter}
+          onChange={setFilter}
+          shownCount={matchingCount}
+          totalCount={scopeCount}
+        />
+
         {/* Map Container */}
-        <div className="relative bg-white/40 backdrop-blur-xl rounded-[3rem] p-3 shadow-2xl border border-white/60">
+        <div ref={mapSectionRef} className="relative bg-white/40 backdrop-blur-xl rounded-[3rem] p-3 shadow-2xl border border-white/60">
            <div className="relative h-[435px] flex rounded-[2.5rem] overflow-hidden transition-all duration-500">
               <div className="flex-grow h-full relative z-0">
                  <MapInterface 
-                    entries={entries} 
+                    entries={visibleEntries} 
+                    activeTrip={activeTrip}
                     onMapClick={handleMapClick}
                     selectedEntryId={selectedEntryId}
                     onEntrySelect={handleEntrySelect}
+                    onEntryMove={handleEntryMove}
                     tempMarker={tempMarker}
-                    dateRange={dateRange}
-                    onDateRangeChange={setDateRange}
+                    dateRange={filter.dateRange}
+                    onDateRangeChange={(dateRange) => setFilter(prev => ({ ...prev, dateRange }))}
+                    hasHiddenEntries={matchingCount < scopeCount}
+                    isViewportCapped={isViewportCapped}
+                    viewportLimit={VIEWPORT_LIMIT}
+                    routeMode={routeMode}
+                    onRouteModeChange={setRouteMode}
+                    onSearchEntries={(query) => ApiService.searchEntries(query)}
+                    onViewportChange={setViewportBbox}
+                    focusRequest={mapFocus}
                  />
               </div>
 
@@ -215,35 +881,52 @@ const App: React.FC = () => {
                  <div className="absolute right-6 top-6 bottom-6 w-96 z-10 animate-fadeIn">
                     <div className="h-full bg-pastel-sand/90 backdrop-blur-md rounded-[2rem] p-6 shadow-xl border border-white/50 overflow-y-auto journal-scroll">
                        <button 
-                          onClick={() => { setIsFormOpen(false); setSelectedEntryId(undefined); setTempMarker(null); }}
+                          onClick={handleClosePanel}
                           className="absolute top-6 right-6 text-stone-400 hover:text-stone-600 transition-colors"
                        >
                           <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
                        </button>
 
-                       {isFormOpen ? (
+                       {editingEntry ? (
+                          <EntryForm 
+                             onSubmit={handleFormSubmit}
+                             onCancel={() => setEditingEntryId(undefined)}
+                             coords={{ lat: editingEntry.latitude, lng: editingEntry.longitude }}
+                             initialEntry={editingEntry}
+                             trips={trips}
+                          />
+                       ) : isFormOpen ? (
                           <EntryForm 
                              onSubmit={handleFormSubmit}
                              onCancel={() => { setIsFormOpen(false); setTempMarker(null); }}
                              coords={tempMarker}
+                             trips={trips}
+                             defaultTripId={activeTripId}
+                             onLocationDetected={setTempMarker}
                           />
                        ) : selectedEntry && (
                           <div className="flex flex-col h-full">
-                              <span className="inline-block self-start bg-primary/20 text-primary-dark px-3 py-1 rounded-full text-xs font-ui font-bold uppercase tracking-wide mb-4">
-                                {selectedEntry.category}
-                              </span>
+                              <div className="flex items-center gap-2 mb-4">
+                                <span className="inline-block bg-primary/20 text-primary-dark px-3 py-1 rounded-full text-xs font-ui font-bold uppercase tracking-wide">
+                                  {selectedEntry.category}
+                                </span>
+                                <button
+                                  type="button"
+                                  onClick={() => setEditingEntryId(selectedEntry.id)}
+                                  className="px-3 py-1 bg-white/60 hover:bg-white text-stone-500 hover:text-primary rounded-full text-[10px] font-ui font-bold uppercase tracking-widest border border-stone-200 transition-all"
+                                >
+                                  ✎ Edit
+                                </button>
+                              </div>
                               <h3 className="text-2xl font-serif italic text-stone-800 mb-2">{selectedEntry.dateDisplay}</h3>
+                              {selectedEntry.placeName && (
+                                <p className="text-[10px] font-ui font-bold uppercase tracking-widest text-stone-400 mb-2">📍 {selectedEntry.placeName}</p>
+                              )}
                               <div className="w-16 h-0.5 bg-primary/30 mb-6"></div>
                               <p className="text-stone-700 font-sans font-light text-lg leading-relaxed mb-8 flex-grow">
                                 {selectedEntry.note}
                               </p>
-                              {selectedEntry.photoUrl && (
-                                <div className="mt-auto p-2 bg-white shadow-sm border border-stone-100 rounded-lg -rotate-1 transform hover:rotate-0 transition-transform duration-300">
-                                   <div className="aspect-square overflow-hidden rounded">
-                                      <img src={selectedEntry.photoUrl} alt="Memory" className="w-full h-full object-cover" />
-                                   </div>
-                                </div>
-                              )}
+                              <PhotoGallery photos={selectedEntry.photos} />
                           </div>
                        )}
                     </div>
@@ -256,15 +939,56 @@ const App: React.FC = () => {
         <section className="grid grid-cols-1 lg:grid-cols-12 gap-8 mb-12">
           <div className="lg:col-span-5 bg-white/30 backdrop-blur-md rounded-[2.5rem] p-8 shadow-sm border border-white/50 flex flex-col max-h-[600px]">
             <h3 className="font-serif italic text-2xl text-stone-700 mb-6">Journey Log</h3>
-            <button 
-                onClick={handleGenerateSummary}
-                disabled={isGenerating || entries.length === 0}
-                className="w-full py-3 mb-8 bg-white hover:bg-white/80 text-stone-700 font-ui font-medium uppercase tracking-widest text-xs rounded-xl shadow-sm hover:shadow transition-all disabled:opacity-50"
+            {activeTrip && (
+              <div className="relative mb-6 rounded-2xl overflow-hidden border border-white/60 shadow-sm">
+                {activeTrip.coverPhotoUrl && <img src={ApiService.mediaUrl(activeTrip.coverPhotoUrl)} alt={activeTrip.name} className="w-full h-28 object-cover" />}
+                <div className="flex items-center gap-3 px-4 py-3 bg-white/60">
+                  <div className="w-3 h-3 rounded-full" style={{ backgroundColor: activeTrip.color }}></div>
+                  <div className="min-w-0">
+                    <div className="font-serif italic text-lg text-stone-700 truncate">{activeTrip.name}</div>
+                    <div className="text-[10px] font-ui font-bold uppercase tracking-widest text-stone-400">{activeTrip.startDate} → {activeTrip.endDate} · {visibleEntries.length} traces</div>
+                  </div>
+                </div>
+              </div>
+            )}
+            <button
+                onClick={async () => { await loadAllEntries(); setIsBookDialogOpen(true); }}
+                disabled={entries.length === 0}
+                className="w-full py-3 mb-8 bg-white/50 hover:bg-white text-stone-600 font-ui font-medium uppercase tracking-widest text-xs rounded-xl border border-white/70 transition-all disabled:opacity-50"
             >
-                {isGenerating ? "Reflecting..." : "Reflect on Journey"}
+                📖 Make a Book
             </button>
+            {routeMode !== 'off' && visibleEntries.length > 1 && (
+              <div className="mb-6 p-4 bg-white/40 rounded-2xl border border-white/60">
+                <div className="flex justify-between items-baseline mb-3">
+                  <h4 className="font-serif italic text-lg text-stone-500">Route</h4>
+                  <span className="font-serif italic text-2xl text-primary-dark">{formatDistance(routeStats.totalKm)}</span>
+                </div>
+                {visibleEntries.length < matchingCount && (
+                  <p className="text-xs font-sans text-stone-400 mb-3">
+                    Covers the {visibleEntries.length} of {matchingCount} traces loaded so far.{' '}
+                    <button onClick={() => loadAllEntries()} className="text-primary hover:underline">Load all</button>
+                  </p>
+                )}
+                {routeStats.furthest && furthestEntry && (
+                  <button onClick={() => handleEntrySelect(furthestEntry.id)} className="w-full text-left text-xs font-sans text-stone-500 mb-3 hover:text-primary">
+                    Furthest from start: <span className="font-semibold">{formatDistance(routeStats.furthest.km)}</span> on {furthestEntry.dateDisplay.split(',')[0]}
+                  </button>
+                )}
+                <div className="space-y-1.5 max-h-32 overflow-y-auto journal-scroll pr-1">
+                  {routeStats.days.map((day, i) => (
+                    <div key={day.day} className="flex items-center gap-2 text-xs font-ui text-stone-500">
+                      <div className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: getDayColor(i) }}></div>
+                      <span className="flex-grow">{new Date(`${day.day}T00:00`).toLocaleDateString([], { dateStyle: 'medium' })}</span>
+                      <span className="text-stone-400">{day.stops} {day.stops === 1 ? 'stop' : 'stops'}</span>
+                      <span className="w-16 text-right font-semibold text-stone-600">{formatDistance(day.km)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
             <h4 className="font-serif italic text-lg text-stone-500 mb-4">Trace List</h4>
-            <div className="flex-1 overflow-y-auto journal-scroll space-y-3 pr-2 h-96">
+            <div ref={traceListRef} className="flex-1 overflow-y-auto journal-scroll space-y-3 pr-2 h-96">
               {sortedEntries.map((entry, idx) => (
                 <div 
                   key={entry.id} 
@@ -274,14 +998,21 @@ const App: React.FC = () => {
                     onClick={() => handleEntrySelect(entry.id)}
                     className="flex items-center gap-4 overflow-hidden cursor-pointer flex-grow h-full min-h-[3rem]"
                   >
-                    <span className="font-serif italic text-lg text-primary/50 w-6 flex-shrink-0">{(sortedEntries.length - idx).toString().padStart(2, '0')}.</span>
+                    <span className="font-serif italic text-lg text-primary/50 w-6 flex-shrink-0">{(matchingCount - idx).toString().padStart(2, '0')}.</span>
                     <div className="min-w-0">
                       <div className="text-sm font-semibold text-stone-600 font-sans truncate">{entry.dateDisplay.split(',')[0]}</div>
                       <div className="text-xs text-stone-400 uppercase tracking-wider font-ui truncate">{entry.category}</div>
                     </div>
                   </div>
                   <div className="flex items-center gap-2 pl-2 flex-shrink-0 z-20">
-                     {entry.photoUrl && <span className="text-stone-400 opacity-50 text-xs">📷</span>}
+                     {entry.photos.length > 0 && (
+                        <div className="relative">
+                          <img src={ApiService.thumbnailUrl(entry.photos[0].url)} alt="" loading="lazy" className="w-8 h-8 rounded-lg object-cover shadow-sm" />
+                          {entry.photos.length > 1 && (
+                            <span className="absolute -top-1.5 -right-1.5 min-w-[1rem] h-4 px-1 rounded-full bg-primary text-white text-[9px] font-ui font-bold flex items-center justify-center">{entry.photos.length}</span>
+                          )}
+                        </div>
+                     )}
                      <button
                         type="button"
                         onClick={(e) => handleDeleteEntry(e, entry.id)}
@@ -294,36 +1025,45 @@ const App: React.FC = () => {
                   </div>
                 </div>
               ))}
-              {entries.length === 0 && <p className="text-center text-stone-400 italic font-serif py-10">No entries yet.</p>}
+              {visibleEntries.length === 0 && !traceList.isLoading && <p className="text-center text-stone-400 italic font-serif py-10">{matchingCount < scopeCount ? 'No traces match these filters.' : activeTrip ? 'No traces in this trip yet.' : 'No entries yet.'}</p>}
+              {traceList.isLoading && <p className="text-center text-xs font-ui font-bold text-stone-400 uppercase tracking-widest py-3 animate-pulse">Loading more traces…</p>}
+              <div ref={traceSentinelRef} className="h-px" />
             </div>
           </div>
 
-          <div className="lg:col-span-7 relative">
-             <div className="absolute inset-0 bg-gradient-to-tr from-pastel-lavender/40 to-white/40 rounded-[3rem] blur-xl"></div>
-             <div className="relative h-full bg-white/30 backdrop-blur-xl rounded-[3rem] p-10 md:p-12 shadow-lg border border-white/60 flex flex-col justify-center items-start text-left">
-                <h2 className="text-4xl font-serif italic text-stone-800 mb-6">Your Travel Story</h2>
-                {travelStory ? (
-                    <div className="prose prose-lg prose-stone font-serif leading-loose text-stone-600">
-                      <p className="border-l-2 border-primary/30 pl-6 italic">
-                        "{travelStory}"
-                      </p>
-                    </div>
-                ) : (
-                    <div className="flex flex-col items-start gap-4 opacity-50 w-full">
-                        <div className="w-full h-4 bg-stone-300/20 rounded-full animate-pulse"></div>
-                        <div className="w-3/4 h-4 bg-stone-300/20 rounded-full animate-pulse delay-75"></div>
-                        <div className="w-5/6 h-4 bg-stone-300/20 rounded-full animate-pulse delay-150"></div>
-                        <p className="mt-4 text-sm font-sans text-stone-500">
-                           Select a date range on the map and click reflect to see your story.
-                        </p>
-                    </div>
-                )}
-             </div>
-          </div>
+          <TravelStoryPanel
+            story={currentStory}
+            scopeKey={currentScope}
+            entries={entries}
+            canWrite={applyFilter(entries, storyFilter).length > 0}
+            hint={activeTrip ? `Choose a tone and reflect to see the story of ${activeTrip.name}.` : 'Pick a date range, choose a tone and reflect to see its story.'}
+            loadEntries={async () => applyFilter(await loadAllEntries(), storyFilter)}
+            onSave={handleSaveStory}
+            onDelete={handleDeleteStory}
+            onEntryFocus={handleEntryFocus}
+          />
         </section>
       </div>
     </div>
   );
 };
 
+// The journal only loads once someone is signed in; an expired session sends them back here
+const App: React.FC = () => {
+  const [user, setUser] = useState<User | null>(() => ApiService.getCurrentUser());
+
+  useEffect(() => ApiService.onUnauthorized(() => setUser(null)), []);
+
+  const handleSignOut = async () => {
+    const pending = ApiService.getPendingCount();
+    if (pending > 0 && !confirm(`${pending} ${pending === 1 ? 'change hasn\'t' : 'changes haven\'t'} reached the server yet. They will sync the next time you sign in here. Sign out anyway?`)) return;
+    await ApiService.signOut();
+    setUser(null);
+  };
+
+  if (!user) return <LoginScreen onSignedIn={setUser} />;
+  // Keyed by user so nothing from the previous account's session lingers in state
+  return <Journal key={user.id} user={user} onSignOut={handleSignOut} />;
+};
+
 export default App;
\ No newline at end of file
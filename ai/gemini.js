@@ -0,0 +1,107 @@
+const API_ROOT = 'https://generativelanguage.googleapis.com/v1beta/models';
+const REQUEST_TIMEOUT_MS = 60000;
+// 长篇游记逐段生成，整个流允许更久
+const STREAM_TIMEOUT_MS = 180000;
+
+/**
+ * 面向用户的错误：status 和 code 原样返回给客户端，message 可以直接显示
+ */
+const aiError = (status, code, message, extra = {}) =>
+  Object.assign(new Error(message), { status, code, expose: true, ...extra });
+
+/**
+ * Gemini REST 接口。密钥只保存在服务器上，不会发给浏览器
+ */
+const createGeminiClient = (apiKey) => {
+  const assertConfigured = () => {
+    if (!apiKey) throw aiError(503, 'ai_unavailable', 'AI features are turned off: the server has no Gemini API key.');
+  };
+
+  // 发出请求并把 Gemini 的错误状态转换成面向用户的错误
+  const request = async (model, method, parts, { generationConfig, signal, timeoutMs = REQUEST_TIMEOUT_MS } = {}) => {
+    assertConfigured();
+    const timeout = AbortSignal.timeout(timeoutMs);
+    let response;
+    try {
+      response = await fetch(`${API_ROOT}/${encodeURIComponent(model)}:${method}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+        body: JSON.stringify({ contents: [{ parts }], ...(generationConfig ? { generationConfig } : {}) }),
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout
+      });
+    } catch (err) {
+      console.error('Gemini request failed:', err.message);
+      throw aiError(502, 'upstream_error', "Couldn't reach the AI service. Try again in a moment.");
+    }
+    if (response.status === 404) throw aiError(400, 'invalid_request', `The model "${model}" doesn't exist or isn't available.`);
+    if (response.status === 429) throw aiError(503, 'upstream_busy', 'The AI service is busy. Try again in a minute.', { retryAfter: 60 });
+    if (!response.ok) {
+      console.error(`Gemini returned ${response.status}:`, (await response.text()).slice(0, 500));
+      throw aiError(502, 'upstream_error', 'The AI service returned an error. Try again in a moment.');
+    }
+    return response;
+  };
+
+  const generate = async (model, parts, generationConfig) => {
+    const data = await (await request(model, 'generateContent', parts, { generationConfig })).json();
+    return data.candidates?.[0]?.content?.parts ?? [];
+  };
+
+  // 照片作为 inlineData 跟在提示词后面，提示词里按顺序称为 attached image 1, 2…
+  const promptParts = (prompt, images = []) => [{ text: prompt }, ...images.map(inlineData => ({ inlineData }))];
+
+  const textOf = (data) => (data.candidates?.[0]?.content?.parts ?? []).map(part => part.text || '').join('');
+
+  return {
+    configured: !!apiKey,
+    assertConfigured,
+
+    // images 为 { mimeType, data }，data 是 base64
+    async generateText(model, prompt, images) {
+      const parts = await generate(model, promptParts(prompt, images));
+      const text = parts.map(part => part.text || '').join('').trim();
+      if (!text) throw aiError(502, 'no_result', "The AI didn't have anything to say. Try again.");
+      return text;
+    },
+
+    /**
+     * 流式生成文本：每收到一段就调用 onText，结束后返回全文。
+     * signal 取消时（客户端断开）停止读取上游
+     */
+    async streamText(model, prompt, onText, { images, signal } = {}) {
+      const response = await request(model, 'streamGenerateContent?alt=sse', promptParts(prompt, images), { signal, timeoutMs: STREAM_TIMEOUT_MS });
+      let text = '';
+      let buffer = '';
+      try {
+        for await (const chunk of response.body.pipeThrough(new TextDecoderStream())) {
+          buffer += chunk;
+          const lines = buffer.split('\n');
+          buffer = lines.pop();
+          for (const line of lines) {
+            if (!line.startsWith('data:')) continue;
+            const delta = textOf(JSON.parse(line.slice(5)));
+            if (!delta) continue;
+            text += delta;
+            onText(delta);
+          }
+        }
+      } catch (err) {
+        if (signal?.aborted) throw err;
+        console.error('Gemini stream failed:', err.message);
+        throw aiError(502, 'upstream_error', 'The AI service stopped halfway. Try again in a moment.');
+      }
+      if (!text.trim()) throw aiError(502, 'no_result', "The AI didn't have anything to say. Try again.");
+      return text;
+    },
+
+    // 返回 data URL；不要假设图片在第一个 part
+    async generateImage(model, prompt) {
+      const parts = await generate(model, [{ text: prompt }], { responseModalities: ['TEXT', 'IMAGE'], imageConfig: { aspectRatio: '1:1' } });
+      const image = parts.find(part => part.inlineData);
+      if (!image) throw aiError(502, 'no_result', "The AI couldn't paint this memory. Try a different description.");
+      return `data:${image.inlineData.mimeType};base64,${image.inlineData.data}`;
+    }
+  };
+};
+
+module.exports = { aiError, createGeminiClient };
@@ -0,0 +1,191 @@
+const crypto = require('crypto');
+const { aiError, createGeminiClient } = require('./gemini');
+const { summaryPrompt, enhancePrompt, placeContextPrompt, paintPrompt, storyPrompt, chatPrompt, STORY_TONES, STORY_LENGTHS } = require('./prompts');
+
+const DEFAULT_TEXT_MODEL = 'gemini-3-flash-preview';
+const DEFAULT_IMAGE_MODEL = 'gemini-2.5-flash-image';
+// 客户端可以在设置里换模型，但只能是 Gemini 模型名
+const MODEL_PATTERN = /^gemini-[\w.-]{1,60}$/;
+
+// 每个账户每分钟的请求上限；命中缓存的请求不计数
+const RATE_LIMITS = {
+  text: { limit: 20, windowMs: 60000 },
+  image: { limit: 4, windowMs: 60000 }
+};
+const CACHE_TTL_MS = 60 * 60000;
+const CACHE_MAX_ITEMS = 500;
+const MAX_NOTE_LENGTH = 20000;
+const MAX_SUMMARY_ENTRIES = 500;
+const MAX_PLACE_NAME_LENGTH = 300;
+// 附带照片时最多几张；每张都会占用不少输入
+const MAX_PROMPT_IMAGES = 6;
+// 日志助手：客户端只送来检索出的几条日志和最近的对话
+const MAX_CHAT_TRACES = 50;
+const MAX_CHAT_MESSAGES = 20;
+const MAX_CHAT_MESSAGE_LENGTH = 4000;
+
+const invalid = (message) => aiError(400, 'invalid_request', message);
+
+const checkModel = (model, fallback) => {
+  if (model === undefined || model === null || model === '') return fallback;
+  if (typeof model !== 'string' || !MODEL_PATTERN.test(model)) throw invalid('model must be a Gemini model name such as gemini-3-flash-preview');
+  return model;
+};
+
+const checkNote = (note) => {
+  if (typeof note !== 'string' || !note.trim()) throw invalid('note must be a non-empty string');
+  if (note.length > MAX_NOTE_LENGTH) throw invalid(`note must be at most ${MAX_NOTE_LENGTH} characters`);
+  return note.trim();
+};
+
+/**
+ * AI 功能：校验输入、按账户限流、缓存相同请求的结果，再调用 Gemini。
+ * storeImage 把生成的 data URL 存进媒体库并返回 /media/ 路径；
+ * loadImage 读取 /media/ 照片，返回 { mimeType, data }，读不到时返回 null。
+ * 出错时抛出带 status / code 的错误（见 aiError）
+ */
+const createAIService = ({ apiKey, categories, storeImage, loadImage }) => {
+  const gemini = createGeminiClient(apiKey);
+  const requests = new Map();
+  const cache = new Map();
+
+  const takeRequest = (userId, kind) => {
+    const { limit, windowMs } = RATE_LIMITS[kind];
+    const key = `${userId}:${kind}`;
+    const now = Date.now();
+    const recent = (requests.get(key) || []).filter(time => time > now - windowMs);
+    if (recent.length >= limit) {
+      const retryAfter = Math.ceil((recent[0] + windowMs - now) / 1000);
+      throw aiError(429, 'rate_limited', `That's a lot of AI requests. Try again in ${retryAfter} seconds.`, { retryAfter });
+    }
+    recent.push(now);
+    requests.set(key, recent);
+  };
+
+  // 缓存按账户隔离；同一账户的相同提示词（和附带的照片）直接返回上次的结果
+  const cached = async (userId, kind, model, prompt, produce) => {
+    const key = crypto.createHash('sha256').update(`${userId}\n${kind}\n${model}\n${prompt}`).digest('hex');
+    const hit = cache.get(key);
+    if (hit && hit.expiresAt > Date.now()) return hit.value;
+    gemini.assertConfigured();
+    takeRequest(userId, kind);
+    const value = await produce();
+    cache.delete(key);
+    cache.set(key, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+    // Map 按插入顺序遍历，第一个就是最旧的
+    if (cache.size > CACHE_MAX_ITEMS) cache.delete(cache.keys().next().value);
+    return value;
+  };
+
+  const text = (userId, model, prompt) =>
+    cached(userId, 'text', model, prompt, () => gemini.generateText(model, prompt));
+
+  /**
+   * 挑出随请求附上的照片：每条日志最多一张（跳过 AI 画的），太多时在整段行程里均匀挑选。
+   * 返回图片、entryId → 图片序号，以及用于缓存键的照片路径
+   */
+  const attachPhotos = (numbered, includePhotos) => {
+    const attached = { images: [], photoNumbers: new Map(), urls: [] };
+    if (!includePhotos) return attached;
+    const candidates = numbered
+      .map(({ entry }) => ({ entry, photo: entry.photos.find(photo => !photo.aiGenerated) }))
+      .filter(candidate => candidate.photo);
+    const step = Math.max(1, candidates.length / MAX_PROMPT_IMAGES);
+    for (let i = 0; i < candidates.length && attached.images.length < MAX_PROMPT_IMAGES; i += step) {
+      const { entry, photo } = candidates[Math.floor(i)];
+      const image = loadImage(photo.url);
+      if (!image) continue;
+      attached.images.push(image);
+      attached.urls.push(photo.url);
+      attached.photoNumbers.set(entry.id, [attached.images.length]);
+    }
+    return attached;
+  };
+
+  // 客户端可以为还没有地名的日志带上临时查到的地名；只用在提示词里，不保存
+  const withPlaceNames = (numbered, placeNames) => {
+    if (placeNames === undefined || placeNames === null) return numbered;
+    const valid = typeof placeNames === 'object' && !Array.isArray(placeNames) &&
+      Object.values(placeNames).every(name => typeof name === 'string' && name.length <= MAX_PLACE_NAME_LENGTH);
+    if (!valid) throw invalid(`placeNames must map entry ids to names of at most ${MAX_PLACE_NAME_LENGTH} characters`);
+    return numbered.map(({ number, entry }) => {
+      const placeName = !entry.placeName && Object.hasOwn(placeNames, entry.id) ? placeNames[entry.id].trim() : '';
+      return placeName ? { number, entry: { ...entry, placeName } } : { number, entry };
+    });
+  };
+
+  const checkTraces = (numbered, what) => {
+    if (numbered.length === 0) throw invalid('None of these traces have reached the server yet.');
+    if (numbered.length > MAX_SUMMARY_ENTRIES) throw invalid(`${what} can cover at most ${MAX_SUMMARY_ENTRIES} traces.`);
+  };
+
+  return {
+    configured: gemini.configured,
+
+    // entries 按时间排好序；placeNames 为 entryId → 地名
+    summary(userId, { entries, placeNames, model, includePhotos }) {
+      const numbered = withPlaceNames(entries.map((entry, index) => ({ number: index + 1, entry })), placeNames);
+      checkTraces(numbered, 'A reflection');
+      const textModel = checkModel(model, DEFAULT_TEXT_MODEL);
+      const { images, photoNumbers, urls } = attachPhotos(numbered, includePhotos);
+      const prompt = summaryPrompt(numbered, photoNumbers);
+      return cached(userId, 'text', textModel, [prompt, ...urls].join('\n'), () => gemini.generateText(textModel, prompt, images));
+    },
+
+    enhance(userId, { note, category, model }) {
+      if (!categories.includes(category)) throw invalid(`category must be one of ${categories.join(', ')}`);
+      return text(userId, checkModel(model, DEFAULT_TEXT_MODEL), enhancePrompt(checkNote(note), category));
+    },
+
+    placeContext(userId, { latitude, longitude, placeName, model }) {
+      const isCoordinate = (value, limit) => typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= limit;
+      if (!isCoordinate(latitude, 90) || !isCoordinate(longitude, 180)) throw invalid('latitude and longitude must be valid coordinates');
+      if (placeName != null && (typeof placeName !== 'string' || placeName.length > MAX_PLACE_NAME_LENGTH)) {
+        throw invalid(`placeName must be a string of at most ${MAX_PLACE_NAME_LENGTH} characters`);
+      }
+      return text(userId, checkModel(model, DEFAULT_TEXT_MODEL), placeContextPrompt(latitude, longitude, placeName?.trim() || null));
+    },
+
+    /**
+     * 流式写游记：numbered 为 { number, entry }，placeNames 同 summary，每段文本交给 onText，返回全文。
+     * 不走缓存：重写游记就是想要一篇不一样的
+     */
+    async story(userId, { numbered: traces, placeNames, tone, length, model, includePhotos }, onText, signal) {
+      if (!Object.hasOwn(STORY_TONES, tone)) throw invalid(`tone must be one of ${Object.keys(STORY_TONES).join(', ')}`);
+      if (!Object.hasOwn(STORY_LENGTHS, length)) throw invalid(`length must be one of ${Object.keys(STORY_LENGTHS).join(', ')}`);
+      const numbered = withPlaceNames(traces, placeNames);
+      checkTraces(numbered, 'A story');
+      const textModel = checkModel(model, DEFAULT_TEXT_MODEL);
+      const { images, photoNumbers } = attachPhotos(numbered, includePhotos);
+      const prompt = storyPrompt(numbered, tone, length, photoNumbers);
+      gemini.assertConfigured();
+      takeRequest(userId, 'text');
+      return gemini.streamText(textModel, prompt, onText, { images, signal });
+    },
+
+    /**
+     * 回答关于日志的问题：numbered 为 { number, entry }（可以为空），
+     * overview 是整本日志的统计，messages 是 { role, text } 对话
+     */
+    chat(userId, { numbered, overview, messages, model }) {
+      if (!Array.isArray(messages) || messages.length === 0 || messages.length > MAX_CHAT_MESSAGES) {
+        throw invalid(`messages must be a list of 1 to ${MAX_CHAT_MESSAGES} messages`);
+      }
+      const valid = messages.every(message => message && ['user', 'assistant'].includes(message.role) &&
+        typeof message.text === 'string' && message.text.trim() && message.text.length <= MAX_CHAT_MESSAGE_LENGTH);
+      if (!valid) throw invalid(`each message must have a role of user or assistant and a text of at most ${MAX_CHAT_MESSAGE_LENGTH} characters`);
+      if (messages[messages.length - 1].role !== 'user') throw invalid('the last message must be from the user');
+      if (numbered.length > MAX_CHAT_TRACES) throw invalid(`A question can bring at most ${MAX_CHAT_TRACES} traces.`);
+      const turns = messages.map(({ role, text }) => ({ role, text: text.trim() }));
+      return text(userId, checkModel(model, DEFAULT_TEXT_MODEL), chatPrompt(numbered, overview, turns));
+    },
+
+    paint(userId, { note, model }) {
+      const imageModel = checkModel(model, DEFAULT_IMAGE_MODEL);
+      const prompt = paintPrompt(checkNote(note));
+      return cached(userId, 'image', imageModel, prompt, async () => storeImage(await gemini.generateImage(imageModel, prompt)));
+    }
+  };
+};
+
+module.exports = { aiError, createAIService, STORY_TONES: Object.keys(STORY_TONES), STORY_LENGTHS: Object.keys(STORY_LENGTHS) };
@@ -0,0 +1,115 @@
+/**
+ * 发给模型的提示词。所有 AI 请求都在服务器上拼装，浏览器只提交数据
+ */
+const { haversineDistance } = require('../shared/geo.mjs');
+
+const distanceKm = (a, b) => haversineDistance({ lat: a.latitude, lng: a.longitude }, { lat: b.latitude, lng: b.longitude });
+
+const formatKm = (km) => (km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`);
+
+// 有地名时用地名，坐标留给模型判断方位
+const describePlace = (placeName, latitude, longitude) => {
+  const position = `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`;
+  return placeName ? `${placeName} (${position})` : `an unnamed spot at ${position}`;
+};
+
+/**
+ * 按时间顺序逐条描述日志：编号、时间、分类、地点、与上一站的距离和笔记。
+ * photoNumbers 是 entryId → 随请求附上的图片序号；tripNames 是 tripId → 旅行名称。
+ * 日志不是一条连续路线时（route 为 false）不写距离
+ */
+const traceLines = (numbered, photoNumbers = new Map(), { tripNames = new Map(), route = true } = {}) => {
+  const lines = numbered.map(({ number, entry }, i) => {
+    const previous = numbered[i - 1]?.entry;
+    const leg = !route ? '' : ` · ${previous ? `${formatKm(distanceKm(previous, entry))} from the previous stop` : 'first stop'}`;
+    const trip = tripNames.has(entry.tripId) ? ` · trip "${tripNames.get(entry.tripId)}"` : '';
+    const images = photoNumbers.get(entry.id);
+    const attached = images ? ` (photo: attached image ${images.join(', ')})` : '';
+    return `[${number}] ${entry.timestamp.slice(0, 10)} ${entry.timestamp.slice(11, 16)} · ${entry.category} · ${describePlace(entry.placeName, entry.latitude, entry.longitude)}${trip}${leg}: "${entry.note}"${attached}`;
+  });
+  if (!route) return lines.join('\n');
+  const total = numbered.slice(1).reduce((km, { entry }, i) => km + distanceKm(numbered[i].entry, entry), 0);
+  return `${lines.join('\n')}\nTotal route: ${formatKm(total)}.`;
+};
+
+const summaryPrompt = (numbered, photoNumbers) =>
+  `Write a poetic and reflective travel summary (max 80 words) for these journal traces, listed in the order they happened:\n${traceLines(numbered, photoNumbers)}\n` +
+  'Mention the real places by name where they are known, and let the route and distances shape the story. Tone: Warm, nostalgic, luminary.';
+
+const enhancePrompt = (note, category) =>
+  `Rewrite this raw note into an evocative travel journal entry (max 40 words): "${note}". Category: ${category}.`;
+
+const placeContextPrompt = (lat, lng, placeName) =>
+  `I am at ${describePlace(placeName, lat, lng)}. Tell me one interesting historical fact about this spot (max 40 words).`;
+
+const paintPrompt = (note) =>
+  `A beautiful, atmospheric watercolor painting of a travel memory: "${note}". Dreamy, artistic, soft lighting, 1:1 aspect ratio.`;
+
+// 游记的语气和篇幅；键名与客户端的 StoryTone / StoryLength 一致
+const STORY_TONES = {
+  poetic: 'Poetic and reflective: warm, nostalgic, luminous imagery.',
+  itinerary: 'A factual itinerary: where, when and what, in plain sentences with no flourishes.',
+  diary: 'A day-by-day diary written in the first person, honest and personal.',
+  postcard: 'A cheerful postcard to a close friend: open with a greeting, end the last day with a sign-off.'
+};
+
+const STORY_LENGTHS = {
+  short: 120,
+  medium: 300,
+  long: 700
+};
+
+/**
+ * 游记提示词。numbered 是 { number, entry }，编号由客户端的顺序决定，
+ * 模型用 [编号] 引用日志，客户端据此把段落链接回地图上的标记
+ */
+const storyPrompt = (numbered, tone, length, photoNumbers) =>
+  [
+    `Write a travel story (about ${STORY_LENGTHS[length]} words in total) from these journal traces, listed in the order they happened:`,
+    traceLines(numbered, photoNumbers),
+    `Tone: ${STORY_TONES[tone]}`,
+    'Name the real places where they are known.',
+    'Use exactly this plain-text layout and no other markdown:',
+    'TITLE: <a short title>',
+    '<one short introduction paragraph>',
+    '## <YYYY-MM-DD> | <a title for that day>',
+    '<one or more paragraphs about that day>',
+    'Write one ## section per day that has traces, in date order.',
+    'Whenever a sentence draws on a trace, cite it right after the sentence by its number, like [3]. Only cite numbers from the list.'
+  ].join('\n');
+
+const formatCounts = (counts) =>
+  Object.entries(counts).sort((a, b) => b[1] - a[1]).map(([category, count]) => `${category} ${count}`).join(', ') || 'none';
+
+// 整本日志的统计：总数、时间跨度、各分类数量，以及每次旅行的同样信息
+const overviewLines = ({ total, from, to, categories, trips, unassigned }) =>
+  [
+    `${total} traces in total${from ? `, from ${from} to ${to}` : ''}. By category: ${formatCounts(categories)}.`,
+    ...trips.map(trip => `Trip "${trip.name}" (${trip.startDate} to ${trip.endDate}): ${trip.total} traces. By category: ${formatCounts(trip.categories)}.`),
+    ...(unassigned.total > 0 ? [`Not in any trip: ${unassigned.total} traces. By category: ${formatCounts(unassigned.categories)}.`] : [])
+  ].map(line => `- ${line}`).join('\n');
+
+const CHAT_SPEAKERS = { user: 'Traveller', assistant: 'Assistant' };
+
+/**
+ * 日志助手的提示词。numbered 是客户端检索出的相关日志 { number, entry }，
+ * overview 见 overviewLines，messages 是 { role, text } 对话，最后一条是用户的问题
+ */
+const chatPrompt = (numbered, overview, messages) => {
+  const tripNames = new Map(overview.trips.map(trip => [trip.id, trip.name]));
+  return [
+    'You are the assistant inside a private travel journal. Answer the traveller\'s latest message using only the journal data below.',
+    'If the journal does not say, tell them so briefly. Keep answers under 120 words, in plain text with no markdown.',
+    'Journal overview:',
+    overviewLines(overview),
+    ...(numbered.length > 0
+      ? ['Traces that may be relevant, in the order they happened:', traceLines(numbered, new Map(), { tripNames, route: false })]
+      : ['No single traces matched this message; answer from the overview if you can.']),
+    'Whenever a sentence draws on a trace, cite it right after the sentence by its number, like [3]. Only cite numbers from the list.',
+    'Conversation:',
+    ...messages.map(message => `${CHAT_SPEAKERS[message.role]}: ${message.text}`),
+    'Assistant:'
+  ].join('\n');
+};
+
+module.exports = { summaryPrompt, enhancePrompt, placeContextPrompt, paintPrompt, storyPrompt, chatPrompt, STORY_TONES, STORY_LENGTHS };
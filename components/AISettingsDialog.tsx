@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { AISettings } from '../types';
+import { AI_PROVIDERS, DEFAULT_AI_SETTINGS } from '../services/aiProvider';
+
+interface AISettingsDialogProps {
+  settings: AISettings;
+  onSave: (settings: AISettings) => void;
+  onClose: () => void;
+}
+
+const AISettingsDialog: React.FC<AISettingsDialogProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<AISettings>(settings);
+  const usesModels = draft.provider === 'gemini';
+
+  const handleSave = () => {
+    onSave({
+      ...draft,
+      textModel: draft.textModel.trim() || DEFAULT_AI_SETTINGS.textModel,
+      imageModel: draft.imageModel.trim() || DEFAULT_AI_SETTINGS.imageModel
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[6000] bg-stone-800/30 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-lg max-h-[90vh] overflow-y-auto journal-scroll bg-pastel-sand/95 rounded-[2rem] p-8 shadow-2xl border border-white/60 flex flex-col gap-5">
+        <h2 className="text-3xl font-serif italic text-stone-800 border-b border-primary/20 pb-2">AI Settings</h2>
+        <p className="text-xs font-sans text-stone-500 -mt-2">Choose who writes your reflections, polishes notes, explains places and paints memories.</p>
+
+        <div className="flex flex-col gap-2">
+          <label className="text-xs font-ui font-bold text-stone-400 uppercase tracking-widest">Provider</label>
+          {AI_PROVIDERS.map(provider => (
+            <label
+              key={provider.id}
+              className={`flex items-start gap-3 rounded-xl px-4 py-3 border cursor-pointer transition-colors ${draft.provider === provider.id ? 'bg-white/80 border-primary/40' : 'bg-white/40 border-white/70 hover:bg-white/60'}`}
+            >
+              <input
+                type="radio"
+                name="ai-provider"
+                checked={draft.provider === provider.id}
+                onChange={() => setDraft(prev => ({ ...prev, provider: provider.id }))}
+                className="accent-primary mt-1"
+              />
+              <div className="flex flex-col">
+                <span className="text-sm font-sans font-semibold text-stone-700">{provider.label}</span>
+                <span className="text-[11px] font-sans text-stone-500">{provider.description}</span>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        <div className={`flex flex-col gap-3 ${usesModels ? '' : 'opacity-50'}`}>
+          <div className="flex flex-col gap-1">
+            <label htmlFor="ai-text-model" className="text-xs font-ui font-bold text-stone-400 uppercase tracking-widest">Text model</label>
+            <input
+              id="ai-text-model"
+              type="text"
+              value={draft.textModel}
+              disabled={!usesModels}
+              onChange={(e) => setDraft(prev => ({ ...prev, textModel: e.target.value }))}
+              placeholder={DEFAULT_AI_SETTINGS.textModel}
+              className="w-full bg-white/50 border-b-2 border-stone-200 focus:border-primary px-3 py-2 rounded-t-lg outline-none font-sans text-stone-700 text-sm"
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <label htmlFor="ai-image-model" className="text-xs font-ui font-bold text-stone-400 uppercase tracking-widest">Image model</label>
+            <input
+              id="ai-image-model"
+              type="text"
+              value={draft.imageModel}
+              disabled={!usesModels}
+              onChange={(e) => setDraft(prev => ({ ...prev, imageModel: e.target.value }))}
+              placeholder={DEFAULT_AI_SETTINGS.imageModel}
+              className="w-full bg-white/50 border-b-2 border-stone-200 focus:border-primary px-3 py-2 rounded-t-lg outline-none font-sans text-stone-700 text-sm"
+            />
+          </div>
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.includePhotos}
+              disabled={!usesModels}
+              onChange={(e) => setDraft(prev => ({ ...prev, includePhotos: e.target.checked }))}
+              className="accent-primary mt-1"
+            />
+            <span className="flex flex-col">
+              <span className="text-sm font-sans font-semibold text-stone-700">Let the AI see your photos</span>
+              <span className="text-[11px] font-sans text-stone-500">Reflections and stories look at up to six of your trace photos. Slower, but they can describe what you saw.</span>
+            </span>
+          </label>
+        </div>
+
+        <div className="flex gap-3">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-stone-500 text-xs font-ui font-bold uppercase tracking-wide">Cancel</button>
+          <button
+            type="button"
+            onClick={handleSave}
+            className="flex-1 py-3 bg-gradient-to-r from-primary to-primary-dark text-white rounded-xl shadow-md font-ui font-bold text-xs tracking-widest uppercase"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AISettingsDialog;
@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react';
+import { EntryConflict, JournalEntry } from '../types';
+import { ApiService } from '../services/api';
+
+interface ConflictResolverProps {
+  conflict: EntryConflict;
+  // null resolution deletes the entry everywhere
+  onResolve: (resolution: Omit<JournalEntry, 'id'> | null) => Promise<void>;
+  onAcceptRemote: () => Promise<void>;
+}
+
+type Side = 'local' | 'remote';
+type MergeField = 'note' | 'category' | 'timestamp' | 'location' | 'photos';
+
+const MERGE_FIELDS: { key: MergeField; label: string }[] = [
+  { key: 'note', label: 'Notes' },
+  { key: 'category', label: 'Category' },
+  { key: 'timestamp', label: 'Time / Date' },
+  { key: 'location', label: 'Location' },
+  { key: 'photos', label: 'Photos' },
+];
+
+const stripId = ({ id, ...rest }: JournalEntry): Omit<JournalEntry, 'id'> => rest;
+
+const renderField = (entry: JournalEntry, field: MergeField) => {
+  switch (field) {
+    case 'note': return <p className="text-sm text-stone-700 font-sans leading-snug">{entry.note}</p>;
+    case 'category': return <span className="text-xs font-ui uppercase tracking-wider text-stone-500">{entry.category}</span>;
+    case 'timestamp': return <span className="text-sm font-serif italic text-stone-600">{entry.dateDisplay}</span>;
+    case 'location': return <span className="text-xs font-ui text-stone-500">{entry.latitude.toFixed(5)}, {entry.longitude.toFixed(5)}</span>;
+    case 'photos': return entry.photos.length > 0
+      ? (
+        <div className="flex flex-wrap gap-1">
+          {entry.photos.map((photo, i) => (
+            <img key={i} src={ApiService.thumbnailUrl(photo.url)} alt={photo.caption || 'Memory'} className="w-12 h-12 object-cover rounded" />
+          ))}
+        </div>
+      )
+      : <span className="text-xs italic text-stone-400">No photos</span>;
+  }
+};
+
+const isSameField = (a: JournalEntry, b: JournalEntry, field: MergeField) => {
+  if (field === 'location') return a.latitude === b.latitude && a.longitude === b.longitude;
+  if (field === 'photos') return JSON.stringify(a.photos) === JSON.stringify(b.photos);
+  return a[field] === b[field];
+};
+
+const ConflictResolver: React.FC<ConflictResolverProps> = ({ conflict, onResolve, onAcceptRemote }) => {
+  const { local, remote } = conflict;
+  const [choices, setChoices] = useState<Record<MergeField, Side>>({
+    note: 'local', category: 'local', timestamp: 'local', location: 'local', photos: 'local'
+  });
+  const [isResolving, setIsResolving] = useState(false);
+
+  useEffect(() => {
+    setChoices({ note: 'local', category: 'local', timestamp: 'local', location: 'local', photos: 'local' });
+  }, [conflict.id]);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsResolving(true);
+    try {
+      await action();
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const buildMerged = (mine: JournalEntry, theirs: JournalEntry): Omit<JournalEntry, 'id'> => {
+    const pick = (field: MergeField) => choices[field] === 'local' ? mine : theirs;
+    return {
+      ...stripId(theirs),
+      note: pick('note').note,
+      category: pick('category').category,
+      timestamp: pick('timestamp').timestamp,
+      dateDisplay: pick('timestamp').dateDisplay,
+      latitude: pick('location').latitude,
+      longitude: pick('location').longitude,
+      photos: pick('photos').photos,
+    };
+  };
+
+  const renderVersion = (entry: JournalEntry | null, title: string, side: Side) => (
+    <div className="flex-1 min-w-0 bg-white/60 rounded-2xl p-4 border border-white/70">
+      <h4 className="font-serif italic text-lg text-stone-700 mb-3">{title}</h4>
+      {entry ? (
+        <div className="flex flex-col gap-3">
+          {MERGE_FIELDS.map(({ key, label }) => {
+            const differs = local && remote ? !isSameField(local, remote, key) : false;
+            return (
+              <label key={key} className={`flex items-start gap-2 rounded-lg p-2 ${differs ? 'bg-pastel-gold/20' : ''}`}>
+                {differs && (
+                  <input
+                    type="radio"
+                    name={`merge-${key}`}
+                    checked={choices[key] === side}
+                    onChange={() => setChoices(prev => ({ ...prev, [key]: side }))}
+                    className="mt-1 accent-primary"
+                  />
+                )}
+                <div className="flex flex-col gap-1 min-w-0">
+                  <span className="text-[10px] font-ui font-bold text-stone-400 uppercase tracking-widest">{label}</span>
+                  {renderField(entry, key)}
+                </div>
+              </label>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-sm italic font-serif text-stone-400 py-6 text-center">Deleted</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[6000] bg-stone-800/30 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-3xl max-h-[90vh] overflow-y-auto journal-scroll bg-pastel-sand/95 rounded-[2rem] p-8 shadow-2xl border border-white/60">
+        <h2 className="text-3xl font-serif italic text-stone-800 mb-1">Edited on another device</h2>
+        <p className="text-sm font-sans text-stone-500 mb-6">
+          This memory changed elsewhere since you last synced. Pick a version, or choose field by field and save the merge.
+        </p>
+
+        <div className="flex flex-col md:flex-row gap-4 mb-6">
+          {renderVersion(local, 'This device', 'local')}
+          {renderVersion(remote, 'Other device', 'remote')}
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-3">
+          {local && remote && (
+            <>
+              <button disabled={isResolving} onClick={() => run(onAcceptRemote)} className="px-4 py-2 bg-white/60 hover:bg-white text-stone-600 rounded-full text-xs font-ui font-bold uppercase tracking-wider border border-stone-200 disabled:opacity-50">
+                Keep theirs
+              </button>
+              <button disabled={isResolving} onClick={() => run(() => onResolve(stripId(local)))} className="px-4 py-2 bg-white/60 hover:bg-white text-stone-600 rounded-full text-xs font-ui font-bold uppercase tracking-wider border border-stone-200 disabled:opacity-50">
+                Keep mine
+              </button>
+              <button disabled={isResolving} onClick={() => run(() => onResolve(buildMerged(local, remote)))} className="px-5 py-2 bg-gradient-to-r from-primary to-primary-dark text-white rounded-full text-xs font-ui font-bold uppercase tracking-wider shadow-md disabled:opacity-50">
+                Save merged
+              </button>
+            </>
+          )}
+          {!local && remote && (
+            <>
+              <button disabled={isResolving} onClick={() => run(onAcceptRemote)} className="px-4 py-2 bg-white/60 hover:bg-white text-stone-600 rounded-full text-xs font-ui font-bold uppercase tracking-wider border border-stone-200 disabled:opacity-50">
+                Keep theirs
+              </button>
+              <button disabled={isResolving} onClick={() => run(() => onResolve(null))} className="px-5 py-2 bg-red-500/90 hover:bg-red-600 text-white rounded-full text-xs font-ui font-bold uppercase tracking-wider shadow-md disabled:opacity-50">
+                Delete anyway
+              </button>
+            </>
+          )}
+          {local && !remote && (
+            <>
+              <button disabled={isResolving} onClick={() => run(onAcceptRemote)} className="px-4 py-2 bg-white/60 hover:bg-white text-stone-600 rounded-full text-xs font-ui font-bold uppercase tracking-wider border border-stone-200 disabled:opacity-50">
+                Accept deletion
+              </button>
+              <button disabled={isResolving} onClick={() => run(() => onResolve(stripId(local)))} className="px-5 py-2 bg-gradient-to-r from-primary to-primary-dark text-white rounded-full text-xs font-ui font-bold uppercase tracking-wider shadow-md disabled:opacity-50">
+                Restore mine
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictResolver;
@@ -1,92 +1,165 @@
-import React, { useState, useEffect } from 'react';
-import { Category, Coordinates } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { Category, Coordinates, JournalEntry, EntryFormData, Trip, MediaItem } from '../types';
 import { enhanceEntryNote, getPlaceContext, paintMemory } from '../services/geminiService';
+import { ApiService } from '../services/api';
+import { readPhotoMetadata } from '../services/exif';
 
 interface EntryFormProps {
-  onSubmit: (data: { note: string; category: Category; photoUrl: string | null; date: string }) => Promise<void>;
+  onSubmit: (data: EntryFormData) => Promise<void>;
   onCancel: () => void;
   coords?: Coordinates | null;
+  // When provided, the form edits this entry instead of logging a new one
+  initialEntry?: JournalEntry | null;
+  trips?: Trip[];
+  defaultTripId?: string | null;
+  // Called with the GPS position of the first uploaded photo that has one (new entries only)
+  onLocationDetected?: (coords: Coordinates) => void;
 }
 
-const EntryForm: React.FC<EntryFormProps> = ({ onSubmit, onCancel, coords }) => {
-  const [note, setNote] = useState('');
-  const [category, setCategory] = useState<Category>(Category.Culture);
+// A photo in the form; file is set for uploads that haven't been stored yet (url is then an object URL)
+interface DraftPhoto extends MediaItem {
+  file?: File;
+}
+
+// Formats a date for a datetime-local input in the user's timezone
+const toLocalInputValue = (d: Date) =>
+  new Date(d.getTime() - (d.getTimezoneOffset() * 60000)).toISOString().slice(0, 16);
+
+const EntryForm: React.FC<EntryFormProps> = ({ onSubmit, onCancel, coords, initialEntry, trips = [], defaultTripId = null, onLocationDetected }) => {
+  const [note, setNote] = useState(initialEntry?.note ?? '');
+  const [category, setCategory] = useState<Category>(initialEntry?.category ?? Category.Culture);
   const [date, setDate] = useState('');
-  const [photo, setPhoto] = useState<File | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [photos, setPhotos] = useState<DraftPhoto[]>(initialEntry?.photos ?? []);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [exifHint, setExifHint] = useState<string | null>(null);
+  // Once the date comes from a photo (or the user), moving the pin must not reset it
+  const dateIsSet = useRef(false);
+  const [tripId, setTripId] = useState<string | null>(initialEntry ? initialEntry.tripId ?? null : defaultTripId);
   
   const [isEnhancing, setIsEnhancing] = useState(false);
   const [isPainting, setIsPainting] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [agentInsight, setAgentInsight] = useState<string | null>(null);
+  const [aiError, setAIError] = useState<string | null>(null);
   const [isGettingInsight, setIsGettingInsight] = useState(false);
 
   useEffect(() => {
-    const now = new Date();
-    const localIso = new Date(now.getTime() - (now.getTimezoneOffset() * 60000)).toISOString().slice(0, 16);
-    setDate(localIso);
+    if (initialEntry || dateIsSet.current) return;
+    setDate(toLocalInputValue(new Date()));
   }, [coords]);
 
+  useEffect(() => {
+    if (!initialEntry) return;
+    setNote(initialEntry.note);
+    setCategory(initialEntry.category);
+    setDate(toLocalInputValue(new Date(initialEntry.timestamp)));
+    setPhotos(initialEntry.photos);
+    setTripId(initialEntry.tripId ?? null);
+    setAgentInsight(null);
+  }, [initialEntry?.id]);
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      setPhoto(file);
-      setPreviewUrl(URL.createObjectURL(file));
+    const files = Array.from(e.target.files ?? []);
+    if (files.length === 0) return;
+    setPhotos(prev => [...prev, ...files.map(file => ({ url: URL.createObjectURL(file), caption: '', file }))]);
+    e.target.value = '';
+    if (!initialEntry) prefillFromPhotos(files);
+  };
+
+  // The camera already recorded where and when; use the first photo that knows
+  const prefillFromPhotos = async (files: File[]) => {
+    const metadata = await Promise.all(files.map(readPhotoMetadata));
+    const located = metadata.find(m => m && m.latitude !== null && m.longitude !== null);
+    const timed = metadata.find(m => m?.takenAt);
+    const applied: string[] = [];
+    if (located && onLocationDetected) {
+      onLocationDetected({ lat: located.latitude!, lng: located.longitude! });
+      applied.push('location');
     }
+    if (timed && !dateIsSet.current) {
+      dateIsSet.current = true;
+      setDate(timed.takenAt!);
+      applied.push('time');
+    }
+    if (applied.length > 0) setExifHint(`📷 ${applied.join(' and ')} taken from your photo`);
+  };
+
+  const movePhoto = (from: number, to: number) => {
+    if (to < 0 || to >= photos.length || from === to) return;
+    setPhotos(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
   };
 
-  const handleEnhance = async () => {
+  const removePhoto = (index: number) => {
+    const removed = photos[index];
+    if (removed.file) URL.revokeObjectURL(removed.url);
+    setPhotos(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const setCaption = (index: number, caption: string) => {
+    setPhotos(prev => prev.map((p, i) => i === index ? { ...p, caption } : p));
+  };
+
+  // AI failures come with a message meant for the traveller
+  const runAI = async (setBusy: (busy: boolean) => void, task: () => Promise<void>) => {
+    setBusy(true);
+    setAIError(null);
+    try {
+      await task();
+    } catch (error) {
+      setAIError((error as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEnhance = () => {
     if (!note.trim()) return;
-    setIsEnhancing(true);
-    const polished = await enhanceEntryNote(note, category);
-    setNote(polished);
-    setIsEnhancing(false);
+    return runAI(setIsEnhancing, async () => setNote(await enhanceEntryNote(note, category)));
   };
 
-  const handlePaint = async () => {
+  const handlePaint = () => {
     if (!note.trim()) return alert("Please write a note first to inspire the AI.");
-    setIsPainting(true);
-    const aiImage = await paintMemory(note);
-    if (aiImage) {
-      setPreviewUrl(aiImage);
-      // We clear the manual file upload if AI generates one
-      setPhoto(null);
-    } else {
-      alert("AI failed to paint this memory. Try a different description.");
-    }
-    setIsPainting(false);
+    return runAI(setIsPainting, async () => {
+      const aiImage = await paintMemory(note);
+      if (aiImage) setPhotos(prev => [...prev, { url: aiImage, caption: '', aiGenerated: true }]);
+      else setAIError("AI failed to paint this memory. Try a different description.");
+    });
   };
 
-  const handleGetInsight = async () => {
+  const handleGetInsight = () => {
     if (!coords) return;
-    setIsGettingInsight(true);
-    const insight = await getPlaceContext(coords.lat, coords.lng);
-    setAgentInsight(insight);
-    setIsGettingInsight(false);
+    return runAI(setIsGettingInsight, async () => setAgentInsight(await getPlaceContext(coords.lat, coords.lng, initialEntry?.placeName)));
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsProcessing(true);
 
-    let finalPhotoUrl: string | null = previewUrl; // Use current preview (could be AI or Local)
-
-    // Only if it's a local File do we need to convert to Base64
-    if (photo) {
-      finalPhotoUrl = await new Promise<string>((resolve) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(photo);
-        reader.onload = () => resolve(reader.result as string);
-      });
+    // New uploads and AI paintings go to the media store; existing /media/ URLs are kept as-is
+    const finalPhotos: MediaItem[] = [];
+    for (const { file, ...item } of photos) {
+      if (file) {
+        finalPhotos.push({ ...item, url: await ApiService.storePhoto(file) });
+        URL.revokeObjectURL(item.url);
+      } else if (item.url.startsWith('data:')) {
+        finalPhotos.push({ ...item, url: await ApiService.storePhoto(item.url) });
+      } else {
+        finalPhotos.push(item);
+      }
     }
 
-    await onSubmit({ note, category, photoUrl: finalPhotoUrl, date });
+    await onSubmit({ note, category, photos: finalPhotos, date, tripId });
     setIsProcessing(false);
   };
 
   return (
     <div className="h-full flex flex-col p-2">
-      <h2 className="text-3xl font-serif italic text-stone-800 mb-4 border-b border-primary/20 pb-2">Log New Memory</h2>
+      <h2 className="text-3xl font-serif italic text-stone-800 mb-4 border-b border-primary/20 pb-2">{initialEntry ? 'Edit Memory' : 'Log New Memory'}</h2>
       
       <form onSubmit={handleSubmit} className="flex-1 flex flex-col gap-5">
         <div className="flex flex-col gap-1">
@@ -94,10 +167,11 @@ const EntryForm: React.FC<EntryFormProps> = ({ onSubmit, onCancel, coords }) =>
           <input 
             type="datetime-local" 
             value={date}
-            onChange={(e) => setDate(e.target.value)}
+            onChange={(e) => { dateIsSet.current = true; setDate(e.target.value); }}
             required
             className="w-full bg-white/50 border-b-2 border-stone-200 focus:border-primary px-3 py-2 rounded-t-lg outline-none font-sans text-stone-700 text-sm"
           />
+          {exifHint && <p className="text-[10px] font-ui font-bold uppercase tracking-widest text-primary/70">{exifHint}</p>}
         </div>
 
         {coords && (
@@ -135,6 +209,7 @@ const EntryForm: React.FC<EntryFormProps> = ({ onSubmit, onCancel, coords }) =>
               {isEnhancing ? "Polishing..." : "✨ Polish"}
             </button>
           </div>
+          {aiError && <p className="text-xs font-sans text-red-600">{aiError}</p>}
         </div>
 
         <div className="flex flex-col gap-2">
@@ -155,9 +230,25 @@ const EntryForm: React.FC<EntryFormProps> = ({ onSubmit, onCancel, coords }) =>
           </div>
         </div>
 
+        {trips.length > 0 && (
+          <div className="flex flex-col gap-1">
+            <label className="text-xs font-ui font-bold text-stone-400 uppercase tracking-widest">Trip</label>
+            <select
+              value={tripId ?? ''}
+              onChange={(e) => setTripId(e.target.value || null)}
+              className="w-full bg-white/50 border-b-2 border-stone-200 focus:border-primary px-3 py-2 rounded-t-lg outline-none font-sans text-stone-700 text-sm"
+            >
+              <option value="">No trip</option>
+              {trips.map(trip => (
+                <option key={trip.id} value={trip.id}>{trip.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
         <div className="flex flex-col gap-2">
           <div className="flex justify-between items-center">
-             <label className="text-xs font-ui font-bold text-stone-400 uppercase tracking-widest">Photo or AI Art</label>
+             <label className="text-xs font-ui font-bold text-stone-400 uppercase tracking-widest">Photos or AI Art</label>
              <button 
                 type="button" 
                 onClick={handlePaint} 
@@ -167,20 +258,48 @@ const EntryForm: React.FC<EntryFormProps> = ({ onSubmit, onCancel, coords }) =>
                 {isPainting ? "Painting..." : "🎨 Paint with AI"}
              </button>
           </div>
+          {photos.length > 0 && (
+            <div className="flex flex-col gap-2">
+              {photos.map((p, i) => (
+                <div
+                  key={`${p.url}-${i}`}
+                  draggable
+                  onDragStart={() => setDragIndex(i)}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={() => { if (dragIndex !== null) movePhoto(dragIndex, i); setDragIndex(null); }}
+                  onDragEnd={() => setDragIndex(null)}
+                  className={`flex items-center gap-2 p-1.5 bg-white/50 rounded-xl border transition-all cursor-grab ${dragIndex === i ? 'opacity-40 border-primary' : 'border-stone-200'}`}
+                >
+                  <div className="relative w-12 h-12 flex-shrink-0 rounded-lg overflow-hidden">
+                    <img src={p.file ? p.url : ApiService.thumbnailUrl(p.url)} alt="" className="w-full h-full object-cover" />
+                    {i === 0 && <span className="absolute bottom-0 inset-x-0 bg-primary/80 text-white text-[8px] font-ui font-bold uppercase tracking-widest text-center">Cover</span>}
+                  </div>
+                  <input
+                    type="text"
+                    value={p.caption}
+                    onChange={(e) => setCaption(i, e.target.value)}
+                    placeholder={p.aiGenerated ? 'AI painting — add a caption' : 'Add a caption'}
+                    className="flex-1 min-w-0 bg-transparent border-b border-stone-200 focus:border-primary px-1 py-1 outline-none font-sans text-stone-700 text-xs"
+                  />
+                  <div className="flex flex-shrink-0 text-stone-400 text-xs">
+                    <button type="button" onClick={() => movePhoto(i, i - 1)} disabled={i === 0} className="px-1.5 hover:text-primary disabled:opacity-20" title="Move earlier">↑</button>
+                    <button type="button" onClick={() => movePhoto(i, i + 1)} disabled={i === photos.length - 1} className="px-1.5 hover:text-primary disabled:opacity-20" title="Move later">↓</button>
+                    <button type="button" onClick={() => removePhoto(i)} className="px-1.5 hover:text-red-500" title="Remove">✕</button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
           <div className="relative group">
-             <input type="file" accept="image/*" onChange={handleFileChange} className="hidden" id="photo-upload" />
+             <input type="file" accept="image/*" multiple onChange={handleFileChange} className="hidden" id="photo-upload" />
              <label 
                 htmlFor="photo-upload"
-                className="flex items-center justify-center w-full h-24 border-2 border-dashed border-stone-300 rounded-xl cursor-pointer hover:bg-white/50 transition-all overflow-hidden bg-white/30"
+                className="flex items-center justify-center w-full h-16 border-2 border-dashed border-stone-300 rounded-xl cursor-pointer hover:bg-white/50 transition-all overflow-hidden bg-white/30"
              >
-                {previewUrl ? (
-                    <img src={previewUrl} alt="Preview" className="w-full h-full object-cover" />
-                ) : (
-                    <div className="flex flex-col items-center text-stone-400 group-hover:text-primary">
-                        <svg className="h-6 w-6 mb-1" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
-                        <span className="text-[10px] font-ui uppercase font-bold tracking-widest">Upload Photo</span>
-                    </div>
-                )}
+                <div className="flex items-center gap-2 text-stone-400 group-hover:text-primary">
+                    <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
+                    <span className="text-[10px] font-ui uppercase font-bold tracking-widest">{photos.length > 0 ? 'Add More Photos' : 'Upload Photos'}</span>
+                </div>
              </label>
           </div>
         </div>
@@ -192,7 +311,7 @@ const EntryForm: React.FC<EntryFormProps> = ({ onSubmit, onCancel, coords }) =>
                 disabled={isProcessing || isPainting}
                 className="flex-1 py-3 bg-gradient-to-r from-primary to-primary-dark text-white rounded-xl shadow-md font-ui font-bold text-xs tracking-widest uppercase disabled:opacity-50"
             >
-                {isProcessing ? "Saving..." : "Save Log"}
+                {isProcessing ? "Saving..." : initialEntry ? "Update Log" : "Save Log"}
             </button>
         </div>
       </form>
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Category, EntryFilter } from '../types';
+import { EMPTY_FILTER, isFilterActive } from '../services/filters';
+
+interface FilterBarProps {
+  filter: EntryFilter;
+  onChange: (filter: EntryFilter) => void;
+  shownCount: number;
+  totalCount: number;
+}
+
+const FilterBar: React.FC<FilterBarProps> = ({ filter, onChange, shownCount, totalCount }) => {
+  const toggleCategory = (cat: Category) => {
+    const categories = filter.categories.includes(cat)
+      ? filter.categories.filter(c => c !== cat)
+      : [...filter.categories, cat];
+    onChange({ ...filter, categories });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 px-4">
+      <div className="relative">
+        <input
+          type="text"
+          value={filter.text}
+          onChange={(e) => onChange({ ...filter, text: e.target.value })}
+          placeholder="Filter notes..."
+          className="w-48 pl-8 pr-3 py-1.5 rounded-full bg-white/60 border border-stone-200 outline-none focus:ring-2 focus:ring-primary/20 text-stone-700 font-sans text-xs"
+        />
+        <svg className="absolute left-2.5 top-2 w-3.5 h-3.5 text-stone-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" /></svg>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5">
+        {Object.values(Category).map(cat => (
+          <button
+            key={cat}
+            onClick={() => toggleCategory(cat)}
+            className={`px-3 py-1 text-[10px] font-ui font-bold uppercase tracking-wider rounded-full border transition-all ${
+              filter.categories.includes(cat) ? 'bg-primary text-white border-primary shadow-sm' : 'bg-white/50 text-stone-500 border-stone-200 hover:bg-white'
+            }`}
+          >
+            {cat}
+          </button>
+        ))}
+      </div>
+
+      <button
+        onClick={() => onChange({ ...filter, hasPhoto: !filter.hasPhoto })}
+        className={`px-3 py-1 text-[10px] font-ui font-bold uppercase tracking-wider rounded-full border transition-all ${
+          filter.hasPhoto ? 'bg-primary text-white border-primary shadow-sm' : 'bg-white/50 text-stone-500 border-stone-200 hover:bg-white'
+        }`}
+      >
+        📷 With photo
+      </button>
+
+      {/* The active trip is chosen in the header, so it doesn't count as a filter here */}
+      {isFilterActive({ ...filter, tripId: null }) && (
+        <>
+          <span className="text-[10px] font-ui font-bold uppercase tracking-widest text-stone-400">
+            {shownCount} of {totalCount} traces
+          </span>
+          <button
+            onClick={() => onChange({ ...EMPTY_FILTER, tripId: filter.tripId })}
+            className="text-[10px] font-ui font-bold uppercase tracking-widest text-primary hover:underline"
+          >
+            Clear filters
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FilterBar;
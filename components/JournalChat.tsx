@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatMessage, JournalEntry, Trip } from '../types';
+import { askJournal } from '../services/geminiService';
+import { splitCitations } from '../services/citations';
+
+interface JournalChatProps {
+  isOpen: boolean;
+  entries: JournalEntry[]; // Loaded traces, used to label the sources under each answer
+  trips: Trip[];
+  loadEntries: () => Promise<JournalEntry[]>; // Every trace, for finding the ones a question is about
+  onEntryFocus: (id: string) => void;
+  onClose: () => void;
+}
+
+const SUGGESTIONS = [
+  'Where did we eat in Lisbon?',
+  'Which trip had the most nature stops?',
+  'Which museums did we visit?'
+];
+
+const newId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Stays mounted while closed so the conversation survives hiding the panel
+const JournalChat: React.FC<JournalChatProps> = ({ isOpen, entries, trips, loadEntries, onEntryFocus, onClose }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [input, setInput] = useState('');
+  const [isThinking, setIsThinking] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) inputRef.current?.focus();
+  }, [isOpen]);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
+  }, [messages, isThinking]);
+
+  const ask = async (question: string) => {
+    if (!question.trim() || isThinking) return;
+    const asked: ChatMessage = { id: newId(), role: 'user', text: question.trim(), sourceIds: [] };
+    // Failed answers aren't part of the conversation the assistant sees
+    const conversation = [...messages.filter(m => !m.error), asked];
+    setMessages(prev => [...prev, asked]);
+    setInput('');
+    setIsThinking(true);
+    try {
+      const { text, sourceIds } = await askJournal(conversation, await loadEntries(), trips);
+      setMessages(prev => [...prev, { id: newId(), role: 'assistant', text, sourceIds }]);
+    } catch (err) {
+      setMessages(prev => [...prev, { id: newId(), role: 'assistant', text: (err as Error).message, sourceIds: [], error: true }]);
+    } finally {
+      setIsThinking(false);
+    }
+  };
+
+  const entryById = new Map(entries.map(e => [e.id, e]));
+  const sourceLabel = (id: string) => {
+    const entry = entryById.get(id);
+    return entry ? (entry.placeName?.split(',')[0] ?? entry.category) : 'Trace';
+  };
+
+  const renderAnswer = (message: ChatMessage) => {
+    const sources = message.sourceIds.map(id => ({ id }));
+    const parts = splitCitations(message.text, sources);
+    const cited = [...new Set(parts.flatMap(part => 'entryId' in part ? [part.entryId] : []))];
+    return (
+      <>
+        <p className="whitespace-pre-line leading-relaxed">
+          {parts.map((part, i) => 'text' in part ? (
+            <React.Fragment key={i}>{part.text}</React.Fragment>
+          ) : (
+            <button
+              key={i}
+              type="button"
+              onClick={() => onEntryFocus(part.entryId)}
+              title={sourceLabel(part.entryId)}
+              className="align-super mx-0.5 px-1 rounded bg-primary/10 hover:bg-primary/20 text-primary-dark text-[10px] font-ui font-bold transition-colors"
+            >
+              {part.label}
+            </button>
+          ))}
+        </p>
+        {cited.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mt-2">
+            {cited.map(id => (
+              <button
+                key={id}
+                type="button"
+                onClick={() => onEntryFocus(id)}
+                className="px-2.5 py-1 rounded-full bg-white/60 hover:bg-white border border-white/70 text-[10px] font-ui font-bold uppercase tracking-wider text-stone-500 hover:text-primary transition-colors"
+              >
+                📍 {message.sourceIds.indexOf(id) + 1} · {sourceLabel(id)}
+              </button>
+            ))}
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className={`fixed bottom-6 right-6 z-[5000] w-[calc(100vw-3rem)] max-w-sm h-[32rem] max-h-[calc(100vh-3rem)] bg-pastel-sand/95 backdrop-blur-xl rounded-[2rem] shadow-2xl border border-white/60 flex-col ${isOpen ? 'flex' : 'hidden'}`}>
+      <div className="flex items-center justify-between px-6 pt-5 pb-3 border-b border-primary/20">
+        <h2 className="text-2xl font-serif italic text-stone-800">Ask your journal</h2>
+        <button type="button" onClick={onClose} className="text-stone-400 hover:text-stone-600 text-xl leading-none" aria-label="Close">×</button>
+      </div>
+
+      <div ref={scrollRef} className="flex-1 overflow-y-auto journal-scroll px-5 py-4 flex flex-col gap-3 text-sm font-sans text-stone-700">
+        {messages.length === 0 && (
+          <div className="flex flex-col gap-2">
+            <p className="text-xs text-stone-500">Ask about places, meals, trips and dates. Answers point to the traces they come from; click one to find it on the map.</p>
+            {SUGGESTIONS.map(suggestion => (
+              <button
+                key={suggestion}
+                type="button"
+                onClick={() => ask(suggestion)}
+                className="self-start px-3 py-1.5 rounded-full bg-white/50 hover:bg-white border border-white/70 text-xs text-stone-600 transition-colors"
+              >
+                {suggestion}
+              </button>
+            ))}
+          </div>
+        )}
+        {messages.map(message => (
+          <div
+            key={message.id}
+            className={message.role === 'user'
+              ? 'self-end max-w-[85%] px-4 py-2 rounded-2xl rounded-br-sm bg-primary/15 text-stone-800'
+              : `self-start max-w-[90%] px-4 py-2 rounded-2xl rounded-bl-sm ${message.error ? 'bg-red-50 text-red-600' : 'bg-white/70'}`}
+          >
+            {message.role === 'assistant' && !message.error ? renderAnswer(message) : <p className="whitespace-pre-line">{message.text}</p>}
+          </div>
+        ))}
+        {isThinking && <p className="self-start text-[10px] font-ui font-bold uppercase tracking-widest text-stone-400 animate-pulse">Reading your journal…</p>}
+      </div>
+
+      <form
+        onSubmit={(e) => { e.preventDefault(); ask(input); }}
+        className="flex gap-2 px-5 pb-5 pt-3 border-t border-white/60"
+      >
+        <input
+          ref={inputRef}
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="Where did we…"
+          maxLength={1000}
+          className="flex-1 bg-white/50 border-b-2 border-stone-200 focus:border-primary px-3 py-2 rounded-t-lg outline-none font-sans text-stone-700 text-sm"
+        />
+        <button
+          type="submit"
+          disabled={isThinking || !input.trim()}
+          className="px-4 py-2 bg-gradient-to-r from-primary to-primary-dark text-white rounded-xl shadow-md font-ui font-bold text-xs tracking-widest uppercase disabled:opacity-50"
+        >
+          Ask
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default JournalChat;
@@ -0,0 +1,118 @@
+import React, { useState, useMemo } from 'react';
+import { ImportMode, ImportReport, JournalEntry } from '../types';
+import { analyzeImport } from '../services/importValidation';
+
+interface JournalImportReviewProps {
+  fileName: string;
+  rows: unknown[];
+  existing: JournalEntry[];
+  onConfirm: (mode: ImportMode) => Promise<ImportReport>;
+  onClose: () => void;
+}
+
+// Long error reports are cut off; the count still covers every row
+const MAX_LISTED_ERRORS = 50;
+
+const JournalImportReview: React.FC<JournalImportReviewProps> = ({ fileName, rows, existing, onConfirm, onClose }) => {
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [isImporting, setIsImporting] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [failure, setFailure] = useState<string | null>(null);
+
+  // Preview locally; the server runs the same checks again when we confirm
+  const analysis = useMemo(() => analyzeImport(rows, existing, mode), [rows, existing, mode]);
+  const errors = report?.errors ?? analysis.errors;
+
+  const handleConfirm = async () => {
+    setIsImporting(true);
+    setFailure(null);
+    try {
+      setReport(await onConfirm(mode));
+    } catch (e) {
+      setFailure(e instanceof Error ? e.message : 'Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[6000] bg-stone-800/30 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-2xl max-h-[90vh] flex flex-col bg-pastel-sand/95 rounded-[2rem] p-8 shadow-2xl border border-white/60">
+        <h2 className="text-3xl font-serif italic text-stone-800 mb-1">{report ? 'Import finished' : 'Import journal'}</h2>
+        <p className="text-sm font-sans text-stone-500 mb-5">{fileName}: {rows.length} row{rows.length === 1 ? '' : 's'}</p>
+
+        {!report && (
+          <div className="flex flex-col gap-2 mb-5">
+            <label className={`flex items-start gap-3 p-3 rounded-xl border cursor-pointer ${mode === 'merge' ? 'bg-white/70 border-primary/30' : 'bg-white/30 border-transparent'}`}>
+              <input type="radio" name="import-mode" checked={mode === 'merge'} onChange={() => setMode('merge')} className="mt-1 accent-primary" />
+              <div>
+                <div className="text-sm font-sans font-semibold text-stone-700">Merge</div>
+                <div className="text-xs font-sans text-stone-500">Add new traces to your journal. Rows already in it (same id, or same time and place) are skipped.</div>
+              </div>
+            </label>
+            <label className={`flex items-start gap-3 p-3 rounded-xl border cursor-pointer ${mode === 'replace' ? 'bg-white/70 border-red-300' : 'bg-white/30 border-transparent'}`}>
+              <input type="radio" name="import-mode" checked={mode === 'replace'} onChange={() => setMode('replace')} className="mt-1 accent-primary" />
+              <div>
+                <div className="text-sm font-sans font-semibold text-stone-700">Replace</div>
+                <div className="text-xs font-sans text-stone-500">Delete the {existing.length} trace{existing.length === 1 ? '' : 's'} in your journal and keep only this file.</div>
+              </div>
+            </label>
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-3 mb-5">
+          {[
+            { label: report ? 'Imported' : 'Will import', value: report?.imported ?? analysis.accepted.length, tone: 'text-primary-dark' },
+            { label: 'Duplicates skipped', value: report?.duplicates ?? analysis.duplicates, tone: 'text-stone-600' },
+            { label: 'Invalid rows', value: errors.length, tone: errors.length > 0 ? 'text-red-600' : 'text-stone-600' },
+          ].map(stat => (
+            <div key={stat.label} className="bg-white/60 rounded-2xl p-3 text-center border border-white/70">
+              <div className={`text-2xl font-serif ${stat.tone}`}>{stat.value}</div>
+              <div className="text-[10px] font-ui font-bold uppercase tracking-widest text-stone-400">{stat.label}</div>
+            </div>
+          ))}
+        </div>
+
+        {errors.length > 0 && (
+          <div className="flex-1 min-h-0 overflow-y-auto journal-scroll bg-white/50 rounded-2xl p-4 border border-red-100 mb-4">
+            <h4 className="text-[10px] font-ui font-bold uppercase tracking-widest text-red-500 mb-2">These rows will be left out</h4>
+            <ul className="flex flex-col gap-2">
+              {errors.slice(0, MAX_LISTED_ERRORS).map(error => (
+                <li key={error.row} className="text-xs font-sans text-stone-600">
+                  <span className="font-semibold text-stone-700">Row {error.row}{error.id ? ` (${error.id})` : ''}:</span> {error.messages.join('; ')}
+                </li>
+              ))}
+            </ul>
+            {errors.length > MAX_LISTED_ERRORS && (
+              <p className="text-xs italic text-stone-400 mt-2">…and {errors.length - MAX_LISTED_ERRORS} more</p>
+            )}
+          </div>
+        )}
+
+        {failure && <p className="text-sm font-sans text-red-600 mb-3">{failure}</p>}
+
+        <div className="flex justify-end gap-3 pt-2">
+          {report ? (
+            <button type="button" onClick={onClose} className="px-6 py-3 bg-gradient-to-r from-primary to-primary-dark text-white rounded-xl shadow-md font-ui font-bold text-xs tracking-widest uppercase">
+              Done
+            </button>
+          ) : (
+            <>
+              <button type="button" onClick={onClose} disabled={isImporting} className="px-4 py-2 text-stone-500 text-xs font-ui font-bold uppercase tracking-wide">Cancel</button>
+              <button
+                type="button"
+                onClick={handleConfirm}
+                disabled={isImporting || (mode === 'merge' && analysis.accepted.length === 0)}
+                className={`px-6 py-3 text-white rounded-xl shadow-md font-ui font-bold text-xs tracking-widest uppercase disabled:opacity-50 ${mode === 'replace' ? 'bg-red-500/90 hover:bg-red-600' : 'bg-gradient-to-r from-primary to-primary-dark'}`}
+              >
+                {isImporting ? 'Importing...' : mode === 'replace' ? 'Replace journal' : `Import ${analysis.accepted.length}`}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default JournalImportReview;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { User } from '../types';
+import { ApiService } from '../services/api';
+
+interface LoginScreenProps {
+  onSignedIn: (user: User) => void;
+}
+
+type Mode = 'signin' | 'register';
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ onSignedIn }) => {
+  const [mode, setMode] = useState<Mode>('signin');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const user = mode === 'signin'
+        ? await ApiService.signIn(username, password)
+        : await ApiService.register(username, password);
+      onSignedIn(user);
+    } catch (err) {
+      // fetch rejects with a TypeError when the server can't be reached at all
+      setError(err instanceof TypeError ? "Can't reach the journal server. Check that it is running." : (err as Error).message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const switchMode = () => {
+    setMode(mode === 'signin' ? 'register' : 'signin');
+    setError(null);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 font-sans text-stone-800 bg-gradient-to-br from-pastel-lavender via-pastel-gold/30 to-pastel-sand/30">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-pastel-sand/95 rounded-[2rem] p-8 shadow-2xl border border-white/60 flex flex-col gap-5">
+        <div className="flex flex-col items-center gap-2 text-center">
+          <div className="w-12 h-12 bg-[url('https://cdn-icons-png.flaticon.com/512/3663/3663363.png')] bg-cover opacity-80 mix-blend-multiply"></div>
+          <h1 className="text-3xl font-serif italic font-medium text-stone-700">Wanderlust Traces</h1>
+          <p className="text-sm font-serif italic text-stone-500">
+            {mode === 'signin' ? 'Welcome back, traveller.' : 'Start a journal of your own.'}
+          </p>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <label htmlFor="login-username" className="text-xs font-ui font-bold text-stone-400 uppercase tracking-widest">Username</label>
+          <input
+            id="login-username"
+            type="text"
+            autoComplete="username"
+            autoFocus
+            required
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            className="w-full bg-white/50 border-b-2 border-stone-200 focus:border-primary px-3 py-2 rounded-t-lg outline-none font-sans text-stone-700 text-sm"
+          />
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <label htmlFor="login-password" className="text-xs font-ui font-bold text-stone-400 uppercase tracking-widest">Password</label>
+          <input
+            id="login-password"
+            type="password"
+            autoComplete={mode === 'signin' ? 'current-password' : 'new-password'}
+            required
+            minLength={mode === 'register' ? 8 : undefined}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full bg-white/50 border-b-2 border-stone-200 focus:border-primary px-3 py-2 rounded-t-lg outline-none font-sans text-stone-700 text-sm"
+          />
+          {mode === 'register' && <span className="text-[11px] font-sans text-stone-400">At least 8 characters.</span>}
+        </div>
+
+        {error && <p className="text-sm font-sans text-red-600">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full py-3 bg-gradient-to-r from-primary to-primary-dark text-white rounded-xl shadow-md font-ui font-bold text-xs tracking-widest uppercase disabled:opacity-50"
+        >
+          {isSubmitting ? 'One moment...' : mode === 'signin' ? 'Sign In' : 'Create Account'}
+        </button>
+
+        <button type="button" onClick={switchMode} className="text-xs font-ui font-bold uppercase tracking-widest text-stone-500 hover:text-primary">
+          {mode === 'signin' ? 'New here? Create an account' : 'Already have an account? Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LoginScreen;
@@ -1,37 +1,107 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { Coordinates, JournalEntry, Category, DateRange } from '../types';
+import { Coordinates, JournalEntry, Category, DateRange, Trip, RouteMode, SearchResult } from '../types';
+import { groupByDay, sortChronologically, toDayKey, getDayColor } from '../services/geo';
+import { clusterEntries, MarkerCluster } from '../services/clustering';
+import { ApiService } from '../services/api';
+import { normalizeBbox } from '../services/entryQuery';
+import { matchRanges } from '../shared/search.mjs';
 
 interface MapInterfaceProps {
   entries: JournalEntry[];
+  activeTrip?: Trip | null;
   onMapClick: (coords: Coordinates) => void;
   selectedEntryId?: string;
   onEntrySelect: (id: string) => void;
+  onEntryMove?: (id: string, coords: Coordinates) => Promise<boolean>; // Resolves false when the entry kept its old position
   tempMarker?: Coordinates | null;
   dateRange: DateRange;
   onDateRangeChange: (range: DateRange) => void;
+  hasHiddenEntries?: boolean;
+  isViewportCapped?: boolean; // The area holds more traces than the map loaded
+  viewportLimit?: number;
+  routeMode?: RouteMode;
+  onRouteModeChange?: (mode: RouteMode) => void;
+  onSearchEntries?: (query: string) => Promise<SearchResult[]>;
+  onViewportChange?: (bbox: [number, number, number, number]) => void;
+  focusRequest?: Coordinates | null; // Fly here; pass a new object to fly again
 }
 
+type SearchMode = 'places' | 'journal';
+
+// Marker icons are HTML strings; photo URLs come from the journal and must not break out of the attribute
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Wraps every occurrence of the search terms in <mark>. Terms are normalized,
+// so matching happens on the normalized text and is mapped back ("cafe" marks "Café")
+const highlight = (text: string, terms: string[]) => {
+  const ranges = matchRanges(text, terms);
+  if (ranges.length === 0) return text;
+  const parts: React.ReactNode[] = [];
+  let at = 0;
+  ranges.forEach(([start, end], i) => {
+    if (start > at) parts.push(text.slice(at, start));
+    parts.push(<mark key={i} className="bg-pastel-gold/60 text-stone-800 rounded px-0.5">{text.slice(start, end)}</mark>);
+    at = end;
+  });
+  if (at < text.length) parts.push(text.slice(at));
+  return parts;
+};
+
+// How long the replay spends travelling between two consecutive stops
+const REPLAY_LEG_MS = 900;
+
+// Beyond this zoom every pin is drawn on its own
+const CLUSTER_MAX_ZOOM = 16;
+
+const CATEGORY_COLORS: Record<Category, string> = {
+  [Category.Food]: '#C2847A',
+  [Category.Shopping]: '#B8963E',
+  [Category.Culture]: '#8E6C8A',
+  [Category.Nature]: '#6B8F71',
+  [Category.Other]: '#a8a29e'
+};
+
 // Helper to get global Leaflet object
 const getL = () => (window as any).L;
 
 const MapInterface: React.FC<MapInterfaceProps> = ({ 
   entries, 
+  activeTrip,
   onMapClick, 
   selectedEntryId,
   onEntrySelect,
+  onEntryMove,
   tempMarker,
   dateRange,
-  onDateRangeChange
+  onDateRangeChange,
+  hasHiddenEntries = false,
+  isViewportCapped = false,
+  viewportLimit,
+  routeMode = 'off',
+  onRouteModeChange,
+  onSearchEntries,
+  onViewportChange,
+  focusRequest
 }) => {
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<any>(null);
-  const markersRef = useRef<{ [id: string]: any }>({});
+  const markersRef = useRef<{ [key: string]: { marker: any; signature: string } }>({});
+  const callbacksRef = useRef({ onEntrySelect, onEntryMove, onViewportChange });
+  callbacksRef.current = { onEntrySelect, onEntryMove, onViewportChange };
   const tempMarkerRef = useRef<any>(null);
+  const routeLayerRef = useRef<any>(null);
+  const replayLayerRef = useRef<any>(null);
+  const replayFrameRef = useRef<number | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [viewportVersion, setViewportVersion] = useState(0);
 
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<any[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [hasSearched, setHasSearched] = useState(false);
+  const [searchMode, setSearchMode] = useState<SearchMode>('places');
+  const [entryResults, setEntryResults] = useState<SearchResult[]>([]);
 
   // Helper to get icon based on category
   const getCategoryIcon = (cat: Category) => {
@@ -67,49 +137,258 @@ const MapInterface: React.FC<MapInterfaceProps> = ({
         onMapClick({ lat: e.latlng.lat, lng: e.latlng.lng });
       });
 
+      // Re-render markers for the new viewport after every pan or zoom
+      map.on('moveend', () => setViewportVersion(v => v + 1));
+
       mapInstanceRef.current = map;
     }
   }, []);
 
-  // Sync Entries (Markers)
+  // Tell the parent what is on screen so it can fetch the traces there
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+    const bounds = map.getBounds();
+    callbacksRef.current.onViewportChange?.(normalizeBbox(bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()));
+  }, [viewportVersion]);
+
+  const buildEntryIcon = (entry: JournalEntry, isSelected: boolean) => {
+    const L = getL();
+    const iconHtml = `
+      <div class="relative flex flex-col items-center transition-transform duration-300 group ${isSelected ? 'scale-125 z-50' : 'hover:scale-110 z-10'}">
+         <div class="w-10 h-10 rounded-full rounded-br-none -rotate-45 shadow-md border-2 flex items-center justify-center 
+              ${isSelected ? 'bg-primary border-white' : 'bg-white border-primary'}">
+            ${entry.photos.length > 0
+              ? `<img src="${escapeHtml(ApiService.thumbnailUrl(entry.photos[0].url) ?? '')}" alt="" class="rotate-45 w-8 h-8 rounded-full object-cover" />`
+              : `<div class="rotate-45 font-ui font-semibold text-lg ${isSelected ? 'text-white' : 'text-stone-700'}">
+              ${getCategoryIcon(entry.category)}
+            </div>`}
+         </div>
+         <div class="absolute -bottom-2 w-4 h-1 bg-stone-500/20 rounded-full blur-[1px]"></div>
+      </div>
+    `;
+    return L.divIcon({
+      html: iconHtml,
+      className: 'custom-div-icon',
+      iconSize: [40, 50],
+      iconAnchor: [20, 40] 
+    });
+  };
+
+  // Cluster badge: a ring split by category share, with the most common category icons inside
+  const buildClusterIcon = (cluster: MarkerCluster) => {
+    const L = getL();
+    const total = cluster.entries.length;
+    const size = total < 10 ? 44 : total < 100 ? 52 : 60;
+    const counts = (Object.entries(cluster.categoryCounts) as [Category, number][]).sort((a, b) => b[1] - a[1]);
+    let acc = 0;
+    const stops = counts.map(([cat, n]) => {
+      const from = acc;
+      acc += (n / total) * 360;
+      return `${CATEGORY_COLORS[cat]} ${from}deg ${acc}deg`;
+    }).join(', ');
+    const icons = counts.slice(0, 3).map(([cat]) => getCategoryIcon(cat)).join('');
+    const iconHtml = `
+      <div class="relative rounded-full shadow-md hover:scale-110" style="width:${size}px;height:${size}px;background:conic-gradient(${stops})">
+        <div class="absolute inset-1 rounded-full bg-white/95 flex flex-col items-center justify-center">
+          <span class="font-serif italic font-semibold text-stone-700 text-base leading-none">${total}</span>
+          <span class="text-[9px] leading-none mt-0.5">${icons}</span>
+        </div>
+      </div>
+    `;
+    return L.divIcon({
+      html: iconHtml,
+      className: 'custom-div-icon',
+      iconSize: [size, size],
+      iconAnchor: [size / 2, size / 2]
+    });
+  };
+
+  // Sync Entries (Markers) — only what is in view, clustered by zoom, diffed against what is already on the map
   useEffect(() => {
     const L = getL();
     const map = mapInstanceRef.current;
     if (!L || !map) return;
 
-    Object.values(markersRef.current).forEach((marker: any) => map.removeLayer(marker));
-    markersRef.current = {};
+    const zoom = map.getZoom();
+    const viewBounds = map.getBounds().pad(0.25);
+    const inView = entries.filter(e => e.id === selectedEntryId || viewBounds.contains([e.latitude, e.longitude]));
 
-    entries.forEach(entry => {
+    const desired: { key: string; signature: string; create: () => any }[] = [];
+    const addEntryMarker = (entry: JournalEntry) => {
       const isSelected = entry.id === selectedEntryId;
-      const iconHtml = `
-        <div class="relative flex flex-col items-center transition-transform duration-300 group ${isSelected ? 'scale-125 z-50' : 'hover:scale-110 z-10'}">
-           <div class="w-10 h-10 rounded-full rounded-br-none -rotate-45 shadow-md border-2 flex items-center justify-center 
-                ${isSelected ? 'bg-primary border-white' : 'bg-white border-primary'}">
-              <div class="rotate-45 font-ui font-semibold text-lg ${isSelected ? 'text-white' : 'text-stone-700'}">
-                ${getCategoryIcon(entry.category)}
-              </div>
-           </div>
-           <div class="absolute -bottom-2 w-4 h-1 bg-stone-500/20 rounded-full blur-[1px]"></div>
-        </div>
-      `;
-      const icon = L.divIcon({
-        html: iconHtml,
-        className: 'custom-div-icon',
-        iconSize: [40, 50],
-        iconAnchor: [20, 40] 
+      const draggable = isSelected && !!onEntryMove;
+      desired.push({
+        key: `entry:${entry.id}`,
+        signature: `${entry.latitude},${entry.longitude},${entry.category},${entry.photos[0]?.url},${isSelected},${draggable}`,
+        create: () =>
+          // Only the selected pin can be dragged, so panning the map never moves a memory by accident
+          L.marker([entry.latitude, entry.longitude], { icon: buildEntryIcon(entry, isSelected), draggable, zIndexOffset: isSelected ? 1000 : 0 })
+            .on('click', (e: any) => {
+              L.DomEvent.stopPropagation(e);
+              callbacksRef.current.onEntrySelect(entry.id);
+            })
+            .on('dragend', async (e: any) => {
+              const marker = e.target;
+              const { lat, lng } = marker.getLatLng();
+              const moved = await callbacksRef.current.onEntryMove?.(entry.id, { lat, lng });
+              // A failed move leaves the entry where it was, so the pin goes back there too
+              if (moved === false) marker.setLatLng([entry.latitude, entry.longitude]);
+            })
       });
+    };
+
+    // The selected entry always stays a pin of its own
+    const clusterable = inView.filter(e => e.id !== selectedEntryId);
+    inView.filter(e => e.id === selectedEntryId).forEach(addEntryMarker);
 
-      const marker = L.marker([entry.latitude, entry.longitude], { icon })
-        .addTo(map)
-        .on('click', (e: any) => {
-          L.DomEvent.stopPropagation(e);
-          onEntrySelect(entry.id);
+    if (zoom > CLUSTER_MAX_ZOOM) {
+      clusterable.forEach(addEntryMarker);
+    } else {
+      const clusters = clusterEntries(clusterable, zoom, (lat, lng, z) => map.project([lat, lng], z));
+      clusters.forEach(cluster => {
+        if (cluster.entries.length === 1) return addEntryMarker(cluster.entries[0]);
+        desired.push({
+          key: `cluster:${cluster.key}`,
+          signature: `${cluster.latitude},${cluster.longitude},${JSON.stringify(cluster.categoryCounts)}`,
+          create: () =>
+            L.marker([cluster.latitude, cluster.longitude], { icon: buildClusterIcon(cluster) })
+              .on('click', (e: any) => {
+                L.DomEvent.stopPropagation(e);
+                const [[south, west], [north, east]] = cluster.bounds;
+                if (south === north && west === east) {
+                  map.setView([south, west], CLUSTER_MAX_ZOOM + 1);
+                } else {
+                  map.fitBounds(cluster.bounds, { padding: [60, 60] });
+                }
+              })
         });
+      });
+    }
 
-      markersRef.current[entry.id] = marker;
+    const next: typeof markersRef.current = {};
+    desired.forEach(item => {
+      const existing = markersRef.current[item.key];
+      if (existing && existing.signature === item.signature) {
+        next[item.key] = existing;
+        return;
+      }
+      if (existing) map.removeLayer(existing.marker);
+      next[item.key] = { marker: item.create().addTo(map), signature: item.signature };
+    });
+    Object.keys(markersRef.current).forEach(key => {
+      if (!next[key]) map.removeLayer(markersRef.current[key].marker);
     });
-  }, [entries, selectedEntryId]);
+    markersRef.current = next;
+  }, [entries, selectedEntryId, viewportVersion]);
+
+  // Fly to a trace picked outside the map, e.g. from a story
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || !focusRequest) return;
+    map.invalidateSize();
+    map.flyTo([focusRequest.lat, focusRequest.lng], Math.max(map.getZoom(), CLUSTER_MAX_ZOOM + 1), { duration: 1.5 });
+  }, [focusRequest]);
+
+  // Sync Route Layer
+  useEffect(() => {
+    const L = getL();
+    const map = mapInstanceRef.current;
+    if (!L || !map) return;
+
+    if (routeLayerRef.current) {
+      map.removeLayer(routeLayerRef.current);
+      routeLayerRef.current = null;
+    }
+    if (routeMode === 'off' || entries.length < 2) return;
+
+    const layer = L.layerGroup();
+    const days = groupByDay(entries);
+    days.forEach((group, i) => {
+      const points = group.entries.map(e => [e.latitude, e.longitude]);
+      if (points.length > 1) {
+        L.polyline(points, { color: getDayColor(i), weight: 3, opacity: 0.85, lineCap: 'round' }).addTo(layer);
+      }
+      // Overnight hops between days are drawn fainter so each day still reads on its own
+      if (routeMode === 'trip' && i > 0) {
+        const prev = days[i - 1].entries[days[i - 1].entries.length - 1];
+        L.polyline([[prev.latitude, prev.longitude], points[0]], {
+          color: getDayColor(i), weight: 2, opacity: 0.5, dashArray: '4 8'
+        }).addTo(layer);
+      }
+    });
+    layer.addTo(map);
+    routeLayerRef.current = layer;
+  }, [entries, routeMode]);
+
+  const stopReplay = () => {
+    const map = mapInstanceRef.current;
+    if (replayFrameRef.current !== null) cancelAnimationFrame(replayFrameRef.current);
+    replayFrameRef.current = null;
+    if (map && replayLayerRef.current) map.removeLayer(replayLayerRef.current);
+    replayLayerRef.current = null;
+    setIsReplaying(false);
+  };
+
+  useEffect(() => stopReplay, []);
+  useEffect(() => { if (routeMode === 'off') stopReplay(); }, [routeMode]);
+
+  const handleReplay = () => {
+    const L = getL();
+    const map = mapInstanceRef.current;
+    if (!L || !map) return;
+    if (isReplaying) return stopReplay();
+
+    const ordered = sortChronologically(entries);
+    if (ordered.length < 2) return;
+    const dayIndex: { [day: string]: number } = {};
+    groupByDay(ordered).forEach((g, i) => { dayIndex[g.day] = i; });
+    const colorOf = (entry: JournalEntry) => getDayColor(dayIndex[toDayKey(entry.timestamp)]);
+
+    const layer = L.layerGroup().addTo(map);
+    const traveller = L.circleMarker([ordered[0].latitude, ordered[0].longitude], {
+      radius: 7, color: '#fff', weight: 2, fillColor: colorOf(ordered[0]), fillOpacity: 1
+    }).addTo(layer);
+    let currentLeg = -1;
+    let legLine: any = null;
+
+    replayLayerRef.current = layer;
+    setIsReplaying(true);
+    map.fitBounds(L.latLngBounds(ordered.map(e => [e.latitude, e.longitude])), { padding: [60, 60], maxZoom: 15 });
+
+    const start = performance.now();
+    const step = (now: number) => {
+      const progress = (now - start) / REPLAY_LEG_MS;
+      const leg = Math.floor(progress);
+      if (leg >= ordered.length - 1) {
+        replayFrameRef.current = null;
+        setTimeout(() => { if (replayLayerRef.current === layer) stopReplay(); }, 1500);
+        return;
+      }
+      const from = ordered[leg];
+      const to = ordered[leg + 1];
+      if (leg !== currentLeg) {
+        currentLeg = leg;
+        legLine = L.polyline([[from.latitude, from.longitude]], { color: colorOf(to), weight: 4, opacity: 0.9 }).addTo(layer);
+        traveller.setStyle({ fillColor: colorOf(to) });
+      }
+      const t = progress - leg;
+      const pos = [from.latitude + (to.latitude - from.latitude) * t, from.longitude + (to.longitude - from.longitude) * t];
+      legLine.setLatLngs([[from.latitude, from.longitude], pos]);
+      traveller.setLatLng(pos);
+      replayFrameRef.current = requestAnimationFrame(step);
+    };
+    replayFrameRef.current = requestAnimationFrame(step);
+  };
+
+  // Frame the whole trip when switching to it
+  useEffect(() => {
+    const L = getL();
+    const map = mapInstanceRef.current;
+    if (!L || !map || !activeTrip || entries.length === 0) return;
+    const bounds = L.latLngBounds(entries.map(e => [e.latitude, e.longitude]));
+    map.fitBounds(bounds, { padding: [60, 60], maxZoom: 15 });
+  }, [activeTrip?.id]);
 
   // Sync Temp Marker
   useEffect(() => {
@@ -140,6 +419,8 @@ const MapInterface: React.FC<MapInterfaceProps> = ({
         iconAnchor: [20, 40]
       });
       tempMarkerRef.current = L.marker([tempMarker.lat, tempMarker.lng], { icon }).addTo(map);
+      // A pin placed from photo GPS can land outside the current view
+      if (!map.getBounds().contains([tempMarker.lat, tempMarker.lng])) map.panTo([tempMarker.lat, tempMarker.lng]);
     }
   }, [tempMarker]);
 
@@ -149,6 +430,14 @@ const MapInterface: React.FC<MapInterfaceProps> = ({
 
     setIsSearching(true);
     setHasSearched(true);
+    if (searchMode === 'journal' && onSearchEntries) {
+      try {
+        setEntryResults(await onSearchEntries(searchQuery));
+      } finally {
+        setIsSearching(false);
+      }
+      return;
+    }
     try {
       // 关键修复：添加 email 参数以符合 Nominatim 的 Usage Policy
       // 这样 API 提供方就能识别出这是一个来自 Wanderlust Traces 应用的合法请求
@@ -189,6 +478,31 @@ const MapInterface: React.FC<MapInterfaceProps> = ({
     setHasSearched(false);
   };
 
+  const handleEntryResultSelect = (e: React.MouseEvent, result: SearchResult) => {
+    const L = getL();
+    L.DomEvent.stopPropagation(e);
+
+    const map = mapInstanceRef.current;
+    if (map) {
+      map.invalidateSize();
+      map.flyTo([result.entry.latitude, result.entry.longitude], Math.max(map.getZoom(), CLUSTER_MAX_ZOOM + 1), { duration: 1.5 });
+    }
+    onEntrySelect(result.entry.id);
+
+    setEntryResults([]);
+    setSearchQuery('');
+    setHasSearched(false);
+  };
+
+  const toggleSearchMode = () => {
+    setSearchMode(mode => mode === 'places' ? 'journal' : 'places');
+    setSearchResults([]);
+    setEntryResults([]);
+    setHasSearched(false);
+  };
+
+  const activeResultCount = searchMode === 'journal' ? entryResults.length : searchResults.length;
+
   return (
     <div className="relative w-full h-full rounded-[2rem] overflow-hidden shadow-sm bg-white border border-white/50">
       <div 
@@ -207,12 +521,23 @@ const MapInterface: React.FC<MapInterfaceProps> = ({
                 setSearchQuery(e.target.value);
                 if (hasSearched) setHasSearched(false);
               }}
-              placeholder="Search places..."
+              placeholder={searchMode === 'journal' ? "Search your journal..." : "Search places..."}
               className="w-full pl-10 pr-12 py-3 border-none outline-none text-stone-700 font-sans text-sm bg-white/95 backdrop-blur-md focus:ring-2 focus:ring-primary/20"
             />
-            <div className="absolute left-3.5 top-3 text-stone-400">
-              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
-            </div>
+            {onSearchEntries ? (
+              <button
+                type="button"
+                onClick={toggleSearchMode}
+                title={searchMode === 'journal' ? 'Searching your journal — switch to places' : 'Searching places — switch to your journal'}
+                className="absolute left-2.5 top-2 w-7 h-7 rounded-full flex items-center justify-center text-base hover:bg-pastel-gold/40"
+              >
+                {searchMode === 'journal' ? '📖' : '🌍'}
+              </button>
+            ) : (
+              <div className="absolute left-3.5 top-3 text-stone-400">
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
+              </div>
+            )}
             
             <button 
               type="submit" 
@@ -230,9 +555,23 @@ const MapInterface: React.FC<MapInterfaceProps> = ({
             </button>
           </form>
 
-          {(searchResults.length > 0 || (hasSearched && !isSearching)) && (
+          {(activeResultCount > 0 || (hasSearched && !isSearching)) && (
             <div className="absolute top-full left-0 w-full mt-2 bg-white/95 backdrop-blur rounded-2xl shadow-xl overflow-hidden max-h-60 overflow-y-auto border border-stone-100 z-[1100]">
-              {searchResults.length > 0 ? (
+              {searchMode === 'journal' && entryResults.length > 0 ? (
+                entryResults.map(result => (
+                  <div 
+                    key={result.entry.id}
+                    onClick={(e) => handleEntryResultSelect(e, result)}
+                    className="px-4 py-3 hover:bg-pastel-gold/30 cursor-pointer border-b border-stone-50 last:border-0 text-sm text-stone-700 font-sans"
+                  >
+                    <div className="flex justify-between gap-2">
+                      <span className="font-medium truncate">{highlight(result.entry.placeName || result.entry.dateDisplay.split(',')[0], result.terms)}</span>
+                      <span className="text-[10px] font-ui uppercase tracking-wider text-stone-400 flex-shrink-0">{highlight(result.entry.category, result.terms)}</span>
+                    </div>
+                    <div className="text-xs text-stone-500 line-clamp-2">{highlight(result.snippet, result.terms)}</div>
+                  </div>
+                ))
+              ) : searchMode === 'places' && searchResults.length > 0 ? (
                 searchResults.map((result, idx) => (
                   <div 
                     key={idx}
@@ -252,6 +591,13 @@ const MapInterface: React.FC<MapInterfaceProps> = ({
           )}
         </div>
 
+        {activeTrip ? (
+        <div className="pointer-events-auto bg-white/90 backdrop-blur-md shadow-md rounded-full px-4 py-2 flex items-center gap-2 border border-white/50 h-[46px]">
+            <div className="w-3 h-3 rounded-full" style={{ backgroundColor: activeTrip.color }}></div>
+            <span className="text-stone-700 font-serif italic text-base">{activeTrip.name}</span>
+            <span className="text-stone-400 text-xs uppercase font-bold tracking-wider">{activeTrip.startDate} → {activeTrip.endDate}</span>
+        </div>
+        ) : (
         <div className="pointer-events-auto bg-white/90 backdrop-blur-md shadow-md rounded-full px-4 py-2 flex items-center gap-2 border border-white/50 h-[46px]">
             <div className="flex items-center gap-2">
                 <span className="text-stone-400 text-xs uppercase font-bold tracking-wider">From</span>
@@ -272,14 +618,61 @@ const MapInterface: React.FC<MapInterfaceProps> = ({
                     className="bg-transparent border-none text-stone-700 font-sans text-sm focus:ring-0 p-0 w-28 cursor-pointer"
                 />
             </div>
+            {(dateRange.start || dateRange.end) && (
+              <button
+                onClick={() => onDateRangeChange({ start: '', end: '' })}
+                className="ml-1 text-stone-400 hover:text-primary"
+                title="Show all dates"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+              </button>
+            )}
         </div>
+        )}
       </div>
 
+      {onRouteModeChange && entries.length > 1 && (
+        <div className="absolute bottom-6 left-6 z-[1000] pointer-events-auto bg-white/90 backdrop-blur-md shadow-md rounded-full p-1 flex items-center gap-1 border border-white/50">
+          {([['off', 'Pins'], ['day', 'By Day'], ['trip', 'Whole Route']] as [RouteMode, string][]).map(([mode, label]) => (
+            <button
+              key={mode}
+              onClick={() => onRouteModeChange(mode)}
+              className={`px-3 py-1.5 rounded-full text-[10px] font-ui font-bold uppercase tracking-wider transition-all ${routeMode === mode ? 'bg-primary text-white shadow-sm' : 'text-stone-500 hover:bg-pastel-gold/30'}`}
+            >
+              {label}
+            </button>
+          ))}
+          {routeMode !== 'off' && (
+            <button
+              onClick={handleReplay}
+              className="px-3 py-1.5 rounded-full text-[10px] font-ui font-bold uppercase tracking-wider text-primary-dark hover:bg-pastel-gold/30"
+            >
+              {isReplaying ? '■ Stop' : '▶ Replay'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {isViewportCapped && (
+        <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-[1000] pointer-events-none bg-white/90 backdrop-blur-md shadow-md rounded-full px-4 py-2 border border-white/50 text-[10px] font-ui font-bold uppercase tracking-wider text-stone-500">
+          Showing the {viewportLimit} newest traces here · zoom in for more
+        </div>
+      )}
+
       {entries.length === 0 && !tempMarker && (
         <div className="absolute bottom-8 left-8 z-[1000] pointer-events-none">
           <div className="bg-white/90 backdrop-blur-md px-6 py-4 rounded-xl shadow-lg border-l-4 border-primary max-w-xs">
-             <h3 className="text-primary-dark font-serif italic font-semibold text-xl mb-1">Begin your story</h3>
-             <p className="text-stone-600 text-sm font-sans leading-relaxed">Search for a place or simply click on the map to drop a pin.</p>
+             {hasHiddenEntries ? (
+               <>
+                 <h3 className="text-primary-dark font-serif italic font-semibold text-xl mb-1">Nothing here</h3>
+                 <p className="text-stone-600 text-sm font-sans leading-relaxed">No traces match the current filters.</p>
+               </>
+             ) : (
+               <>
+                 <h3 className="text-primary-dark font-serif italic font-semibold text-xl mb-1">Begin your story</h3>
+                 <p className="text-stone-600 text-sm font-sans leading-relaxed">Search for a place or simply click on the map to drop a pin.</p>
+               </>
+             )}
           </div>
         </div>
       )}
@@ -0,0 +1,178 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { MediaItem } from '../types';
+import { ApiService } from '../services/api';
+
+interface PhotoGalleryProps {
+  photos: MediaItem[];
+}
+
+// Horizontal distance a touch has to travel before the lightbox counts it as a swipe
+const SWIPE_THRESHOLD_PX = 40;
+
+const AiBadge = () => (
+  <span className="absolute top-2 left-2 px-2 py-0.5 bg-white/80 text-primary-dark rounded-full text-[9px] font-ui font-bold uppercase tracking-widest shadow-sm">
+    🎨 AI
+  </span>
+);
+
+const PhotoGallery: React.FC<PhotoGalleryProps> = ({ photos }) => {
+  const [current, setCurrent] = useState(0);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const stripRef = useRef<HTMLDivElement>(null);
+  const touchStartX = useRef<number | null>(null);
+
+  // A different entry brings a different set of photos
+  const photoKey = photos.map(p => p.url).join('|');
+  useEffect(() => {
+    setCurrent(0);
+    setLightboxIndex(null);
+    stripRef.current?.scrollTo({ left: 0 });
+  }, [photoKey]);
+
+  const scrollTo = (index: number) => {
+    const strip = stripRef.current;
+    if (!strip) return;
+    strip.scrollTo({ left: index * strip.clientWidth, behavior: 'smooth' });
+  };
+
+  const handleScroll = () => {
+    const strip = stripRef.current;
+    if (!strip || strip.clientWidth === 0) return;
+    setCurrent(Math.round(strip.scrollLeft / strip.clientWidth));
+  };
+
+  const step = (delta: number) => {
+    setLightboxIndex(prev => prev === null ? null : (prev + delta + photos.length) % photos.length);
+  };
+
+  useEffect(() => {
+    if (lightboxIndex === null) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setLightboxIndex(null);
+      else if (e.key === 'ArrowRight') step(1);
+      else if (e.key === 'ArrowLeft') step(-1);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [lightboxIndex, photos.length]);
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    if (touchStartX.current === null) return;
+    const dx = e.changedTouches[0].clientX - touchStartX.current;
+    touchStartX.current = null;
+    if (Math.abs(dx) >= SWIPE_THRESHOLD_PX) step(dx < 0 ? 1 : -1);
+  };
+
+  if (photos.length === 0) return null;
+  const lightboxPhoto = lightboxIndex !== null ? photos[lightboxIndex] : null;
+
+  return (
+    <>
+      <div className="mt-auto p-2 bg-white shadow-sm border border-stone-100 rounded-lg -rotate-1 transform hover:rotate-0 transition-transform duration-300">
+        <div className="relative group">
+          <div
+            ref={stripRef}
+            onScroll={handleScroll}
+            className="flex overflow-x-auto snap-x snap-mandatory rounded [scrollbar-width:none]"
+          >
+            {photos.map((photo, i) => (
+              <button
+                key={`${photo.url}-${i}`}
+                type="button"
+                onClick={() => setLightboxIndex(i)}
+                className="relative flex-shrink-0 w-full aspect-square snap-center cursor-zoom-in"
+              >
+                <img src={ApiService.mediaUrl(photo.url)} alt={photo.caption || 'Memory'} loading="lazy" className="w-full h-full object-cover" />
+                {photo.aiGenerated && <AiBadge />}
+              </button>
+            ))}
+          </div>
+          {photos.length > 1 && (
+            <>
+              <button
+                type="button"
+                onClick={() => scrollTo(Math.max(0, current - 1))}
+                disabled={current === 0}
+                className="absolute left-2 top-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white/80 text-stone-600 shadow opacity-0 group-hover:opacity-100 disabled:hidden transition-opacity"
+              >
+                ‹
+              </button>
+              <button
+                type="button"
+                onClick={() => scrollTo(Math.min(photos.length - 1, current + 1))}
+                disabled={current === photos.length - 1}
+                className="absolute right-2 top-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white/80 text-stone-600 shadow opacity-0 group-hover:opacity-100 disabled:hidden transition-opacity"
+              >
+                ›
+              </button>
+            </>
+          )}
+        </div>
+        {photos[current]?.caption && (
+          <p className="mt-2 px-1 text-sm font-serif italic text-stone-600 leading-snug">{photos[current].caption}</p>
+        )}
+        {photos.length > 1 && (
+          <div className="flex justify-center gap-1.5 mt-2">
+            {photos.map((_, i) => (
+              <button
+                key={i}
+                type="button"
+                onClick={() => scrollTo(i)}
+                className={`w-1.5 h-1.5 rounded-full transition-colors ${i === current ? 'bg-primary' : 'bg-stone-300'}`}
+                aria-label={`Photo ${i + 1}`}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {lightboxPhoto && lightboxIndex !== null && (
+        <div
+          className="fixed inset-0 z-[7000] bg-stone-900/90 flex flex-col items-center justify-center p-6 animate-fadeIn"
+          onClick={() => setLightboxIndex(null)}
+          onTouchStart={(e) => { touchStartX.current = e.touches[0].clientX; }}
+          onTouchEnd={handleTouchEnd}
+        >
+          <div className="relative max-w-full max-h-[80vh]" onClick={(e) => e.stopPropagation()}>
+            <img src={ApiService.mediaUrl(lightboxPhoto.url)} alt={lightboxPhoto.caption || 'Memory'} className="max-w-full max-h-[80vh] object-contain rounded-lg shadow-2xl" />
+            {lightboxPhoto.aiGenerated && <AiBadge />}
+          </div>
+          <div className="mt-4 text-center" onClick={(e) => e.stopPropagation()}>
+            {lightboxPhoto.caption && <p className="text-lg font-serif italic text-white/90">{lightboxPhoto.caption}</p>}
+            {photos.length > 1 && (
+              <p className="text-[10px] font-ui font-bold uppercase tracking-widest text-white/50 mt-1">{lightboxIndex + 1} / {photos.length}</p>
+            )}
+          </div>
+          {photos.length > 1 && (
+            <>
+              <button
+                type="button"
+                onClick={(e) => { e.stopPropagation(); step(-1); }}
+                className="absolute left-4 top-1/2 -translate-y-1/2 w-12 h-12 rounded-full bg-white/10 hover:bg-white/20 text-white text-2xl"
+              >
+                ‹
+              </button>
+              <button
+                type="button"
+                onClick={(e) => { e.stopPropagation(); step(1); }}
+                className="absolute right-4 top-1/2 -translate-y-1/2 w-12 h-12 rounded-full bg-white/10 hover:bg-white/20 text-white text-2xl"
+              >
+                ›
+              </button>
+            </>
+          )}
+          <button
+            type="button"
+            onClick={() => setLightboxIndex(null)}
+            className="absolute top-4 right-4 w-10 h-10 rounded-full bg-white/10 hover:bg-white/20 text-white"
+            aria-label="Close"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default PhotoGallery;
@@ -0,0 +1,163 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Category, Trip } from '../types';
+import { ImportedPhoto, PhotoDraft, groupPhotoDrafts, nearestPlacedDraft } from '../services/photoImport';
+
+interface PhotoImportReviewProps {
+  photos: ImportedPhoto[];
+  trips: Trip[];
+  defaultTripId: string | null;
+  // Receives only the drafts left selected
+  onSave: (drafts: PhotoDraft[], tripId: string | null) => Promise<void>;
+  onCancel: () => void;
+}
+
+const PhotoImportReview: React.FC<PhotoImportReviewProps> = ({ photos, trips, defaultTripId, onSave, onCancel }) => {
+  const [groupNearby, setGroupNearby] = useState(true);
+  const [drafts, setDrafts] = useState<PhotoDraft[]>(() => groupPhotoDrafts(photos, true));
+  const [tripId, setTripId] = useState<string | null>(defaultTripId);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const previews = useMemo(() => new Map(photos.map(p => [p.file, URL.createObjectURL(p.file)])), [photos]);
+  useEffect(() => () => previews.forEach(url => URL.revokeObjectURL(url)), [previews]);
+
+  // Regrouping keeps notes, categories and borrowed locations for drafts that still start with the same photo
+  const handleGroupingChange = (next: boolean) => {
+    setGroupNearby(next);
+    setDrafts(prev => {
+      const edits = new Map(prev.map(d => [d.id, d]));
+      return groupPhotoDrafts(photos, next).map(d => {
+        const old = edits.get(d.id);
+        if (!old) return d;
+        const latitude = d.latitude ?? old.latitude;
+        const longitude = d.longitude ?? old.longitude;
+        return { ...d, latitude, longitude, note: old.note, category: old.category, selected: old.selected && latitude !== null };
+      });
+    });
+  };
+
+  const updateDraft = (id: string, changes: Partial<PhotoDraft>) => {
+    setDrafts(prev => prev.map(d => d.id === id ? { ...d, ...changes } : d));
+  };
+
+  // Drafts without GPS can take the location of the placed draft shot closest in time
+  const renderBorrowLocation = (draft: PhotoDraft) => {
+    const nearest = nearestPlacedDraft(draft, drafts);
+    if (!nearest) return null;
+    return (
+      <button
+        type="button"
+        onClick={() => updateDraft(draft.id, { latitude: nearest.latitude, longitude: nearest.longitude, selected: true })}
+        className="px-2 py-0.5 rounded-full bg-white/60 hover:bg-white border border-stone-200 text-primary normal-case tracking-normal transition-colors"
+      >
+        Use location from {new Date(nearest.takenAt).toLocaleString([], { timeStyle: 'short' })}
+      </button>
+    );
+  };
+
+  const selected = drafts.filter(d => d.selected);
+  const unplaced = drafts.filter(d => d.latitude === null).length;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(selected, tripId);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[6000] bg-stone-800/30 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-pastel-sand/95 rounded-[2rem] p-8 shadow-2xl border border-white/60">
+        <h2 className="text-3xl font-serif italic text-stone-800 mb-1">Review imported photos</h2>
+        <p className="text-sm font-sans text-stone-500 mb-4">
+          {photos.length} photo{photos.length === 1 ? '' : 's'} became {drafts.length} draft{drafts.length === 1 ? '' : 's'}.
+          {unplaced > 0 && ` ${unplaced} had no GPS position; borrow the location of a nearby shot or log them from the map instead.`}
+        </p>
+
+        <div className="flex flex-wrap items-center gap-4 mb-4">
+          <label className="flex items-center gap-2 text-sm font-sans text-stone-600">
+            <input type="checkbox" checked={groupNearby} onChange={(e) => handleGroupingChange(e.target.checked)} className="accent-primary" />
+            Group nearby shots
+          </label>
+          {trips.length > 0 && (
+            <select
+              value={tripId ?? ''}
+              onChange={(e) => setTripId(e.target.value || null)}
+              className="bg-white/50 border-b-2 border-stone-200 focus:border-primary px-3 py-1 rounded-t-lg outline-none font-sans text-stone-700 text-sm"
+            >
+              <option value="">No trip</option>
+              {trips.map(trip => (
+                <option key={trip.id} value={trip.id}>{trip.name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto journal-scroll flex flex-col gap-3 pr-1">
+          {drafts.map(draft => (
+            <div key={draft.id} className={`flex gap-3 p-3 rounded-2xl border ${draft.selected ? 'bg-white/70 border-white' : 'bg-white/30 border-transparent opacity-60'}`}>
+              <input
+                type="checkbox"
+                checked={draft.selected}
+                disabled={draft.latitude === null}
+                onChange={(e) => updateDraft(draft.id, { selected: e.target.checked })}
+                className="mt-1 accent-primary"
+              />
+              <div className="flex flex-wrap gap-1 w-28 flex-shrink-0">
+                {draft.photos.slice(0, 4).map(photo => (
+                  <img key={photo.file.name} src={previews.get(photo.file)} alt="" className="w-[3.25rem] h-[3.25rem] object-cover rounded" />
+                ))}
+                {draft.photos.length > 4 && (
+                  <span className="text-[10px] font-ui font-bold text-stone-400">+{draft.photos.length - 4} more</span>
+                )}
+              </div>
+              <div className="flex-1 min-w-0 flex flex-col gap-2">
+                <div className="flex flex-wrap items-center gap-2 text-[10px] font-ui font-bold uppercase tracking-widest text-stone-400">
+                  <span>{new Date(draft.takenAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}</span>
+                  <span>·</span>
+                  <span>{draft.latitude !== null && draft.longitude !== null ? `${draft.latitude.toFixed(4)}, ${draft.longitude.toFixed(4)}` : 'No location'}</span>
+                  {draft.latitude === null && renderBorrowLocation(draft)}
+                </div>
+                <textarea
+                  value={draft.note}
+                  onChange={(e) => updateDraft(draft.id, { note: e.target.value })}
+                  placeholder="What happened here?"
+                  className="w-full h-14 p-2 bg-pastel-gold/20 border-none rounded-lg resize-none focus:ring-1 focus:ring-primary/30 text-stone-700 placeholder-stone-400 font-sans text-sm"
+                />
+                <div className="flex flex-wrap gap-1.5">
+                  {Object.values(Category).map(cat => (
+                    <button
+                      key={cat}
+                      type="button"
+                      onClick={() => updateDraft(draft.id, { category: cat })}
+                      className={`px-2.5 py-0.5 text-[10px] font-ui font-medium rounded-full border transition-all ${
+                        draft.category === cat ? 'bg-primary text-white border-primary shadow-sm' : 'bg-white/60 text-stone-500 border-stone-200'
+                      }`}
+                    >
+                      {cat}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-3 pt-4">
+          <button type="button" onClick={onCancel} disabled={isSaving} className="px-4 py-2 text-stone-500 text-xs font-ui font-bold uppercase tracking-wide">Cancel</button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving || selected.length === 0}
+            className="px-6 py-3 bg-gradient-to-r from-primary to-primary-dark text-white rounded-xl shadow-md font-ui font-bold text-xs tracking-widest uppercase disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : `Save ${selected.length} ${selected.length === 1 ? 'entry' : 'entries'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PhotoImportReview;
@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { DateRange, JournalEntry, Share, Trip } from '../types';
+import { applyFilter, EMPTY_FILTER } from '../services/filters';
+import { generateTravelSummary } from '../services/geminiService';
+import { ApiService } from '../services/api';
+
+interface ShareDialogProps {
+  entries: JournalEntry[];
+  trips: Trip[];
+  initialTripId: string | null;
+  initialRange: DateRange;
+  story: string | null; // The reflection already on screen, if it covers the same traces
+  onClose: () => void;
+}
+
+const describeScope = (share: Share, trips: Trip[]) => {
+  const trip = share.tripId ? trips.find(t => t.id === share.tripId)?.name : null;
+  const { start, end } = share.dateRange;
+  const range = start || end ? `${start || '…'} → ${end || '…'}` : null;
+  return [trip ?? (share.tripId ? 'Deleted trip' : 'All traces'), range, share.coarse ? 'approximate locations' : null]
+    .filter(Boolean)
+    .join(' · ');
+};
+
+const ShareDialog: React.FC<ShareDialogProps> = ({ entries, trips, initialTripId, initialRange, story, onClose }) => {
+  const [title, setTitle] = useState('');
+  const [tripId, setTripId] = useState<string | null>(initialTripId);
+  const [range, setRange] = useState<DateRange>(initialRange);
+  const [coarse, setCoarse] = useState(true);
+  const [includeStory, setIncludeStory] = useState(true);
+  const [shares, setShares] = useState<Share[] | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [failure, setFailure] = useState<string | null>(null);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    ApiService.getShares()
+      .then(list => setShares([...list].reverse()))
+      .catch(() => setFailure('Sharing needs a connection to the server.'));
+  }, []);
+
+  const trip = trips.find(t => t.id === tripId) || null;
+  const sharedEntries = applyFilter(entries, { ...EMPTY_FILTER, tripId, dateRange: range });
+  const defaultTitle = trip?.name ?? 'My Travels';
+  // Reuse the reflection on screen only when it was written for this exact selection
+  const canReuseStory = !!story && tripId === initialTripId && range.start === initialRange.start && range.end === initialRange.end;
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(ApiService.shareUrl(token));
+      setCopiedToken(token);
+    } catch {
+      prompt('Copy this link:', ApiService.shareUrl(token));
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setFailure(null);
+    try {
+      const shareStory = !includeStory ? null : canReuseStory ? story : await generateTravelSummary(sharedEntries);
+      const share = await ApiService.createShare({ title: title.trim() || defaultTitle, tripId, dateRange: range, coarse, story: shareStory });
+      setShares(prev => [share, ...(prev ?? [])]);
+      await copyLink(share.token);
+    } catch (e) {
+      setFailure(e instanceof Error ? e.message : "Couldn't create the link.");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (token: string) => {
+    if (!confirm("Revoke this link? Anyone who has it will no longer see the trip.")) return;
+    try {
+      await ApiService.revokeShare(token);
+      setShares(prev => (prev ?? []).filter(s => s.token !== token));
+    } catch (e) {
+      setFailure(e instanceof Error ? e.message : "Couldn't revoke the link.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[6000] bg-stone-800/30 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-lg max-h-[90vh] overflow-y-auto journal-scroll bg-pastel-sand/95 rounded-[2rem] p-8 shadow-2xl border border-white/60 flex flex-col gap-5">
+        <h2 className="text-3xl font-serif italic text-stone-800 border-b border-primary/20 pb-2">Share a Trip</h2>
+        <p className="text-xs font-sans text-stone-500 -mt-2">Anyone with the link sees a read-only map, story and log. They can't change anything.</p>
+
+        <div className="flex flex-col gap-1">
+          <label className="text-xs font-ui font-bold text-stone-400 uppercase tracking-widest">Title</label>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder={defaultTitle}
+            className="w-full bg-white/50 border-b-2 border-stone-200 focus:border-primary px-3 py-2 rounded-t-lg outline-none font-sans text-stone-700 text-sm"
+          />
+        </div>
+
+        {trips.length > 0 && (
+          <div className="flex flex-col gap-1">
+            <label className="text-xs font-ui font-bold text-stone-400 uppercase tracking-widest">Trip</label>
+            <select
+              value={tripId ?? ''}
+              onChange={(e) => setTripId(e.target.value || null)}
+              className="w-full bg-white/50 border-b-2 border-stone-200 focus:border-primary px-3 py-2 rounded-t-lg outline-none font-sans text-stone-700 text-sm"
+            >
+              <option value="">All traces</option>
+              {trips.filter(t => !t.id.startsWith('local-')).map(t => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="flex gap-4">
+          <div className="flex flex-col gap-1 flex-1">
+            <label className="text-xs font-ui font-bold text-stone-400 uppercase tracking-widest">From</label>
+            <input type="date" value={range.start} onChange={(e) => setRange(prev => ({ ...prev, start: e.target.value }))} className="bg-white/50 border-b-2 border-stone-200 focus:border-primary px-3 py-2 rounded-t-lg outline-none font-sans text-stone-700 text-sm" />
+          </div>
+          <div className="flex flex-col gap-1 flex-1">
+            <label className="text-xs font-ui font-bold text-stone-400 uppercase tracking-widest">To</label>
+            <input type="date" value={range.end} onChange={(e) => setRange(prev => ({ ...prev, end: e.target.value }))} className="bg-white/50 border-b-2 border-stone-200 focus:border-primary px-3 py-2 rounded-t-lg outline-none font-sans text-stone-700 text-sm" />
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <label className="flex items-center gap-2 text-sm font-sans text-stone-600">
+            <input type="checkbox" checked={coarse} onChange={(e) => setCoarse(e.target.checked)} className="accent-primary" />
+            Hide exact locations (show them to within about 1 km)
+          </label>
+          <label className="flex items-center gap-2 text-sm font-sans text-stone-600">
+            <input type="checkbox" checked={includeStory} onChange={(e) => setIncludeStory(e.target.checked)} className="accent-primary" />
+            {canReuseStory ? 'Include your travel story' : 'Include an AI-written reflection'}
+          </label>
+        </div>
+
+        <p className="text-[10px] font-ui font-bold uppercase tracking-widest text-stone-400">
+          {sharedEntries.length} {sharedEntries.length === 1 ? 'trace' : 'traces'} will be visible
+        </p>
+
+        {failure && <p className="text-sm font-sans text-red-600">{failure}</p>}
+
+        <div className="flex gap-3">
+          <button type="button" onClick={onClose} disabled={isCreating} className="px-4 py-2 text-stone-500 text-xs font-ui font-bold uppercase tracking-wide">Close</button>
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={isCreating || shares === null || sharedEntries.length === 0}
+            className="flex-1 py-3 bg-gradient-to-r from-primary to-primary-dark text-white rounded-xl shadow-md font-ui font-bold text-xs tracking-widest uppercase disabled:opacity-50"
+          >
+            {isCreating ? "Creating link..." : "Create & Copy Link"}
+          </button>
+        </div>
+
+        {shares && shares.length > 0 && (
+          <div className="flex flex-col gap-2 border-t border-primary/10 pt-4">
+            <h4 className="text-xs font-ui font-bold text-stone-400 uppercase tracking-widest">Active links</h4>
+            {shares.map(share => (
+              <div key={share.token} className="flex items-center gap-3 bg-white/60 rounded-xl px-4 py-3 border border-white/70">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-sans font-semibold text-stone-700 truncate">{share.title}</div>
+                  <div className="text-[11px] font-sans text-stone-400 truncate">{describeScope(share, trips)}</div>
+                </div>
+                <button onClick={() => copyLink(share.token)} className="text-[10px] font-ui font-bold uppercase tracking-widest text-primary hover:underline">
+                  {copiedToken === share.token ? 'Copied' : 'Copy'}
+                </button>
+                <button onClick={() => handleRevoke(share.token)} className="text-[10px] font-ui font-bold uppercase tracking-widest text-stone-400 hover:text-red-600">
+                  Revoke
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShareDialog;
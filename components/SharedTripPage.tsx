@@ -0,0 +1,189 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { JournalEntry, SharedTrip } from '../types';
+import { ApiService } from '../services/api';
+import { computeRouteStats, formatDistance, getDayColor, groupByDay } from '../services/geo';
+import PhotoGallery from './PhotoGallery';
+
+interface SharedTripPageProps {
+  token: string;
+}
+
+const getL = () => (window as any).L;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00`).toLocaleDateString([], { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+
+/**
+ * Read-only view behind a share link: map, story and the day-by-day log.
+ * Nothing here can change the journal.
+ */
+const SharedTripPage: React.FC<SharedTripPageProps> = ({ token }) => {
+  const [shared, setShared] = useState<SharedTrip | null>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'missing' | 'error'>('loading');
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const mapContainerRef = useRef<HTMLDivElement>(null);
+  const mapInstanceRef = useRef<any>(null);
+  const markersRef = useRef<Record<string, any>>({});
+
+  useEffect(() => {
+    ApiService.getSharedTrip(token)
+      .then(data => {
+        setShared(data);
+        setStatus(data ? 'ready' : 'missing');
+        if (data) document.title = `${data.title} · Wanderlust Traces`;
+      })
+      .catch(() => setStatus('error'));
+  }, [token]);
+
+  // Shared entries carry no ids; their position in the list is enough here
+  const entries: JournalEntry[] = useMemo(
+    () => (shared?.entries ?? []).map((entry, index) => ({ ...entry, id: String(index), tripId: null })),
+    [shared]
+  );
+  const days = useMemo(() => groupByDay(entries), [entries]);
+  const stats = useMemo(() => computeRouteStats(entries), [entries]);
+
+  useEffect(() => {
+    const L = getL();
+    if (!L || !mapContainerRef.current || status !== 'ready' || mapInstanceRef.current) return;
+
+    const map = L.map(mapContainerRef.current, { zoomControl: false, attributionControl: false });
+    L.tileLayer('https://{s}.basemaps.cartocdn.com/rastertiles/voyager/{z}/{x}/{y}{r}.png', {
+      attribution: '&copy; OpenStreetMap contributors',
+      subdomains: 'abcd',
+      maxZoom: 20
+    }).addTo(map);
+    L.control.zoom({ position: 'bottomright' }).addTo(map);
+
+    let stop = 0;
+    days.forEach((group, dayIndex) => {
+      const color = getDayColor(dayIndex);
+      if (group.entries.length > 1) {
+        L.polyline(group.entries.map(e => [e.latitude, e.longitude]), { color, weight: 3, opacity: 0.8, dashArray: '6 8' }).addTo(map);
+      }
+      for (const entry of group.entries) {
+        stop++;
+        const icon = L.divIcon({
+          className: 'bg-transparent',
+          html: `<div class="w-7 h-7 rounded-full border-2 border-white shadow-md flex items-center justify-center text-white font-ui font-bold text-xs" style="background:${color}">${stop}</div>`,
+          iconSize: [28, 28],
+          iconAnchor: [14, 14]
+        });
+        const marker = L.marker([entry.latitude, entry.longitude], { icon })
+          .bindPopup(`<div class="font-serif italic text-stone-700">${escapeHtml(entry.placeName || entry.dateDisplay)}</div>`)
+          .on('click', () => setFocusedId(entry.id))
+          .addTo(map);
+        markersRef.current[entry.id] = marker;
+      }
+    });
+
+    if (entries.length > 0) {
+      map.fitBounds(L.latLngBounds(entries.map(e => [e.latitude, e.longitude])), { padding: [40, 40], maxZoom: 14 });
+    } else {
+      map.setView([20, 0], 2);
+    }
+    mapInstanceRef.current = map;
+
+    return () => {
+      map.remove();
+      mapInstanceRef.current = null;
+      markersRef.current = {};
+    };
+  }, [status, days, entries]);
+
+  const focusEntry = (entry: JournalEntry) => {
+    setFocusedId(entry.id);
+    const map = mapInstanceRef.current;
+    if (!map) return;
+    map.flyTo([entry.latitude, entry.longitude], Math.max(map.getZoom(), 13), { duration: 0.8 });
+    markersRef.current[entry.id]?.openPopup();
+    mapContainerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  if (status !== 'ready' || !shared) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-pastel-sand p-8">
+        <div className="flex flex-col items-center gap-3 text-center">
+          <h1 className="text-3xl font-serif italic text-stone-700">
+            {status === 'loading' ? 'Unfolding the map...' : status === 'missing' ? 'This link is no longer shared' : "Couldn't open this trip"}
+          </h1>
+          {status === 'missing' && <p className="text-sm font-sans text-stone-500">The traveller may have revoked it. Ask them for a new link.</p>}
+          {status === 'error' && <p className="text-sm font-sans text-stone-500">Please try again in a moment.</p>}
+        </div>
+      </div>
+    );
+  }
+
+  const first = entries[0];
+  const last = entries[entries.length - 1];
+  const span = first && last
+    ? [first, last].map(e => new Date(e.timestamp).toLocaleDateString([], { dateStyle: 'long' }))
+    : [];
+
+  return (
+    <div className="min-h-screen p-4 md:p-8 flex flex-col items-center font-sans text-stone-800 bg-gradient-to-br from-pastel-lavender via-pastel-gold/30 to-pastel-sand/30">
+      <div className="max-w-5xl w-full flex flex-col gap-8">
+        <header className="flex flex-col gap-2 px-4 py-2">
+          <span className="text-[10px] font-ui font-bold uppercase tracking-widest text-stone-400">Wanderlust Traces · shared trip</span>
+          <h1 className="text-5xl font-serif italic font-medium text-stone-700">{shared.title}</h1>
+          <p className="text-sm font-serif italic text-stone-500">
+            {span.length > 0 && (span[0] === span[1] ? span[0] : `${span[0]} – ${span[1]}`)}
+            {entries.length > 0 && ` · ${entries.length} ${entries.length === 1 ? 'trace' : 'traces'} · ${formatDistance(stats.totalKm)}`}
+          </p>
+          {shared.coarse && (
+            <p className="text-xs font-sans text-stone-400">Locations are shown approximately, to within about a kilometre.</p>
+          )}
+        </header>
+
+        <div className="relative h-[420px] rounded-[2.5rem] overflow-hidden shadow-lg border-4 border-white/60">
+          <div ref={mapContainerRef} className="w-full h-full" />
+        </div>
+
+        {shared.story && (
+          <section className="bg-white/30 backdrop-blur-xl rounded-[3rem] p-10 shadow-lg border border-white/60">
+            <h2 className="text-3xl font-serif italic text-stone-800 mb-4">The Story</h2>
+            <p className="border-l-2 border-primary/30 pl-6 italic font-serif text-lg leading-loose text-stone-600">"{shared.story}"</p>
+          </section>
+        )}
+
+        <section className="flex flex-col gap-8">
+          {days.map((group, dayIndex) => (
+            <div key={group.day} className="flex flex-col gap-4">
+              <h3 className="flex items-center gap-3 font-serif italic text-2xl text-stone-700">
+                <span className="w-3 h-3 rounded-full" style={{ background: getDayColor(dayIndex) }}></span>
+                {formatDay(group.day)}
+              </h3>
+              {group.entries.map(entry => (
+                <article
+                  key={entry.id}
+                  onClick={() => focusEntry(entry)}
+                  className={`cursor-pointer bg-white/60 backdrop-blur rounded-[2rem] p-6 shadow-sm border transition-colors ${focusedId === entry.id ? 'border-primary/40 bg-white/80' : 'border-white/70 hover:bg-white/80'}`}
+                >
+                  <div className="flex items-center gap-2 mb-2">
+                    <span className="px-3 py-1 bg-pastel-sand text-primary-dark rounded-full text-[10px] font-ui font-bold uppercase tracking-widest">{entry.category}</span>
+                    <span className="text-xs font-ui text-stone-400">
+                      {new Date(entry.timestamp).toLocaleTimeString([], { timeStyle: 'short' })}
+                      {entry.placeName && ` · ${entry.placeName}`}
+                    </span>
+                  </div>
+                  {entry.photos.length > 0 && (
+                    <div className="mb-3" onClick={(e) => e.stopPropagation()}>
+                      <PhotoGallery photos={entry.photos} />
+                    </div>
+                  )}
+                  <p className="font-serif text-lg leading-relaxed text-stone-600 whitespace-pre-line">{entry.note}</p>
+                </article>
+              ))}
+            </div>
+          ))}
+          {entries.length === 0 && <p className="text-center text-stone-400 italic font-serif py-10">Nothing has been shared here yet.</p>}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default SharedTripPage;
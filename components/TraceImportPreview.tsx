@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { JournalEntry, Trip } from '../types';
+import { ParsedTraceFile } from '../services/geoFormats';
+
+interface TraceImportPreviewProps {
+  fileName: string;
+  parsed: ParsedTraceFile;
+  trips: Trip[];
+  defaultTripId: string | null;
+  onConfirm: (entries: Omit<JournalEntry, 'id'>[], tripId: string | null) => Promise<void>;
+  onCancel: () => void;
+}
+
+const FORMAT_LABELS: Record<ParsedTraceFile['format'], string> = {
+  geojson: 'GeoJSON',
+  kml: 'KML',
+  gpx: 'GPX'
+};
+
+const TraceImportPreview: React.FC<TraceImportPreviewProps> = ({ fileName, parsed, trips, defaultTripId, onConfirm, onCancel }) => {
+  const [selected, setSelected] = useState<boolean[]>(() => parsed.entries.map(() => true));
+  const [tripId, setTripId] = useState<string | null>(defaultTripId);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const count = selected.filter(Boolean).length;
+  const allSelected = count === parsed.entries.length;
+
+  const handleConfirm = async () => {
+    setIsImporting(true);
+    try {
+      await onConfirm(parsed.entries.filter((_, i) => selected[i]), tripId);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[6000] bg-stone-800/30 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-pastel-sand/95 rounded-[2rem] p-8 shadow-2xl border border-white/60">
+        <h2 className="text-3xl font-serif italic text-stone-800 mb-1">Import {FORMAT_LABELS[parsed.format]}</h2>
+        <p className="text-sm font-sans text-stone-500 mb-4">
+          {fileName}: {parsed.entries.length} point{parsed.entries.length === 1 ? '' : 's'} found.
+          {parsed.skipped > 0 && ` ${parsed.skipped} track${parsed.skipped === 1 ? '' : 's'}, line${parsed.skipped === 1 ? '' : 's'} or invalid feature${parsed.skipped === 1 ? '' : 's'} skipped; only points become traces.`}
+        </p>
+
+        <div className="flex flex-wrap items-center gap-4 mb-4">
+          <label className="flex items-center gap-2 text-sm font-sans text-stone-600">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={(e) => setSelected(parsed.entries.map(() => e.target.checked))}
+              className="accent-primary"
+            />
+            Select all
+          </label>
+          {trips.length > 0 && (
+            <select
+              value={tripId ?? ''}
+              onChange={(e) => setTripId(e.target.value || null)}
+              className="bg-white/50 border-b-2 border-stone-200 focus:border-primary px-3 py-1 rounded-t-lg outline-none font-sans text-stone-700 text-sm"
+            >
+              <option value="">No trip</option>
+              {trips.map(trip => (
+                <option key={trip.id} value={trip.id}>{trip.name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto journal-scroll flex flex-col gap-2 pr-1">
+          {parsed.entries.map((entry, i) => (
+            <label key={i} className={`flex items-start gap-3 p-3 rounded-xl border cursor-pointer ${selected[i] ? 'bg-white/70 border-white' : 'bg-white/30 border-transparent opacity-60'}`}>
+              <input
+                type="checkbox"
+                checked={selected[i]}
+                onChange={(e) => setSelected(prev => prev.map((s, j) => j === i ? e.target.checked : s))}
+                className="mt-1 accent-primary"
+              />
+              <div className="min-w-0 flex-1">
+                <div className="flex flex-wrap items-center gap-2 text-[10px] font-ui font-bold uppercase tracking-widest text-stone-400">
+                  <span>{entry.dateDisplay}</span>
+                  <span>·</span>
+                  <span>{entry.category}</span>
+                  <span>·</span>
+                  <span>{entry.latitude.toFixed(4)}, {entry.longitude.toFixed(4)}</span>
+                </div>
+                {entry.placeName && <div className="text-sm font-serif italic text-stone-700 truncate">{entry.placeName}</div>}
+                <p className="text-sm font-sans text-stone-600 line-clamp-2">{entry.note || <span className="italic text-stone-400">No note</span>}</p>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-3 pt-4">
+          <button type="button" onClick={onCancel} disabled={isImporting} className="px-4 py-2 text-stone-500 text-xs font-ui font-bold uppercase tracking-wide">Cancel</button>
+          <button
+            type="button"
+            onClick={handleConfirm}
+            disabled={isImporting || count === 0}
+            className="px-6 py-3 bg-gradient-to-r from-primary to-primary-dark text-white rounded-xl shadow-md font-ui font-bold text-xs tracking-widest uppercase disabled:opacity-50"
+          >
+            {isImporting ? 'Importing...' : `Import ${count} trace${count === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TraceImportPreview;
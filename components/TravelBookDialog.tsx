@@ -0,0 +1,134 @@
+import React, { useState, useMemo } from 'react';
+import { DateRange, JournalEntry, Trip } from '../types';
+import { applyFilter, EMPTY_FILTER } from '../services/filters';
+import { generateTravelSummary } from '../services/geminiService';
+import { buildTravelBook } from '../services/travelBook';
+import { sortChronologically, toDayKey } from '../services/geo';
+import { AIError, ApiService } from '../services/api';
+
+interface TravelBookDialogProps {
+  entries: JournalEntry[];
+  trips: Trip[];
+  initialTripId: string | null;
+  initialRange: DateRange;
+  onClose: () => void;
+}
+
+const TravelBookDialog: React.FC<TravelBookDialogProps> = ({ entries, trips, initialTripId, initialRange, onClose }) => {
+  const [title, setTitle] = useState('');
+  const [tripId, setTripId] = useState<string | null>(initialTripId);
+  const [range, setRange] = useState<DateRange>(initialRange);
+  const [includeStory, setIncludeStory] = useState(true);
+  const [isBuilding, setIsBuilding] = useState(false);
+
+  const trip = trips.find(t => t.id === tripId) || null;
+  const bookEntries = useMemo(
+    () => sortChronologically(applyFilter(entries, { ...EMPTY_FILTER, tripId, dateRange: range })),
+    [entries, tripId, range]
+  );
+  const days = new Set(bookEntries.map(e => toDayKey(e.timestamp))).size;
+
+  const defaultTitle = trip?.name ?? 'My Travels';
+
+  const handleCreate = async () => {
+    // Open the window now: browsers block pop-ups that appear after an await
+    const bookWindow = window.open('', '_blank');
+    if (!bookWindow) return alert("Please allow pop-ups to open the book.");
+    bookWindow.document.write('<p style="font-family:serif;font-style:italic;padding:2rem;color:#78716c">Binding your book...</p>');
+    setIsBuilding(true);
+    try {
+      const story = includeStory ? await generateTravelSummary(bookEntries) : null;
+      const first = bookEntries[0];
+      const last = bookEntries[bookEntries.length - 1];
+      const span = first && last
+        ? [first, last].map(e => new Date(e.timestamp).toLocaleDateString([], { dateStyle: 'long' }))
+        : [];
+      const html = buildTravelBook({
+        title: title.trim() || defaultTitle,
+        subtitle: span.length === 0 ? undefined : span[0] === span[1] ? span[0] : `${span[0]} – ${span[1]}`,
+        entries: bookEntries,
+        story,
+        coverPhotoUrl: trip?.coverPhotoUrl ?? bookEntries.find(e => e.photos.length > 0)?.photos[0].url ?? null,
+        resolveMediaUrl: url => ApiService.mediaUrl(url)
+      });
+      bookWindow.document.open();
+      bookWindow.document.write(html);
+      bookWindow.document.close();
+      onClose();
+    } catch (e) {
+      bookWindow.close();
+      alert(e instanceof AIError ? `Couldn't write the reflection: ${e.message}` : "Couldn't put the book together. Please try again.");
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[6000] bg-stone-800/30 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-md bg-pastel-sand/95 rounded-[2rem] p-8 shadow-2xl border border-white/60 flex flex-col gap-5">
+        <h2 className="text-3xl font-serif italic text-stone-800 border-b border-primary/20 pb-2">Make a Book</h2>
+
+        <div className="flex flex-col gap-1">
+          <label className="text-xs font-ui font-bold text-stone-400 uppercase tracking-widest">Title</label>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder={defaultTitle}
+            className="w-full bg-white/50 border-b-2 border-stone-200 focus:border-primary px-3 py-2 rounded-t-lg outline-none font-sans text-stone-700 text-sm"
+          />
+        </div>
+
+        {trips.length > 0 && (
+          <div className="flex flex-col gap-1">
+            <label className="text-xs font-ui font-bold text-stone-400 uppercase tracking-widest">Trip</label>
+            <select
+              value={tripId ?? ''}
+              onChange={(e) => setTripId(e.target.value || null)}
+              className="w-full bg-white/50 border-b-2 border-stone-200 focus:border-primary px-3 py-2 rounded-t-lg outline-none font-sans text-stone-700 text-sm"
+            >
+              <option value="">All traces</option>
+              {trips.map(t => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="flex gap-4">
+          <div className="flex flex-col gap-1 flex-1">
+            <label className="text-xs font-ui font-bold text-stone-400 uppercase tracking-widest">From</label>
+            <input type="date" value={range.start} onChange={(e) => setRange(prev => ({ ...prev, start: e.target.value }))} className="bg-white/50 border-b-2 border-stone-200 focus:border-primary px-3 py-2 rounded-t-lg outline-none font-sans text-stone-700 text-sm" />
+          </div>
+          <div className="flex flex-col gap-1 flex-1">
+            <label className="text-xs font-ui font-bold text-stone-400 uppercase tracking-widest">To</label>
+            <input type="date" value={range.end} onChange={(e) => setRange(prev => ({ ...prev, end: e.target.value }))} className="bg-white/50 border-b-2 border-stone-200 focus:border-primary px-3 py-2 rounded-t-lg outline-none font-sans text-stone-700 text-sm" />
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm font-sans text-stone-600">
+          <input type="checkbox" checked={includeStory} onChange={(e) => setIncludeStory(e.target.checked)} className="accent-primary" />
+          Open with an AI-written reflection
+        </label>
+
+        <p className="text-[10px] font-ui font-bold uppercase tracking-widest text-stone-400">
+          {bookEntries.length} traces · {days} {days === 1 ? 'day' : 'days'} · {days + 2 + (includeStory ? 1 : 0)} pages
+        </p>
+
+        <div className="flex gap-3 pt-2">
+          <button type="button" onClick={onClose} disabled={isBuilding} className="px-4 py-2 text-stone-500 text-xs font-ui font-bold uppercase tracking-wide">Cancel</button>
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={isBuilding || bookEntries.length === 0}
+            className="flex-1 py-3 bg-gradient-to-r from-primary to-primary-dark text-white rounded-xl shadow-md font-ui font-bold text-xs tracking-widest uppercase disabled:opacity-50"
+          >
+            {isBuilding ? "Binding..." : "Open Book"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TravelBookDialog;
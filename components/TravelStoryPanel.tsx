@@ -0,0 +1,174 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AIProviderId, JournalEntry, StoryLength, StoryTone, TravelStory } from '../types';
+import { writeTravelStory } from '../services/geminiService';
+import { STORY_LENGTHS, STORY_TONES, StoryDraft } from '../services/story';
+
+export type FinishedStory = StoryDraft & Pick<TravelStory, 'tone' | 'length'> & { provider: AIProviderId };
+
+interface TravelStoryPanelProps {
+  story: TravelStory | null; // The saved story for the current trip and date range
+  scopeKey: string; // Changes when the trip or date range does; cancels a story being written
+  entries: JournalEntry[]; // Loaded traces, used to label the links in each section
+  canWrite: boolean;
+  hint: string;
+  loadEntries: () => Promise<JournalEntry[]>; // The traces the story should cover
+  onSave: (story: FinishedStory) => Promise<void>;
+  onDelete: (story: TravelStory) => void;
+  onEntryFocus: (id: string) => void;
+}
+
+const formatDay = (day: string) =>
+  day ? new Date(`${day}T00:00`).toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' }) : '';
+
+const pillClass = (active: boolean) =>
+  `px-3 py-1 rounded-full text-[10px] font-ui font-bold uppercase tracking-wider border transition-colors disabled:opacity-50 ${active ? 'bg-white text-primary-dark border-primary/40 shadow-sm' : 'bg-white/40 text-stone-500 border-white/70 hover:bg-white/70'}`;
+
+const TravelStoryPanel: React.FC<TravelStoryPanelProps> = ({
+  story, scopeKey, entries, canWrite, hint, loadEntries, onSave, onDelete, onEntryFocus
+}) => {
+  const [tone, setTone] = useState<StoryTone>(story?.tone ?? 'poetic');
+  const [length, setLength] = useState<StoryLength>(story?.length ?? 'medium');
+  const [draft, setDraft] = useState<StoryDraft | null>(null);
+  const [isWriting, setIsWriting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // A story being written belongs to the scope it was started in
+  useEffect(() => {
+    setError(null);
+    return () => {
+      abortRef.current?.abort();
+      abortRef.current = null;
+      setDraft(null);
+      setIsWriting(false);
+    };
+  }, [scopeKey]);
+
+  useEffect(() => {
+    if (!story) return;
+    setTone(story.tone);
+    setLength(story.length);
+  }, [story?.id]);
+
+  const handleWrite = async () => {
+    const controller = new AbortController();
+    abortRef.current?.abort();
+    abortRef.current = controller;
+    setIsWriting(true);
+    setError(null);
+    setDraft(null);
+    try {
+      const scoped = await loadEntries();
+      if (scoped.length === 0) throw new Error('There are no traces to write about.');
+      const finished = await writeTravelStory(scoped, { tone, length }, setDraft, controller.signal);
+      if (controller.signal.aborted) return;
+      await onSave({ ...finished, tone, length });
+      setDraft(null);
+    } catch (err) {
+      // A stopped story isn't saved, so don't leave half of it on screen
+      if (controller.signal.aborted) setDraft(null);
+      else setError((err as Error).message);
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsWriting(false);
+      }
+    }
+  };
+
+  const shown: StoryDraft | null = draft ?? story;
+  const entryById = new Map(entries.map(e => [e.id, e]));
+
+  return (
+    <div className="lg:col-span-7 relative">
+      <div className="absolute inset-0 bg-gradient-to-tr from-pastel-lavender/40 to-white/40 rounded-[3rem] blur-xl"></div>
+      <div className="relative h-full max-h-[900px] bg-white/30 backdrop-blur-xl rounded-[3rem] p-10 md:p-12 shadow-lg border border-white/60 flex flex-col items-start text-left">
+        <h2 className="text-4xl font-serif italic text-stone-800 mb-6">Your Travel Story</h2>
+
+        <div className="w-full flex flex-col gap-3 mb-6">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs font-ui font-bold text-stone-400 uppercase tracking-widest w-16">Tone</span>
+            {STORY_TONES.map(option => (
+              <button key={option.id} type="button" title={option.description} disabled={isWriting} onClick={() => setTone(option.id)} className={pillClass(tone === option.id)}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs font-ui font-bold text-stone-400 uppercase tracking-widest w-16">Length</span>
+            {STORY_LENGTHS.map(option => (
+              <button key={option.id} type="button" disabled={isWriting} onClick={() => setLength(option.id)} className={pillClass(length === option.id)}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={handleWrite}
+              disabled={isWriting || !canWrite}
+              className="flex-1 py-3 bg-gradient-to-r from-primary to-primary-dark text-white rounded-xl shadow-md font-ui font-bold text-xs tracking-widest uppercase disabled:opacity-50"
+            >
+              {isWriting ? 'Writing…' : story ? 'Write a new story' : 'Reflect on Journey'}
+            </button>
+            {isWriting && (
+              <button type="button" onClick={() => abortRef.current?.abort()} className="px-4 py-2 text-stone-500 text-xs font-ui font-bold uppercase tracking-wide">
+                Stop
+              </button>
+            )}
+          </div>
+          {error && <p className="text-sm font-sans text-red-600">{error}</p>}
+        </div>
+
+        {shown ? (
+          <div className="w-full flex-1 overflow-y-auto journal-scroll pr-2 font-serif text-stone-600">
+            {shown.title && <h3 className="text-2xl italic text-stone-700 mb-3">{shown.title}</h3>}
+            {shown.intro && <p className="border-l-2 border-primary/30 pl-6 italic leading-loose whitespace-pre-line mb-6">{shown.intro}</p>}
+            {shown.sections.map((section, i) => (
+              <div key={i} className="mb-6">
+                <div className="flex items-baseline gap-3 mb-1">
+                  {section.day && <span className="text-[10px] font-ui font-bold uppercase tracking-widest text-stone-400">{formatDay(section.day)}</span>}
+                  <h4 className="text-lg italic text-stone-700">{section.title}</h4>
+                </div>
+                <p className="leading-loose whitespace-pre-line">{section.text}</p>
+                {section.entryIds.length > 0 && (
+                  <div className="flex flex-wrap gap-1.5 mt-2">
+                    {section.entryIds.map(id => {
+                      const entry = entryById.get(id);
+                      return (
+                        <button
+                          key={id}
+                          type="button"
+                          onClick={() => onEntryFocus(id)}
+                          className="px-2.5 py-1 rounded-full bg-white/60 hover:bg-white border border-white/70 text-[10px] font-ui font-bold uppercase tracking-wider text-stone-500 hover:text-primary transition-colors"
+                        >
+                          📍 {entry ? (entry.placeName?.split(',')[0] ?? entry.category) : 'Trace'}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            ))}
+            {isWriting && <span className="inline-block w-2 h-5 bg-primary/50 animate-pulse align-middle"></span>}
+            {story && !draft && (
+              <div className="flex items-center gap-3 pt-4 border-t border-white/60 text-[10px] font-ui font-bold uppercase tracking-widest text-stone-400">
+                <span>Saved {new Date(story.createdAt).toLocaleDateString()} · {STORY_TONES.find(t => t.id === story.tone)?.label} · {story.length}</span>
+                <button type="button" onClick={() => onDelete(story)} className="ml-auto hover:text-red-600">Delete</button>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="flex flex-col items-start gap-4 opacity-50 w-full">
+            <div className="w-full h-4 bg-stone-300/20 rounded-full animate-pulse"></div>
+            <div className="w-3/4 h-4 bg-stone-300/20 rounded-full animate-pulse delay-75"></div>
+            <div className="w-5/6 h-4 bg-stone-300/20 rounded-full animate-pulse delay-150"></div>
+            <p className="mt-4 text-sm font-sans text-stone-500">{hint}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TravelStoryPanel;
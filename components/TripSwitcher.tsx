@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { Trip } from '../types';
+import { ApiService } from '../services/api';
+
+interface TripSwitcherProps {
+  trips: Trip[];
+  activeTripId: string | null;
+  onSelect: (id: string | null) => void;
+  // claimEntries assigns unassigned traces inside the trip's dates to it
+  onSave: (trip: Omit<Trip, 'id'>, id: string | null, claimEntries: boolean) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+const TRIP_COLORS = ['#A05C3B', '#D9C7A7', '#A89FAC', '#6B8F71', '#5B7C99', '#C2847A'];
+
+const TripSwitcher: React.FC<TripSwitcherProps> = ({ trips, activeTripId, onSelect, onSave, onDelete }) => {
+  const [editingTrip, setEditingTrip] = useState<Trip | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [color, setColor] = useState(TRIP_COLORS[0]);
+  const [coverPhotoUrl, setCoverPhotoUrl] = useState<string | null>(null);
+  const [claimEntries, setClaimEntries] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const activeTrip = trips.find(t => t.id === activeTripId) || null;
+
+  const openForm = (trip: Trip | null) => {
+    const today = new Date().toISOString().slice(0, 10);
+    setEditingTrip(trip);
+    setName(trip?.name ?? '');
+    setStartDate(trip?.startDate ?? today);
+    setEndDate(trip?.endDate ?? today);
+    setColor(trip?.color ?? TRIP_COLORS[trips.length % TRIP_COLORS.length]);
+    setCoverPhotoUrl(trip?.coverPhotoUrl ?? null);
+    setClaimEntries(!trip);
+    setIsFormOpen(true);
+  };
+
+  const handleCoverChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setIsUploading(true);
+    try {
+      setCoverPhotoUrl(await ApiService.storePhoto(file));
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (endDate < startDate) return alert("The trip can't end before it starts.");
+    setIsSaving(true);
+    try {
+      await onSave({ name: name.trim(), startDate, endDate, color, coverPhotoUrl }, editingTrip?.id ?? null, claimEntries);
+      setIsFormOpen(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!editingTrip) return;
+    if (!window.confirm(`Delete the trip "${editingTrip.name}"? Its traces will be kept.`)) return;
+    setIsSaving(true);
+    try {
+      await onDelete(editingTrip.id);
+      setIsFormOpen(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex items-center gap-2 bg-white/50 rounded-full pl-3 pr-1 py-1 border border-stone-200">
+        <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: activeTrip?.color ?? '#a8a29e' }}></div>
+        <select
+          value={activeTripId ?? ''}
+          onChange={(e) => onSelect(e.target.value || null)}
+          className="bg-transparent border-none outline-none text-stone-600 text-xs font-ui font-bold uppercase tracking-wider cursor-pointer max-w-[12rem]"
+        >
+          <option value="">All traces</option>
+          {trips.map(trip => (
+            <option key={trip.id} value={trip.id}>{trip.name}</option>
+          ))}
+        </select>
+        {activeTrip && (
+          <button onClick={() => openForm(activeTrip)} className="px-2 py-1 text-stone-400 hover:text-primary text-xs" title="Edit trip">✎</button>
+        )}
+        <button onClick={() => openForm(null)} className="px-3 py-1 bg-white hover:bg-primary hover:text-white text-primary rounded-full text-[10px] font-ui font-bold uppercase tracking-wider transition-all">
+          + Trip
+        </button>
+      </div>
+
+      {isFormOpen && (
+        <div className="fixed inset-0 z-[6000] bg-stone-800/30 backdrop-blur-sm flex items-center justify-center p-4">
+          <form onSubmit={handleSubmit} className="w-full max-w-md bg-pastel-sand/95 rounded-[2rem] p-8 shadow-2xl border border-white/60 flex flex-col gap-5">
+            <h2 className="text-3xl font-serif italic text-stone-800 border-b border-primary/20 pb-2">{editingTrip ? 'Edit Trip' : 'New Trip'}</h2>
+
+            <div className="flex flex-col gap-1">
+              <label className="text-xs font-ui font-bold text-stone-400 uppercase tracking-widest">Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Lisbon in spring"
+                required
+                className="w-full bg-white/50 border-b-2 border-stone-200 focus:border-primary px-3 py-2 rounded-t-lg outline-none font-sans text-stone-700 text-sm"
+              />
+            </div>
+
+            <div className="flex gap-4">
+              <div className="flex flex-col gap-1 flex-1">
+                <label className="text-xs font-ui font-bold text-stone-400 uppercase tracking-widest">From</label>
+                <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} required className="bg-white/50 border-b-2 border-stone-200 focus:border-primary px-3 py-2 rounded-t-lg outline-none font-sans text-stone-700 text-sm" />
+              </div>
+              <div className="flex flex-col gap-1 flex-1">
+                <label className="text-xs font-ui font-bold text-stone-400 uppercase tracking-widest">To</label>
+                <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} required className="bg-white/50 border-b-2 border-stone-200 focus:border-primary px-3 py-2 rounded-t-lg outline-none font-sans text-stone-700 text-sm" />
+              </div>
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <label className="text-xs font-ui font-bold text-stone-400 uppercase tracking-widest">Colour</label>
+              <div className="flex gap-2">
+                {TRIP_COLORS.map(c => (
+                  <button
+                    key={c}
+                    type="button"
+                    onClick={() => setColor(c)}
+                    className={`w-7 h-7 rounded-full border-2 ${color === c ? 'border-stone-700 scale-110' : 'border-white'}`}
+                    style={{ backgroundColor: c }}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <label className="text-xs font-ui font-bold text-stone-400 uppercase tracking-widest">Cover Photo</label>
+              <input type="file" accept="image/*" onChange={handleCoverChange} className="hidden" id="trip-cover-upload" />
+              <label
+                htmlFor="trip-cover-upload"
+                className="flex items-center justify-center w-full h-24 border-2 border-dashed border-stone-300 rounded-xl cursor-pointer hover:bg-white/50 transition-all overflow-hidden bg-white/30"
+              >
+                {coverPhotoUrl ? (
+                  <img src={ApiService.mediaUrl(coverPhotoUrl)} alt="Cover" className="w-full h-full object-cover" />
+                ) : (
+                  <span className="text-[10px] font-ui uppercase font-bold tracking-widest text-stone-400">{isUploading ? 'Uploading...' : 'Upload Cover'}</span>
+                )}
+              </label>
+            </div>
+
+            {!editingTrip && (
+              <label className="flex items-center gap-2 text-sm font-sans text-stone-600">
+                <input type="checkbox" checked={claimEntries} onChange={(e) => setClaimEntries(e.target.checked)} className="accent-primary" />
+                Add unassigned traces from these dates
+              </label>
+            )}
+
+            <div className="flex gap-3 pt-2">
+              {editingTrip && (
+                <button type="button" onClick={handleDelete} disabled={isSaving} className="px-4 py-2 text-red-500 text-xs font-ui font-bold uppercase tracking-wide">Delete</button>
+              )}
+              <button type="button" onClick={() => setIsFormOpen(false)} className="px-4 py-2 text-stone-500 text-xs font-ui font-bold uppercase tracking-wide">Cancel</button>
+              <button
+                type="submit"
+                disabled={isSaving || isUploading}
+                className="flex-1 py-3 bg-gradient-to-r from-primary to-primary-dark text-white rounded-xl shadow-md font-ui font-bold text-xs tracking-widest uppercase disabled:opacity-50"
+              >
+                {isSaving ? "Saving..." : "Save Trip"}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default TripSwitcher;
@@ -1,15 +1,19 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import SharedTripPage from './components/SharedTripPage';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Share links (/share/<token>) open the read-only trip page instead of the journal
+const shareMatch = /^\/share\/([\w-]+)\/?$/.exec(window.location.pathname);
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {shareMatch ? <SharedTripPage token={shareMatch[1]} /> : <App />}
   </React.StrictMode>
 );
\ No newline at end of file
@@ -0,0 +1,14 @@
+const journalEntrySchema = require('./journalEntry.json');
+const tripSchema = require('./trip.json');
+// 校验逻辑与前端共用（Node 20.19 起可以直接 require ES 模块）
+const { createEntryValidator } = require('../shared/entryValidator.mjs');
+
+/**
+ * 接口数据的校验规则写在 journalEntry.json 里，前端 services/entrySchema.ts 用同一份文件和同一个校验器
+ */
+const validateEntryInput = createEntryValidator(journalEntrySchema);
+
+// 旅程：trip.json，只在服务器上校验
+const validateTripInput = createEntryValidator(tripSchema);
+
+module.exports = { journalEntrySchema, validateEntryInput, validateTripInput };
@@ -2,53 +2,715 @@ const http = require('http');
 const url = require('url');
 const fs = require('fs');
 const path = require('path');
+const crypto = require('crypto');
+const sharp = require('sharp');
+const { openStorage } = require('./storage');
+const { journalEntrySchema, validateEntryInput, validateTripInput } = require('./schema');
+const { aiError, createAIService, STORY_TONES, STORY_LENGTHS } = require('./ai');
+// 与前端共用的 ES 模块（Node 20.19 起可以直接 require）
+const { searchEntries } = require('./shared/search.mjs');
 
-const PORT = 3001;
-const DB_FILE = path.join(__dirname, 'db.json');
-
-// 初始化数据库文件
-const initDb = () => {
-  if (!fs.existsSync(DB_FILE)) {
-    const initialData = [
-      {
-        id: '1',
-        latitude: 51.4778,
-        longitude: -0.0015,
-        timestamp: new Date(Date.now() - 86400000 * 2).toISOString(),
-        dateDisplay: new Date(Date.now() - 86400000 * 2).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }),
-        note: "Walking through Greenwich Park. The view of the city from the top of the hill is breathtaking.",
-        category: 'Nature',
-        photoUrl: "https://picsum.photos/200/200?random=1"
-      }
-    ];
-    fs.writeFileSync(DB_FILE, JSON.stringify(initialData, null, 2));
-    return initialData;
+// 测试时用 PORT=0（随机端口）和临时的 DATA_DIR
+const PORT = process.env.PORT ? Number(process.env.PORT) : 3001;
+const DATA_DIR = process.env.DATA_DIR || __dirname;
+const DB_FILE = path.join(DATA_DIR, 'journal.db');
+// 旧版本的 JSON 文件，启动时一次性迁移进数据库
+const LEGACY_FILES = {
+  entries: path.join(DATA_DIR, 'db.json'),
+  trips: path.join(DATA_DIR, 'trips.json'),
+  shares: path.join(DATA_DIR, 'shares.json'),
+  users: path.join(DATA_DIR, 'users.json'),
+  sessions: path.join(DATA_DIR, 'sessions.json')
+};
+const MEDIA_DIR = path.join(DATA_DIR, 'media');
+const MAX_JSON_BYTES = 1024 * 1024;
+const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+const MAX_IMPORT_BYTES = 20 * 1024 * 1024;
+// 缩略图的最长边（列表和地图图钉上的尺寸）
+const THUMBNAIL_SIZE = 320;
+// 所有缩略图都由服务器重新生成过的标记；以前的版本直接保存浏览器上传的缩略图
+const THUMBNAILS_MARKER = path.join(MEDIA_DIR, '.thumbnails-v1');
+// 发给 AI 的单张照片上限
+const MAX_AI_IMAGE_BYTES = 4 * 1024 * 1024;
+const CATEGORIES = journalEntrySchema.properties.category.enum;
+// 隐藏精确位置时坐标吸附到的网格大小（约 1 km）
+const SHARE_GRID_DEGREES = 0.01;
+const SESSION_TTL_MS = 30 * 86400000;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+// 实时推送连接的心跳间隔，防止代理把空闲连接断开
+const EVENT_HEARTBEAT_MS = 25000;
+
+const MEDIA_TYPES = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif'
+};
+
+// 新数据库里的示例日志
+const sampleEntries = () => [
+  {
+    id: '1',
+    latitude: 51.4778,
+    longitude: -0.0015,
+    timestamp: new Date(Date.now() - 86400000 * 2).toISOString(),
+    dateDisplay: new Date(Date.now() - 86400000 * 2).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }),
+    note: "Walking through Greenwich Park. The view of the city from the top of the hill is breathtaking.",
+    category: 'Nature',
+    photos: [{ url: "https://picsum.photos/200/200?random=1", caption: '' }]
+  }
+];
+
+// 旧数据没有版本号，补上初始版本
+const withRevision = (entry) => ({
+  ...entry,
+  revision: entry.revision || 1,
+  updatedAt: entry.updatedAt || entry.timestamp
+});
+
+if (!fs.existsSync(MEDIA_DIR)) fs.mkdirSync(MEDIA_DIR);
+
+const newMediaId = () => `${Date.now()}-${crypto.randomBytes(6).toString('hex')}`;
+
+const extensionFor = (mimeType) =>
+  Object.keys(MEDIA_TYPES).find(ext => MEDIA_TYPES[ext] === mimeType && ext !== 'jpeg');
+
+// 旧数据只有一张 photoUrl，转成 photos 列表
+const withPhotos = (entry) => {
+  if (!('photoUrl' in entry)) return { ...entry, photos: entry.photos || [] };
+  const { photoUrl, ...rest } = entry;
+  return { ...rest, photos: photoUrl ? [{ url: photoUrl, caption: '' }] : [] };
+};
+
+// 把内联的 base64 照片写到 media 目录，返回新路径；不是 data URL 时返回 null（缩略图缺失时会直接返回原图）
+const storeInlinePhoto = (value) => {
+  const match = /^data:(image\/[\w+.-]+);base64,(.+)$/.exec(value || '');
+  const ext = match && extensionFor(match[1]);
+  if (!ext) return null;
+  const file = `${newMediaId()}.${ext}`;
+  fs.writeFileSync(path.join(MEDIA_DIR, file), Buffer.from(match[2], 'base64'));
+  return `/media/${file}`;
+};
+
+const thumbnailName = (file) => file.replace(/\.\w+$/, '.thumb.jpg');
+
+/**
+ * 由原图生成缩略图。sharp 默认不写元数据，缩略图里没有 EXIF（包括 GPS）。
+ * 无法解码的图片不生成缩略图，读取时退回原图
+ */
+const writeThumbnail = async (file) => {
+  try {
+    await sharp(path.join(MEDIA_DIR, file))
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 80 })
+      .toFile(path.join(MEDIA_DIR, thumbnailName(file)));
+    return true;
+  } catch (err) {
+    console.warn(`⚠️  Could not create a thumbnail for ${file}: ${err.message}`);
+    return false;
+  }
+};
+
+/**
+ * 补齐缺失的缩略图。第一次运行时重新生成全部缩略图，替换掉浏览器上传的版本
+ */
+const backfillThumbnails = async () => {
+  const regenerate = !fs.existsSync(THUMBNAILS_MARKER);
+  const files = new Set(fs.readdirSync(MEDIA_DIR));
+  const originals = [...files].filter(file => !file.includes('.thumb.') && MEDIA_TYPES[path.extname(file).slice(1)]);
+  let created = 0;
+  for (const file of originals) {
+    const thumb = thumbnailName(file);
+    if (!regenerate && files.has(thumb)) continue;
+    if (await writeThumbnail(file)) created++;
+    else if (files.has(thumb)) fs.unlinkSync(path.join(MEDIA_DIR, thumb));
+  }
+  fs.writeFileSync(THUMBNAILS_MARKER, new Date().toISOString());
+  if (created > 0) console.log(`🖼️  Created ${created} thumbnail(s)`);
+};
+
+const extractInlinePhotos = (list, field) => {
+  let moved = 0;
+  const result = list.map(item => {
+    const stored = storeInlinePhoto(item[field]);
+    if (!stored) return item;
+    moved++;
+    return { ...item, [field]: stored };
+  });
+  return { result, moved };
+};
+
+const extractInlineGalleries = (list) => {
+  let moved = 0;
+  const result = list.map(item => {
+    if (!item.photos.some(photo => photo.url.startsWith('data:'))) return item;
+    const photos = item.photos.map(photo => {
+      const stored = storeInlinePhoto(photo.url);
+      if (!stored) return photo;
+      moved++;
+      return { ...photo, url: stored };
+    });
+    return { ...item, photos };
+  });
+  return { result, moved };
+};
+
+// 给 AI 看的照片优先用缩略图：更小，也没有 EXIF
+const readPhotoForAI = (photoUrl) => {
+  if (!photoUrl || !photoUrl.startsWith('/media/')) return null;
+  const name = path.basename(photoUrl);
+  const thumb = path.join(MEDIA_DIR, thumbnailName(name));
+  const file = fs.existsSync(thumb) ? thumb : path.join(MEDIA_DIR, name);
+  const mimeType = MEDIA_TYPES[path.extname(file).slice(1).toLowerCase()];
+  if (!mimeType || !fs.existsSync(file) || fs.statSync(file).size > MAX_AI_IMAGE_BYTES) return null;
+  return { mimeType, data: fs.readFileSync(file).toString('base64') };
+};
+
+// 返回 media 目录里的文件，带 ETag；文件不存在时 404
+const sendMediaFile = (req, res, file, cacheControl) => {
+  if (!file || !fs.existsSync(file)) {
+    res.writeHead(404); res.end();
+    return;
   }
-  return JSON.parse(fs.readFileSync(DB_FILE, 'utf-8'));
+  const stat = fs.statSync(file);
+  const etag = `"${stat.size.toString(16)}-${stat.mtimeMs.toString(16)}"`;
+  if (req.headers['if-none-match'] === etag) {
+    res.writeHead(304, { ETag: etag }); res.end();
+    return;
+  }
+  res.writeHead(200, {
+    'Content-Type': MEDIA_TYPES[path.extname(file).slice(1)],
+    'Content-Length': stat.size,
+    'Cache-Control': cacheControl,
+    ETag: etag
+  });
+  fs.createReadStream(file).pipe(res);
+};
+
+const storage = openStorage(DB_FILE);
+
+// Gemini 密钥只从服务器环境变量读取
+const ai = createAIService({
+  apiKey: process.env.GEMINI_API_KEY || process.env.API_KEY,
+  categories: CATEGORIES,
+  storeImage: (dataUrl) => {
+    const stored = storeInlinePhoto(dataUrl);
+    if (!stored) throw aiError(502, 'no_result', "The AI returned an image we can't store. Try again.");
+    writeThumbnail(path.basename(stored));
+    return stored;
+  },
+  loadImage: readPhotoForAI
+});
+
+const readLegacy = (file) => fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) : [];
+
+/**
+ * 把旧的 JSON 文件导入数据库，成功后改名为 *.migrated 作为备份。
+ * 重复执行是安全的：按主键覆盖写入
+ */
+const migrateLegacyFiles = () => {
+  const present = Object.values(LEGACY_FILES).filter(file => fs.existsSync(file));
+  if (present.length === 0) return false;
+
+  const entries = extractInlineGalleries(readLegacy(LEGACY_FILES.entries).map(withRevision).map(withPhotos));
+  const trips = extractInlinePhotos(readLegacy(LEGACY_FILES.trips), 'coverPhotoUrl');
+  const shares = readLegacy(LEGACY_FILES.shares);
+  const users = readLegacy(LEGACY_FILES.users);
+  const sessions = readLegacy(LEGACY_FILES.sessions);
+
+  storage.transaction(() => {
+    users.forEach(user => { if (!storage.getUser(user.id)) storage.insertUser(user); });
+    sessions.filter(s => users.some(u => u.id === s.userId)).forEach(storage.insertSession);
+    entries.result.forEach(storage.saveEntry);
+    trips.result.forEach(storage.saveTrip);
+    shares.forEach(storage.saveShare);
+  });
+  present.forEach(file => fs.renameSync(file, `${file}.migrated`));
+
+  if (entries.moved + trips.moved > 0) {
+    console.log(`📦 Moved ${entries.moved + trips.moved} inline photo(s) to ${MEDIA_DIR}`);
+  }
+  console.log(`🗄️  Imported ${entries.result.length} entries, ${trips.result.length} trips and ${users.length} accounts from JSON files`);
+  return true;
+};
+
+if (!migrateLegacyFiles() && storage.isNew) {
+  sampleEntries().map(withRevision).forEach(storage.saveEntry);
+}
+
+// --- 账户与会话 ---
+// 密码用 scrypt 加盐哈希；令牌只保存 SHA-256 摘要，数据库泄露也无法冒用
+const hashPassword = (password, salt) => crypto.scryptSync(password, salt, 64).toString('hex');
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+const verifyPassword = (user, password) => {
+  const expected = Buffer.from(user.passwordHash, 'hex');
+  const actual = Buffer.from(hashPassword(password, user.salt), 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+const publicUser = (user) => ({ id: user.id, username: user.username, createdAt: user.createdAt });
+
+/**
+ * 新建会话，返回令牌和 mediaKey。<img> 无法携带 Authorization，照片地址用 ?key=mediaKey 登录；
+ * mediaKey 就是数据库里的令牌摘要，只能读照片，不能当作令牌调用 API，随会话一起过期或注销
+ */
+const createSession = (userId) => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const now = Date.now();
+  // 顺便清理过期会话
+  storage.deleteExpiredSessions(now);
+  storage.insertSession({
+    tokenHash: hashToken(token),
+    userId,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_TTL_MS).toISOString()
+  });
+  return { token, mediaKey: hashToken(token) };
+};
+
+const bearerToken = (req) => {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || '');
+  return match ? match[1] : null;
+};
+
+const sessionUser = (tokenHash) => {
+  const session = storage.findSession(tokenHash);
+  if (!session || new Date(session.expiresAt).getTime() <= Date.now()) return null;
+  return storage.getUser(session.userId);
 };
 
-let entries = initDb();
+const authenticate = (req) => {
+  const token = bearerToken(req);
+  return token ? sessionUser(hashToken(token)) : null;
+};
+
+// GET /media/* 也接受地址里的 ?key=（见 createSession）
+const authenticateMedia = (key) => (typeof key === 'string' && /^[0-9a-f]{64}$/.test(key) ? sessionUser(key) : null);
+
+const validateCredentials = ({ username, password }) => {
+  if (typeof username !== 'string' || !/^[a-z0-9._-]{3,32}$/.test(username.trim().toLowerCase())) {
+    return 'Username must be 3-32 letters, digits, dots, dashes or underscores';
+  }
+  if (typeof password !== 'string' || password.length < 8) return 'Password must be at least 8 characters';
+  return null;
+};
 
-const saveDb = () => {
-  fs.writeFileSync(DB_FILE, JSON.stringify(entries, null, 2));
+// 第一个注册的账户接管启用登录之前的数据
+const claimUnownedData = (userId) => {
+  const claimed = storage.claimUnowned(userId);
+  if (claimed > 0) console.log(`👤 ${claimed} existing record(s) now belong to the first account`);
 };
 
-const getBody = (req) => {
+// 不需要登录的路由：健康检查、登录注册和公开分享页（分享的照片也在 /public/ 下）
+const isPublicRoute = (pathName) =>
+  pathName === '/ping' ||
+  pathName === '/auth/register' ||
+  pathName === '/auth/login' ||
+  pathName.startsWith('/public/');
+
+const payloadTooLarge = () => Object.assign(new Error('Payload too large'), { status: 413 });
+
+const getRawBody = (req, limit) => {
   return new Promise((resolve, reject) => {
-    let body = '';
+    const chunks = [];
+    let size = 0;
     req.on('data', chunk => {
-      body += chunk.toString();
-      if (body.length > 50 * 1024 * 1024) reject('Payload too large');
-    });
-    req.on('end', () => {
-      try { resolve(body ? JSON.parse(body) : {}); } catch (e) { reject(e); }
+      size += chunk.length;
+      if (size > limit) {
+        req.removeAllListeners('data');
+        req.resume();
+        reject(payloadTooLarge());
+        return;
+      }
+      chunks.push(chunk);
     });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+};
+
+const getBody = async (req, limit = MAX_JSON_BYTES) => {
+  const body = (await getRawBody(req, limit)).toString();
+  return body ? JSON.parse(body) : {};
+};
+
+/**
+ * 解析 multipart/form-data，返回 { 字段名: { filename, contentType, data } }
+ */
+const parseMultipart = (buffer, contentType) => {
+  const boundaryMatch = /boundary=(?:"([^"]+)"|([^;]+))/.exec(contentType || '');
+  if (!boundaryMatch) return {};
+  const delimiter = Buffer.from(`--${boundaryMatch[1] || boundaryMatch[2]}`);
+  const parts = {};
+  let start = buffer.indexOf(delimiter);
+  while (start !== -1) {
+    const next = buffer.indexOf(delimiter, start + delimiter.length);
+    if (next === -1) break;
+    // 去掉分隔符后的 \r\n 和下一个分隔符前的 \r\n
+    const part = buffer.subarray(start + delimiter.length + 2, next - 2);
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd !== -1) {
+      const headers = part.subarray(0, headerEnd).toString();
+      const name = /name="([^"]*)"/.exec(headers);
+      if (name) {
+        parts[name[1]] = {
+          filename: (/filename="([^"]*)"/.exec(headers) || [])[1] || null,
+          contentType: (/content-type:\s*([^\r\n]+)/i.exec(headers) || [])[1] || 'application/octet-stream',
+          data: part.subarray(headerEnd + 4)
+        };
+      }
+    }
+    start = next;
+  }
+  return parts;
+};
+
+const displayDate = (timestamp) => new Date(timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+const normalizePhotos = (photos) =>
+  photos.map(p => ({ url: p.url, caption: p.caption || '', ...(p.aiGenerated ? { aiGenerated: true } : {}) }));
+
+// 通过校验的字段补上可省略字段的默认值
+const withDefaults = (fields) => ({
+  ...fields,
+  dateDisplay: fields.dateDisplay || displayDate(fields.timestamp),
+  photos: normalizePhotos(fields.photos || []),
+  placeName: fields.placeName || null,
+  tripId: fields.tripId || null
+});
+
+/**
+ * 导入校验：规则来自 schema/journalEntry.json，与前端 services/importValidation.ts 一致。
+ * 备份文件里的 id 保留下来用于去重，多余的字段忽略
+ */
+const validateEntry = (raw) => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return { entry: null, messages: ['Not an object'] };
+  const row = withPhotos(raw);
+  const { fields, errors } = validateEntryInput(row, { lenient: true });
+  const messages = [...errors];
+  if (row.id !== undefined && (typeof row.id !== 'string' || !row.id)) messages.unshift('id must be a non-empty string');
+  if (messages.length > 0) return { entry: null, messages };
+  return { entry: { ...(row.id ? { id: row.id } : {}), ...withDefaults(fields) }, messages };
+};
+
+// 日志只能归入调用者自己的旅程
+const tripIdErrors = (userId, tripId) => (tripId && !storage.getTrip(userId, tripId) ? ['tripId must be one of your trips'] : []);
+
+// 内联的 data URL 照片（旧客户端、备份文件）写到 media 目录，只保存路径
+const storeInlinePhotos = (photos) => photos.map(photo => {
+  const stored = storeInlinePhoto(photo.url);
+  return stored ? { ...photo, url: stored } : photo;
+});
+
+const sendInvalidEntry = (res, errors) => {
+  res.writeHead(400, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: `Invalid entry: ${errors.join('; ')}`, details: errors }));
+};
+
+// 通过 trip.json 校验后再检查日期顺序；PATCH 时传入合并后的旅程
+const tripErrors = (trip) => (trip.endDate < trip.startDate ? ['endDate must not be before startDate'] : []);
+
+// 离线时选的封面可能是内联图片，和日志照片一样存成文件
+const withStoredCover = (trip) => ({ ...trip, coverPhotoUrl: storeInlinePhoto(trip.coverPhotoUrl) || trip.coverPhotoUrl });
+
+const sendInvalidTrip = (res, errors) => {
+  res.writeHead(400, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: `Invalid trip: ${errors.join('; ')}`, details: errors }));
+};
+
+// 同一时刻、同一地点（约 1 米内）视为同一条日志
+const dedupeKey = (entry) =>
+  `${new Date(entry.timestamp).getTime()}|${entry.latitude.toFixed(5)}|${entry.longitude.toFixed(5)}`;
+
+/**
+ * 导入日志：merge 跳过与现有日志重复的行，replace 整体替换；返回逐行错误报告
+ */
+const importEntries = (rows, mode, ownerId) => {
+  const baseline = mode === 'merge' ? storage.listEntries(ownerId) : [];
+  // id 在所有账户间唯一，与别人的日志撞号时重新分配
+  const isTaken = (id) => {
+    const owner = storage.entryOwner(id);
+    return owner !== undefined && owner !== ownerId;
+  };
+  const seenIds = new Set(baseline.map(e => e.id));
+  const seenKeys = new Set(baseline.map(dedupeKey));
+  const accepted = [];
+  const errors = [];
+  let duplicates = 0;
+  const now = new Date().toISOString();
+
+  rows.forEach((raw, index) => {
+    const { entry, messages } = validateEntry(raw);
+    if (!entry) {
+      errors.push({ row: index + 1, ...(raw && typeof raw.id === 'string' ? { id: raw.id } : {}), messages });
+      return;
+    }
+    const key = dedupeKey(entry);
+    if ((entry.id && seenIds.has(entry.id)) || seenKeys.has(key)) {
+      duplicates++;
+      return;
+    }
+    const id = entry.id && !isTaken(entry.id) ? entry.id : crypto.randomUUID();
+    seenIds.add(id);
+    seenKeys.add(key);
+    // 备份里的旅程可能已删除或属于别的账户，这时只去掉关联
+    const tripId = tripIdErrors(ownerId, entry.tripId).length > 0 ? null : entry.tripId;
+    accepted.push({ ...entry, id, tripId, photos: storeInlinePhotos(entry.photos), ownerId, revision: 1, updatedAt: now });
+  });
+
+  storage.transaction(() => {
+    if (mode === 'replace') storage.deleteEntries(ownerId);
+    accepted.forEach(storage.saveEntry);
+  });
+  return { imported: accepted.length, duplicates, errors, entries: [...baseline, ...accepted] };
+};
+
+// --- 分享链接 ---
+const snapToGrid = (value) => {
+  const cell = Math.floor(value / SHARE_GRID_DEGREES);
+  return Number(((cell + 0.5) * SHARE_GRID_DEGREES).toFixed(4));
+};
+
+// 按旅程和日期范围筛选分享的日志（与前端 services/filters.ts 的日期规则保持一致）
+const listSharedEntries = (share) => {
+  const start = share.dateRange.start ? new Date(`${share.dateRange.start}T00:00`).getTime() : -Infinity;
+  const end = share.dateRange.end ? new Date(`${share.dateRange.end}T00:00`).getTime() + 86400000 : Infinity;
+  return storage.listEntries(share.ownerId, {
+    ...(share.tripId ? { tripId: share.tripId } : {}),
+    ...(Number.isFinite(start) ? { from: start } : {}),
+    ...(Number.isFinite(end) ? { to: end } : {})
+  });
+};
+
+/**
+ * 分享页不暴露 /media/ 文件名，只给服务器生成的缩略图（不含 EXIF GPS）。
+ * 照片改用分享内的名字（以 token 为密钥的 HMAC），换一个分享就对不上，也推不出原文件名
+ */
+const sharedMediaKey = (share, photoUrl) =>
+  crypto.createHmac('sha256', share.token).update(path.basename(photoUrl)).digest('hex').slice(0, 32);
+
+const publicPhotoUrl = (share, photoUrl) => {
+  if (!photoUrl || !photoUrl.startsWith('/media/')) return photoUrl;
+  if (!fs.existsSync(path.join(MEDIA_DIR, thumbnailName(path.basename(photoUrl))))) return null;
+  return `/public/shares/${share.token}/media/${sharedMediaKey(share, photoUrl)}.jpg`;
+};
+
+// 分享内的照片名对应的缩略图（服务器生成，不含 EXIF）；不属于这个分享时返回 null
+const sharedThumbnailFile = (share, key) => {
+  const trip = share.tripId ? storage.getTrip(share.ownerId, share.tripId) : null;
+  const urls = listSharedEntries(share).flatMap(e => e.photos.map(photo => photo.url));
+  if (trip && trip.coverPhotoUrl) urls.push(trip.coverPhotoUrl);
+  const photoUrl = urls.find(url => url.startsWith('/media/') && sharedMediaKey(share, url) === key);
+  return photoUrl ? path.join(MEDIA_DIR, thumbnailName(path.basename(photoUrl))) : null;
+};
+
+/**
+ * 分享页只读数据：去掉 id 和版本号；coarse 时坐标吸附到网格，地名只保留最后一段
+ */
+const buildSharedTrip = (share) => {
+  const trip = share.tripId ? storage.getTrip(share.ownerId, share.tripId) : null;
+  const list = listSharedEntries(share)
+    .map(e => ({
+      latitude: share.coarse ? snapToGrid(e.latitude) : e.latitude,
+      longitude: share.coarse ? snapToGrid(e.longitude) : e.longitude,
+      timestamp: e.timestamp,
+      dateDisplay: e.dateDisplay,
+      note: e.note,
+      category: e.category,
+      photos: e.photos
+        .map(photo => ({ ...photo, url: publicPhotoUrl(share, photo.url) }))
+        .filter(photo => photo.url),
+      placeName: e.placeName && share.coarse ? e.placeName.split(',').pop().trim() : (e.placeName || null)
+    }));
+  return {
+    title: share.title,
+    story: share.story,
+    coarse: share.coarse,
+    dateRange: share.dateRange,
+    trip: trip ? { name: trip.name, color: trip.color, coverPhotoUrl: publicPhotoUrl(share, trip.coverPhotoUrl) } : null,
+    entries: list
+  };
+};
+
+// --- 游记 ---
+const MAX_STORY_SECTIONS = 100;
+const STORY_PROVIDERS = ['gemini', 'local'];
+
+const isDay = (v) => typeof v === 'string' && (v === '' || /^\d{4}-\d{2}-\d{2}$/.test(v));
+const isText = (v, max) => typeof v === 'string' && v.length <= max;
+
+/**
+ * 校验客户端生成好的游记，返回 { story, errors }。id、归属和时间由服务器决定
+ */
+const validateStory = (data, userId) => {
+  const errors = [];
+  const range = data.dateRange || { start: '', end: '' };
+  if (data.tripId != null && (typeof data.tripId !== 'string' || !storage.getTrip(userId, data.tripId))) errors.push('tripId is not one of your trips');
+  if (!isDay(range.start) || !isDay(range.end)) errors.push('dateRange must have start and end dates as YYYY-MM-DD or empty');
+  if (!STORY_TONES.includes(data.tone)) errors.push(`tone must be one of ${STORY_TONES.join(', ')}`);
+  if (!STORY_LENGTHS.includes(data.length)) errors.push(`length must be one of ${STORY_LENGTHS.join(', ')}`);
+  if (!STORY_PROVIDERS.includes(data.provider)) errors.push(`provider must be one of ${STORY_PROVIDERS.join(', ')}`);
+  if (!isText(data.title, 300)) errors.push('title must be a string of at most 300 characters');
+  if (!isText(data.intro, 10000)) errors.push('intro must be a string of at most 10000 characters');
+  const sections = Array.isArray(data.sections) ? data.sections : [];
+  if (!Array.isArray(data.sections) || sections.length > MAX_STORY_SECTIONS) errors.push(`sections must be a list of at most ${MAX_STORY_SECTIONS} sections`);
+  sections.forEach((section, i) => {
+    const valid = section && isDay(section.day) && isText(section.title, 300) && isText(section.text, 20000) &&
+      Array.isArray(section.entryIds) && section.entryIds.every(id => typeof id === 'string');
+    if (!valid) errors.push(`sections[${i}] must have a day, title, text and a list of entryIds`);
+  });
+  if (errors.length > 0) return { story: null, errors };
+  return {
+    story: {
+      id: crypto.randomUUID(),
+      ownerId: userId,
+      tripId: data.tripId || null,
+      dateRange: { start: range.start, end: range.end },
+      tone: data.tone,
+      length: data.length,
+      provider: data.provider,
+      title: data.title,
+      intro: data.intro,
+      sections: sections.map(({ day, title, text, entryIds }) => ({ day, title, text, entryIds })),
+      createdAt: new Date().toISOString()
+    },
+    errors
+  };
+};
+
+// --- 日志助手 ---
+const countCategories = (list) => list.reduce((counts, e) => ({ ...counts, [e.category]: (counts[e.category] || 0) + 1 }), {});
+
+// 整本日志的统计，让助手也能回答“哪次旅行的自然景点最多”这类检索不到单条日志的问题
+const journalOverview = (ownerId) => {
+  const entries = storage.listEntries(ownerId);
+  const days = entries.map(e => e.timestamp.slice(0, 10)).sort();
+  const unassigned = entries.filter(e => !e.tripId);
+  return {
+    total: entries.length,
+    from: days[0] || null,
+    to: days[days.length - 1] || null,
+    categories: countCategories(entries),
+    trips: storage.listTrips(ownerId).map(trip => {
+      const inTrip = entries.filter(e => e.tripId === trip.id);
+      return { id: trip.id, name: trip.name, startDate: trip.startDate, endDate: trip.endDate, total: inTrip.length, categories: countCategories(inTrip) };
+    }),
+    unassigned: { total: unassigned.length, categories: countCategories(unassigned) }
+  };
+};
+
+// --- 分页查询 ---
+const PAGE_PARAMS = ['bbox', 'from', 'to', 'category', 'trip', 'limit', 'cursor'];
+
+// 游标只对服务器有意义：上一页最后一条的时间和 id
+const encodeCursor = (position) => Buffer.from(JSON.stringify(position)).toString('base64url');
+const decodeCursor = (cursor) => {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    return Number.isFinite(position.time) && typeof position.id === 'string' ? position : null;
+  } catch {
+    return null;
+  }
+};
+
+const ISO_INSTANT = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * 解析 GET /entries 的筛选和分页参数，筛选规则与前端 services/filters.ts 一致
+ */
+const parseEntryQuery = (query) => {
+  const single = (name) => (Array.isArray(query[name]) ? query[name][0] : query[name]);
+  const filters = {};
+  const errors = [];
+
+  const bbox = single('bbox');
+  if (bbox !== undefined) {
+    const values = bbox.split(',').map(Number);
+    const [west, south, east, north] = values;
+    if (values.length !== 4 || !values.every(Number.isFinite) || Math.abs(west) > 180 || Math.abs(east) > 180 || south < -90 || north > 90 || south > north) {
+      errors.push('bbox must be west,south,east,north in degrees');
+    } else {
+      filters.bbox = values;
+    }
+  }
+  // 前端按浏览器时区算好日界，发送带时区的 ISO 时间；只给日期时按服务器本地时间解析，to 包含当天
+  for (const [name, offset] of [['from', 0], ['to', 86400000]]) {
+    const value = single(name);
+    if (value === undefined) continue;
+    const time = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00`).getTime() + offset
+      : ISO_INSTANT.test(value) ? Date.parse(value) : NaN;
+    if (Number.isFinite(time)) filters[name] = time;
+    else errors.push(`${name} must be a YYYY-MM-DD date or an ISO 8601 time with a time zone`);
+  }
+  const category = single('category');
+  if (category !== undefined) {
+    const categories = category.split(',').filter(Boolean);
+    if (categories.every(c => CATEGORIES.includes(c))) filters.categories = categories;
+    else errors.push(`category must be one or more of ${CATEGORIES.join(', ')}`);
+  }
+  const trip = single('trip');
+  if (trip) filters.tripId = trip;
+  if (single('photo') === '1') filters.hasPhoto = true;
+  const text = single('text');
+  if (text && text.trim()) filters.text = text.trim().toLowerCase();
+
+  const limitParam = single('limit');
+  const limit = limitParam === undefined ? DEFAULT_PAGE_SIZE : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) errors.push(`limit must be between 1 and ${MAX_PAGE_SIZE}`);
+
+  const cursorParam = single('cursor');
+  const after = cursorParam ? decodeCursor(cursorParam) : null;
+  if (cursorParam && !after) errors.push('cursor is not valid');
+
+  return { filters, limit, after, errors };
+};
+
+// 实时推送：每个账户一组 SSE 连接（多个标签页、多台设备），日志变化时推给这个账户的所有连接
+const eventStreams = new Map();
+
+const openEventStream = (req, res, user) => {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-store', Connection: 'keep-alive' });
+  res.write(': connected\n\n');
+  const stream = { res, tokenHash: hashToken(bearerToken(req)) };
+  if (!eventStreams.has(user.id)) eventStreams.set(user.id, new Set());
+  eventStreams.get(user.id).add(stream);
+  req.on('close', () => {
+    const streams = eventStreams.get(user.id);
+    if (!streams) return;
+    streams.delete(stream);
+    if (streams.size === 0) eventStreams.delete(user.id);
   });
 };
 
+/**
+ * 推送一条事件：entry.created / entry.updated 带完整日志，entry.deleted 带 id，
+ * entries.reset 表示批量变化（导入），客户端应重新加载
+ */
+const publish = (ownerId, event) => {
+  const streams = eventStreams.get(ownerId);
+  if (!streams) return;
+  const message = `data: ${JSON.stringify(event)}\n\n`;
+  streams.forEach(({ res }) => res.write(message));
+};
+
+// 退出登录后，用这个令牌打开的连接不应再收到数据
+const closeEventStreams = (tokenHash) => {
+  eventStreams.forEach(streams => streams.forEach(stream => {
+    if (stream.tokenHash === tokenHash) stream.res.end();
+  }));
+};
+
+setInterval(() => {
+  eventStreams.forEach(streams => streams.forEach(({ res }) => res.write(': ping\n\n')));
+}, EVENT_HEARTBEAT_MS).unref();
+
 const server = http.createServer(async (req, res) => {
   res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
   res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
 
   if (req.method === 'OPTIONS') { res.writeHead(204); res.end(); return; }
@@ -59,37 +721,422 @@ const server = http.createServer(async (req, res) => {
   console.log(`[${new Date().toLocaleTimeString()}] ${req.method} ${pathName}`);
 
   try {
+    const user = authenticate(req) || (pathName.startsWith('/media/') && req.method === 'GET' ? authenticateMedia(parsedUrl.query.key) : null);
+    if (!user && !isPublicRoute(pathName)) {
+      res.writeHead(401, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Sign in required' }));
+      return;
+    }
+    // 每个账户只能看到和修改自己的日志、旅程和分享链接
+
     if (pathName === '/ping' && req.method === 'GET') {
       res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ status: 'online', storage: 'filesystem' }));
+      res.end(JSON.stringify({ status: 'online', storage: 'sqlite', ai: ai.configured }));
+    }
+    else if (pathName === '/auth/register' && req.method === 'POST') {
+      const data = await getBody(req);
+      const problem = validateCredentials(data);
+      const username = problem ? null : data.username.trim().toLowerCase();
+      if (problem || storage.findUserByUsername(username)) {
+        res.writeHead(problem ? 400 : 409, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: problem || 'That username is taken' }));
+        return;
+      }
+      const salt = crypto.randomBytes(16).toString('hex');
+      const newUser = {
+        id: `user-${crypto.randomBytes(8).toString('hex')}`,
+        username,
+        salt,
+        passwordHash: hashPassword(data.password, salt),
+        createdAt: new Date().toISOString()
+      };
+      storage.insertUser(newUser);
+      if (storage.countUsers() === 1) claimUnownedData(newUser.id);
+      res.writeHead(201, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ...createSession(newUser.id), user: publicUser(newUser) }));
+    }
+    else if (pathName === '/auth/login' && req.method === 'POST') {
+      const data = await getBody(req);
+      const username = typeof data.username === 'string' ? data.username.trim().toLowerCase() : '';
+      const account = storage.findUserByUsername(username);
+      // 用户名不存在和密码错误返回同样的信息
+      if (!account || typeof data.password !== 'string' || !verifyPassword(account, data.password)) {
+        res.writeHead(401, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Wrong username or password' }));
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ...createSession(account.id), user: publicUser(account) }));
+    }
+    else if (pathName === '/auth/logout' && req.method === 'POST') {
+      const tokenHash = hashToken(bearerToken(req));
+      storage.deleteSession(tokenHash);
+      closeEventStreams(tokenHash);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ success: true }));
+    }
+    else if (pathName === '/auth/me' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(publicUser(user)));
+    }
+    else if (pathName === '/events' && req.method === 'GET') {
+      openEventStream(req, res, user);
+    }
+    else if (pathName === '/ai/summary' && req.method === 'POST') {
+      const { entryIds, placeNames, model, includePhotos } = await getBody(req);
+      if (!Array.isArray(entryIds) || !entryIds.every(id => typeof id === 'string')) throw aiError(400, 'invalid_request', 'entryIds must be a list of entry ids');
+      // 只用服务器上属于这个账户的日志，按时间排序
+      const entries = entryIds.map(id => storage.getEntry(user.id, id)).filter(Boolean)
+        .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+      const text = await ai.summary(user.id, { entries, placeNames, model, includePhotos: includePhotos === true });
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ text }));
+    }
+    else if (pathName === '/ai/story' && req.method === 'POST') {
+      const { entryIds, placeNames, tone, length, model, includePhotos } = await getBody(req);
+      if (!Array.isArray(entryIds) || !entryIds.every(id => typeof id === 'string')) throw aiError(400, 'invalid_request', 'entryIds must be a list of entry ids');
+      // 编号按客户端给的顺序，服务器上没有的日志跳过但不改变其他编号
+      const numbered = entryIds.map((id, index) => ({ number: index + 1, entry: storage.getEntry(user.id, id) })).filter(item => item.entry);
+      const disconnected = new AbortController();
+      res.on('close', () => disconnected.abort());
+      // 第一段文本到达之前出错仍按普通 JSON 错误返回；开始推送后只能在流里报错
+      const send = (message) => {
+        if (!res.headersSent) res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-store' });
+        res.write(`data: ${JSON.stringify(message)}\n\n`);
+      };
+      try {
+        await ai.story(user.id, { numbered, placeNames, tone, length, model, includePhotos: includePhotos === true }, (text) => send({ type: 'text', text }), disconnected.signal);
+        send({ type: 'done' });
+        res.end();
+      } catch (err) {
+        if (!res.headersSent) throw err;
+        if (!disconnected.signal.aborted) {
+          if (!err.expose) console.error('Story stream failed:', err);
+          send({ type: 'error', error: err.expose ? err.message : 'The story was cut off. Try again.', code: err.code || 'upstream_error' });
+        }
+        res.end();
+      }
+    }
+    else if (pathName === '/ai/chat' && req.method === 'POST') {
+      const { messages, entryIds, model } = await getBody(req);
+      if (!Array.isArray(entryIds) || !entryIds.every(id => typeof id === 'string')) throw aiError(400, 'invalid_request', 'entryIds must be a list of entry ids');
+      // 与游记相同：编号按客户端给的顺序，回答里的 [编号] 由客户端对应回日志
+      const numbered = entryIds.map((id, index) => ({ number: index + 1, entry: storage.getEntry(user.id, id) })).filter(item => item.entry);
+      const text = await ai.chat(user.id, { numbered, overview: journalOverview(user.id), messages, model });
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ text }));
+    }
+    else if (pathName === '/ai/enhance' && req.method === 'POST') {
+      const text = await ai.enhance(user.id, await getBody(req));
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ text }));
+    }
+    else if (pathName === '/ai/place-context' && req.method === 'POST') {
+      const text = await ai.placeContext(user.id, await getBody(req));
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ text }));
+    }
+    else if (pathName === '/ai/paint' && req.method === 'POST') {
+      const url = await ai.paint(user.id, await getBody(req));
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ url }));
     }
     else if (pathName === '/entries' && req.method === 'GET') {
+      const q = parsedUrl.query.q;
+      // 带 q 参数时返回排序后的搜索结果
+      if (typeof q === 'string') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(searchEntries(storage.listEntries(user.id), q)));
+        return;
+      }
+      // 不带筛选或分页参数时返回全部日志（离线同步使用）
+      if (!PAGE_PARAMS.some(name => name in parsedUrl.query)) {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(storage.listEntries(user.id)));
+        return;
+      }
+      const { filters, limit, after, errors } = parseEntryQuery(parsedUrl.query);
+      if (errors.length > 0) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: errors.join('; ') }));
+        return;
+      }
+      // 从新到旧分页；total 是所有页的总数，前端只加载了其中一部分
+      const page = storage.pageEntries(user.id, filters, { limit, after });
+      const total = storage.countEntries(user.id, filters);
       res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify(entries));
+      res.end(JSON.stringify({ entries: page.entries, nextCursor: page.next ? encodeCursor(page.next) : null, total }));
     }
     else if (pathName === '/entries' && req.method === 'POST') {
-      const data = await getBody(req);
+      // id、版本号等由服务器决定，客户端传来的会被丢弃
+      const { fields, errors } = validateEntryInput(withPhotos(await getBody(req)));
+      if (!fields) return sendInvalidEntry(res, errors);
+      const tripProblems = tripIdErrors(user.id, fields.tripId);
+      if (tripProblems.length > 0) return sendInvalidEntry(res, tripProblems);
+      const defaults = withDefaults(fields);
       const newEntry = {
-        id: Date.now().toString(),
-        ...data,
-        timestamp: data.timestamp || new Date().toISOString()
+        ...defaults,
+        photos: storeInlinePhotos(defaults.photos),
+        // 所有账户共用一张表，id 不能按时间生成
+        id: crypto.randomUUID(),
+        ownerId: user.id,
+        revision: 1,
+        updatedAt: new Date().toISOString()
       };
-      entries.push(newEntry);
-      saveDb();
+      storage.saveEntry(newEntry);
+      publish(user.id, { type: 'entry.created', entry: newEntry });
       res.writeHead(201, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify(newEntry));
     }
+    else if (pathName === '/entries/import' && req.method === 'POST') {
+      const { mode, entries: rows } = await getBody(req, MAX_IMPORT_BYTES);
+      if ((mode !== 'merge' && mode !== 'replace') || !Array.isArray(rows)) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Expected { mode: "merge" | "replace", entries: [...] }' }));
+        return;
+      }
+      const report = importEntries(rows, mode, user.id);
+      if (report.imported > 0 || mode === 'replace') publish(user.id, { type: 'entries.reset' });
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(report));
+    }
+    else if (pathName.startsWith('/entries/') && req.method === 'PATCH') {
+      const id = pathName.split('/').pop();
+      const { baseRevision, ...body } = await getBody(req);
+      if (baseRevision !== undefined && !Number.isInteger(baseRevision)) return sendInvalidEntry(res, ['baseRevision must be a whole number']);
+      // 旧客户端仍会发送 photoUrl
+      const { fields, errors } = validateEntryInput('photoUrl' in body ? withPhotos(body) : body, { partial: true });
+      if (!fields) return sendInvalidEntry(res, errors);
+      const tripProblems = tripIdErrors(user.id, fields.tripId);
+      if (tripProblems.length > 0) return sendInvalidEntry(res, tripProblems);
+      const data = fields.photos ? { ...fields, photos: normalizePhotos(fields.photos) } : fields;
+      const existing = storage.getEntry(user.id, id);
+      if (!existing) {
+        // 带版本号说明客户端见过这条日志，它已在别处被删除
+        const status = baseRevision !== undefined ? 409 : 404;
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: status === 409 ? 'Conflict' : 'Entry not found', current: null }));
+        return;
+      }
+      if (baseRevision !== undefined && baseRevision !== existing.revision) {
+        res.writeHead(409, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Conflict', current: existing }));
+        return;
+      }
+      const updatedEntry = {
+        ...existing,
+        ...data,
+        ...(data.photos ? { photos: storeInlinePhotos(data.photos) } : {}),
+        id,
+        ownerId: user.id,
+        revision: existing.revision + 1,
+        updatedAt: new Date().toISOString()
+      };
+      storage.saveEntry(updatedEntry);
+      publish(user.id, { type: 'entry.updated', entry: updatedEntry });
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(updatedEntry));
+    }
     else if (pathName.startsWith('/entries/') && req.method === 'DELETE') {
       const id = pathName.split('/').pop();
-      entries = entries.filter(e => e.id !== id);
-      saveDb();
+      const baseRevision = parsedUrl.query.baseRevision;
+      const existing = storage.getEntry(user.id, id);
+      if (existing && baseRevision !== undefined && Number(baseRevision) !== existing.revision) {
+        res.writeHead(409, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Conflict', current: existing }));
+        return;
+      }
+      storage.deleteEntry(user.id, id);
+      if (existing) publish(user.id, { type: 'entry.deleted', id });
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ success: true }));
+    }
+    else if (pathName === '/media' && req.method === 'POST') {
+      const parts = parseMultipart(await getRawBody(req, MAX_UPLOAD_BYTES), req.headers['content-type']);
+      const original = parts.file;
+      const ext = original && extensionFor(original.contentType.toLowerCase());
+      if (!ext) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Expected an image in the "file" field' }));
+        return;
+      }
+      // 文件名取自账户和内容的哈希：同步中断后重传同一张照片得到同一个地址，不会留下多余的副本
+      const id = crypto.createHash('sha256').update(user.id).update(original.data).digest('hex').slice(0, 32);
+      const file = `${id}.${ext}`;
+      if (!fs.existsSync(path.join(MEDIA_DIR, file))) {
+        fs.writeFileSync(path.join(MEDIA_DIR, file), original.data);
+        await writeThumbnail(file);
+      }
+      res.writeHead(201, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ url: `/media/${file}`, thumbnailUrl: `/media/${thumbnailName(file)}` }));
+    }
+    else if (pathName.startsWith('/media/') && req.method === 'GET') {
+      const name = path.basename(pathName);
+      const match = /^([\w-]+)(\.thumb)?\.(\w+)$/.exec(name);
+      let file = match && MEDIA_TYPES[match[3]] ? path.join(MEDIA_DIR, name) : null;
+      // 没有缩略图时退回原图，原图的扩展名只有几种可能，逐个检查
+      if (file && match[2] && !fs.existsSync(file)) {
+        const originalName = Object.keys(MEDIA_TYPES).map(ext => `${match[1]}.${ext}`).find(f => fs.existsSync(path.join(MEDIA_DIR, f)));
+        file = originalName ? path.join(MEDIA_DIR, originalName) : null;
+      }
+      // 文件名唯一且不会被覆盖，可以长期缓存；需要登录，所以只存在浏览器自己的缓存里
+      sendMediaFile(req, res, file, 'private, max-age=31536000, immutable');
+    }
+    else if (pathName === '/trips' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(storage.listTrips(user.id)));
+    }
+    else if (pathName === '/trips' && req.method === 'POST') {
+      const { fields, errors } = validateTripInput(await getBody(req));
+      if (!fields) return sendInvalidTrip(res, errors);
+      const newTrip = {
+        coverPhotoUrl: null,
+        color: '#A05C3B',
+        ...fields,
+        id: `trip-${crypto.randomUUID()}`,
+        ownerId: user.id
+      };
+      const problems = tripErrors(newTrip);
+      if (problems.length > 0) return sendInvalidTrip(res, problems);
+      const savedTrip = withStoredCover(newTrip);
+      storage.saveTrip(savedTrip);
+      res.writeHead(201, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(savedTrip));
+    }
+    else if (pathName.startsWith('/trips/') && req.method === 'PATCH') {
+      const id = pathName.split('/').pop();
+      const existing = storage.getTrip(user.id, id);
+      if (!existing) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Trip not found' }));
+        return;
+      }
+      const { fields, errors } = validateTripInput(await getBody(req), { partial: true });
+      if (!fields) return sendInvalidTrip(res, errors);
+      const updatedTrip = { ...existing, ...fields, id, ownerId: user.id };
+      const problems = tripErrors(updatedTrip);
+      if (problems.length > 0) return sendInvalidTrip(res, problems);
+      const savedTrip = withStoredCover(updatedTrip);
+      storage.saveTrip(savedTrip);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(savedTrip));
+    }
+    else if (pathName.startsWith('/trips/') && req.method === 'DELETE') {
+      const id = pathName.split('/').pop();
+      if (!storage.getTrip(user.id, id)) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Trip not found' }));
+        return;
+      }
+      const unlinked = storage.transaction(() => {
+        storage.deleteTrip(user.id, id);
+        // 删除旅程时保留日志，只解除关联
+        const updatedAt = new Date().toISOString();
+        const entries = storage.listEntries(user.id, { tripId: id }).map(e => ({ ...e, tripId: null, revision: e.revision + 1, updatedAt }));
+        entries.forEach(entry => storage.saveEntry(entry));
+        // 旅程的分享链接和游记随之失效
+        storage.deleteSharesForTrip(user.id, id);
+        storage.deleteStoriesForTrip(user.id, id);
+        return entries;
+      });
+      unlinked.forEach(entry => publish(user.id, { type: 'entry.updated', entry }));
+      // 返回解除关联后的日志，客户端据此更新版本号
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ success: true, entries: unlinked }));
+    }
+    else if (pathName === '/shares' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(storage.listShares(user.id)));
+    }
+    else if (pathName === '/shares' && req.method === 'POST') {
+      const data = await getBody(req);
+      const range = data.dateRange || { start: '', end: '' };
+      if (!isDay(range.start) || !isDay(range.end) || (data.tripId && !storage.getTrip(user.id, data.tripId))) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Unknown trip or invalid date range' }));
+        return;
+      }
+      const share = {
+        // 随机令牌，无法从旅程或时间推测
+        token: crypto.randomBytes(18).toString('base64url'),
+        title: typeof data.title === 'string' && data.title.trim() ? data.title.trim() : 'My Travels',
+        tripId: data.tripId || null,
+        dateRange: { start: range.start, end: range.end },
+        coarse: !!data.coarse,
+        story: typeof data.story === 'string' && data.story.trim() ? data.story.trim() : null,
+        ownerId: user.id,
+        createdAt: new Date().toISOString()
+      };
+      storage.saveShare(share);
+      res.writeHead(201, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(share));
+    }
+    else if (pathName.startsWith('/shares/') && req.method === 'DELETE') {
+      const token = pathName.split('/').pop();
+      storage.deleteShare(user.id, token);
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ success: true }));
     }
+    else if (pathName === '/stories' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(storage.listStories(user.id)));
+    }
+    else if (pathName === '/stories' && req.method === 'POST') {
+      const { story, errors } = validateStory(await getBody(req), user.id);
+      if (!story) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: `Invalid story: ${errors.join('; ')}`, details: errors }));
+        return;
+      }
+      storage.saveStory(story);
+      res.writeHead(201, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(story));
+    }
+    else if (pathName.startsWith('/stories/') && req.method === 'DELETE') {
+      storage.deleteStory(user.id, pathName.split('/').pop());
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ success: true }));
+    }
+    else if (/^\/public\/shares\/[^/]+\/media\/\w+\.jpg$/.test(pathName) && req.method === 'GET') {
+      const [, , , token, , name] = pathName.split('/');
+      const share = storage.getShare(token);
+      const file = share ? sharedThumbnailFile(share, name.replace(/\.jpg$/, '')) : null;
+      // 撤销分享后照片也随之失效，所以每次都要重新验证
+      sendMediaFile(req, res, file, 'no-cache');
+    }
+    else if (pathName.startsWith('/public/shares/') && req.method === 'GET') {
+      const token = pathName.split('/').pop();
+      const share = storage.getShare(token);
+      // 撤销后的链接和不存在的链接一样返回 404
+      if (!share) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'This link has been revoked or never existed' }));
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+      res.end(JSON.stringify(buildSharedTrip(share)));
+    }
     else {
       res.writeHead(404); res.end();
     }
   } catch (err) {
+    if (err.status === 413) {
+      res.writeHead(413, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Payload too large' }));
+      return;
+    }
+    // AI 等模块抛出的面向用户的错误，原样告诉客户端
+    if (err.expose) {
+      res.writeHead(err.status, { 'Content-Type': 'application/json', ...(err.retryAfter ? { 'Retry-After': String(err.retryAfter) } : {}) });
+      res.end(JSON.stringify({ error: err.message, code: err.code, ...(err.retryAfter ? { retryAfter: err.retryAfter } : {}) }));
+      return;
+    }
+    // getBody 里 JSON.parse 失败
+    if (err instanceof SyntaxError) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Request body is not valid JSON' }));
+      return;
+    }
     console.error('Server Error:', err);
     res.writeHead(500, { 'Content-Type': 'application/json' });
     res.end(JSON.stringify({ error: 'Internal Server Error' }));
@@ -99,5 +1146,7 @@ const server = http.createServer(async (req, res) => {
 server.listen(PORT, () => {
   console.log(`\n🌟 Luminary Pro Backend Active!`);
   console.log(`💾 Persistence: Data is being saved to ${DB_FILE}`);
-  console.log(`🔗 Local URL: http://localhost:${PORT}\n`);
+  if (!ai.configured) console.log('✨ AI: set GEMINI_API_KEY to turn on AI features');
+  console.log(`🔗 Local URL: http://localhost:${server.address().port}\n`);
+  backfillThumbnails().catch(err => console.error('Thumbnail backfill failed:', err));
 });
\ No newline at end of file
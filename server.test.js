@@ -0,0 +1,394 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { fileURLToPath } from 'url';
+
+// 每个测试文件启动一个独立的服务器：临时目录里的新数据库，随机端口，不连 Gemini
+const startServer = async () => {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'luminary-test-'));
+  const child = spawn(process.execPath, [fileURLToPath(new URL('./server.js', import.meta.url))], {
+    env: { ...process.env, PORT: '0', DATA_DIR: dataDir, GEMINI_API_KEY: '', API_KEY: '' }
+  });
+  let output = '';
+  const port = await new Promise((resolve, reject) => {
+    // 一直读取输出，否则管道写满后服务器会卡住
+    child.stdout.on('data', chunk => {
+      output += chunk;
+      const match = /localhost:(\d+)/.exec(output);
+      if (match) resolve(Number(match[1]));
+    });
+    child.stderr.on('data', chunk => { output += chunk; });
+    child.on('exit', code => reject(new Error(`Server exited with ${code}:\n${output}`)));
+  });
+  return {
+    dataDir,
+    baseUrl: `http://localhost:${port}`,
+    stop: () => {
+      child.kill();
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+  };
+};
+
+let server;
+
+// 发请求并解析 JSON；token 为空时不带登录信息
+const request = async (method, pathName, { token, body } = {}) => {
+  const response = await fetch(`${server.baseUrl}${pathName}`, {
+    method,
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {})
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined
+  });
+  const text = await response.text();
+  return { status: response.status, body: text && response.headers.get('content-type')?.includes('json') ? JSON.parse(text) : text };
+};
+
+const register = async (username) =>
+  (await request('POST', '/auth/register', { body: { username, password: 'secret123' } })).body.token;
+
+const newEntry = (fields = {}) => ({
+  latitude: 51.5,
+  longitude: -0.12,
+  timestamp: '2025-06-01T09:00:00.000Z',
+  note: 'A walk in the park',
+  category: 'Nature',
+  photos: [],
+  ...fields
+});
+
+let ann;
+
+beforeAll(async () => {
+  server = await startServer();
+  ann = await register('ann');
+}, 20000);
+
+afterAll(() => {
+  server?.stop();
+});
+
+describe('revision conflicts', () => {
+  const create = async () => (await request('POST', '/entries', { token: ann, body: newEntry() })).body;
+
+  it('applies an edit based on the current revision and bumps it', async () => {
+    const entry = await create();
+    const { status, body } = await request('PATCH', `/entries/${entry.id}`, { token: ann, body: { note: 'Edited', baseRevision: 1 } });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ id: entry.id, note: 'Edited', revision: 2 });
+  });
+
+  it('refuses a stale edit with 409 and the current copy', async () => {
+    const entry = await create();
+    await request('PATCH', `/entries/${entry.id}`, { token: ann, body: { note: 'From the phone', baseRevision: 1 } });
+    const { status, body } = await request('PATCH', `/entries/${entry.id}`, { token: ann, body: { note: 'From the laptop', baseRevision: 1 } });
+    expect(status).toBe(409);
+    expect(body.current).toMatchObject({ note: 'From the phone', revision: 2 });
+  });
+
+  it('lets an edit without a base revision win', async () => {
+    const entry = await create();
+    await request('PATCH', `/entries/${entry.id}`, { token: ann, body: { note: 'First', baseRevision: 1 } });
+    const { status, body } = await request('PATCH', `/entries/${entry.id}`, { token: ann, body: { note: 'Second' } });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ note: 'Second', revision: 3 });
+  });
+
+  it('reports an edit to a deleted entry as a conflict only when the client had seen it', async () => {
+    const entry = await create();
+    await request('DELETE', `/entries/${entry.id}`, { token: ann });
+    expect(await request('PATCH', `/entries/${entry.id}`, { token: ann, body: { note: 'Too late', baseRevision: 1 } }))
+      .toMatchObject({ status: 409, body: { current: null } });
+    expect((await request('PATCH', `/entries/${entry.id}`, { token: ann, body: { note: 'Too late' } })).status).toBe(404);
+  });
+
+  it('refuses a stale delete and keeps the entry', async () => {
+    const entry = await create();
+    await request('PATCH', `/entries/${entry.id}`, { token: ann, body: { note: 'Edited', baseRevision: 1 } });
+    expect(await request('DELETE', `/entries/${entry.id}?baseRevision=1`, { token: ann }))
+      .toMatchObject({ status: 409, body: { current: { revision: 2 } } });
+    expect((await request('DELETE', `/entries/${entry.id}?baseRevision=2`, { token: ann })).status).toBe(200);
+    expect((await request('GET', '/entries', { token: ann })).body.map(e => e.id)).not.toContain(entry.id);
+  });
+});
+
+describe('trips', () => {
+  const summer = { name: 'Summer', startDate: '2025-06-01', endDate: '2025-06-10', coverPhotoUrl: null, color: '#6B8F71' };
+
+  it('creates a trip from the known fields and assigns its id and owner', async () => {
+    const { status, body } = await request('POST', '/trips', { token: ann, body: { ...summer, id: 'mine', ownerId: 'someone-else' } });
+    expect(status).toBe(201);
+    expect(body).toMatchObject({ ...summer, ownerId: expect.not.stringMatching('someone-else') });
+    expect(body.id).toMatch(/^trip-/);
+  });
+
+  it('fills in a default colour and cover', async () => {
+    const { body } = await request('POST', '/trips', { token: ann, body: { name: 'Weekend', startDate: '2025-07-05', endDate: '2025-07-06' } });
+    expect(body).toMatchObject({ color: '#A05C3B', coverPhotoUrl: null });
+  });
+
+  it('refuses a trip with bad or unknown fields, listing every problem', async () => {
+    const { status, body } = await request('POST', '/trips', {
+      token: ann,
+      body: { name: 42, startDate: '1 June', endDate: '2025-02-30', color: 'red', admin: true }
+    });
+    expect(status).toBe(400);
+    expect(body.details).toEqual([
+      'name must be a string',
+      'startDate must be a YYYY-MM-DD date',
+      'endDate must be a YYYY-MM-DD date',
+      'color must be a colour such as #A05C3B',
+      'admin is not a known field'
+    ]);
+    expect((await request('POST', '/trips', { token: ann, body: { ...summer, name: '' } })).body.details).toEqual(['name must not be empty']);
+  });
+
+  it('refuses a trip that ends before it starts, also after a partial edit', async () => {
+    expect(await request('POST', '/trips', { token: ann, body: { ...summer, endDate: '2025-05-01' } }))
+      .toMatchObject({ status: 400, body: { details: ['endDate must not be before startDate'] } });
+    const { body: trip } = await request('POST', '/trips', { token: ann, body: summer });
+    expect((await request('PATCH', `/trips/${trip.id}`, { token: ann, body: { startDate: '2025-07-01' } })).status).toBe(400);
+    expect((await request('PATCH', `/trips/${trip.id}`, { token: ann, body: { color: 'blue' } })).status).toBe(400);
+    const { status, body } = await request('PATCH', `/trips/${trip.id}`, { token: ann, body: { name: 'Long summer', endDate: '2025-08-31' } });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ ...summer, id: trip.id, name: 'Long summer', endDate: '2025-08-31' });
+  });
+});
+
+describe('search', () => {
+  it('searches only the caller\'s own entries', async () => {
+    const bob = await register('bob-search');
+    await request('POST', '/entries', { token: ann, body: newEntry({ note: 'Ferry across the Bosphorus' }) });
+    await request('POST', '/entries', { token: bob, body: newEntry({ note: 'Bosphorus at night' }) });
+    const { status, body } = await request('GET', `/entries?q=${encodeURIComponent('bosph')}`, { token: ann });
+    expect(status).toBe(200);
+    expect(body.map(r => r.snippet)).toEqual(['Ferry across the Bosphorus']);
+  });
+});
+
+describe('media', () => {
+  // 上传一张真正的图片，服务器才能生成缩略图
+  const upload = async (token) => {
+    const image = await sharp({ create: { width: 8, height: 8, channels: 3, background: '#A05C3B' } }).jpeg().toBuffer();
+    const form = new FormData();
+    form.append('file', new Blob([image], { type: 'image/jpeg' }), 'photo');
+    const response = await fetch(`${server.baseUrl}/media`, { method: 'POST', headers: { Authorization: `Bearer ${token}` }, body: form });
+    return (await response.json()).url;
+  };
+
+  it('serves photos only to a signed-in session, by header or by media key', async () => {
+    const { body: session } = await request('POST', '/auth/login', { body: { username: 'ann', password: 'secret123' } });
+    const url = await upload(session.token);
+    expect((await request('GET', url)).status).toBe(401);
+    expect((await request('GET', `${url}?key=${'0'.repeat(64)}`)).status).toBe(401);
+    expect((await request('GET', url, { token: session.token })).status).toBe(200);
+
+    const response = await fetch(`${server.baseUrl}${url.replace('.jpg', '.thumb.jpg')}?key=${session.mediaKey}`);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('cache-control')).toMatch(/^private/);
+
+    // 注销后 mediaKey 随会话失效
+    await request('POST', '/auth/logout', { token: session.token });
+    expect((await request('GET', `${url}?key=${session.mediaKey}`)).status).toBe(401);
+  });
+
+  it('shows shared photos under share-scoped names only, for exact shares too', async () => {
+    const url = await upload(ann);
+    const { body: trip } = await request('POST', '/trips', { token: ann, body: { name: 'Photos', startDate: '2025-06-01', endDate: '2025-06-10' } });
+    await request('POST', '/entries', { token: ann, body: newEntry({ tripId: trip.id, photos: [{ url, caption: 'Harbour' }] }) });
+
+    for (const coarse of [false, true]) {
+      const { body: share } = await request('POST', '/shares', { token: ann, body: { tripId: trip.id, coarse } });
+      const { body: shared } = await request('GET', `/public/shares/${share.token}`);
+      const [photo] = shared.entries[0].photos;
+      expect(photo.url).toMatch(new RegExp(`^/public/shares/${share.token}/media/\\w+\\.jpg$`));
+      expect(JSON.stringify(shared)).not.toContain(path.basename(url, '.jpg'));
+      expect((await request('GET', photo.url)).status).toBe(200);
+
+      await request('DELETE', `/shares/${share.token}`, { token: ann });
+      expect((await request('GET', photo.url)).status).toBe(404);
+    }
+  });
+});
+
+describe('import', () => {
+  const importRows = (token, mode, entries) => request('POST', '/entries/import', { token, body: { mode, entries } });
+
+  it('merges a backup without duplicating traces it already has', async () => {
+    const carl = await register('carl-import');
+    const { body: first } = await request('POST', '/entries', { token: carl, body: newEntry() });
+    const { status, body } = await importRows(carl, 'merge', [
+      { ...newEntry(), id: first.id },
+      { ...newEntry({ note: 'Same spot, same time' }), id: 'another-id' },
+      newEntry({ timestamp: '2025-06-02T09:00:00.000Z' }),
+      { note: 'Broken' }
+    ]);
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ imported: 1, duplicates: 2, errors: [{ row: 4 }] });
+    expect(body.entries).toHaveLength(2);
+    expect((await request('GET', '/entries', { token: carl })).body).toHaveLength(2);
+  });
+
+  it('replaces the whole journal and gives a new id to one that belongs to someone else', async () => {
+    const dana = await register('dana-import');
+    const { body: anns } = await request('POST', '/entries', { token: ann, body: newEntry({ timestamp: '2025-06-05T09:00:00.000Z' }) });
+    await request('POST', '/entries', { token: dana, body: newEntry() });
+    const { body } = await importRows(dana, 'replace', [{ ...newEntry({ note: 'Restored' }), id: anns.id }]);
+    expect(body).toMatchObject({ imported: 1, duplicates: 0 });
+    const { body: journal } = await request('GET', '/entries', { token: dana });
+    expect(journal).toMatchObject([{ note: 'Restored', revision: 1 }]);
+    expect(journal[0].id).not.toBe(anns.id);
+    expect((await request('GET', '/entries', { token: ann })).body.find(e => e.id === anns.id)).toMatchObject({ note: 'A walk in the park' });
+  });
+
+  it('moves inline photos into the media store', async () => {
+    const erin = await register('erin-import');
+    const pixel = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+    const { body } = await importRows(erin, 'merge', [{ ...newEntry(), photoUrl: pixel }]);
+    expect(body.entries[0].photos).toMatchObject([{ url: expect.stringMatching(/^\/media\/[\w-]+\.png$/) }]);
+  });
+
+  it('refuses a body that is not an import', async () => {
+    expect((await importRows(ann, 'append', [])).status).toBe(400);
+    expect((await request('POST', '/entries/import', { token: ann, body: { mode: 'merge' } })).status).toBe(400);
+  });
+});
+
+describe('ownership', () => {
+  it("keeps one account out of another's entries and trips", async () => {
+    const fred = await register('fred-owner');
+    const { body: entry } = await request('POST', '/entries', { token: ann, body: newEntry({ note: 'Private' }) });
+    const { body: trip } = await request('POST', '/trips', { token: ann, body: { name: 'Private trip', startDate: '2025-06-01', endDate: '2025-06-02' } });
+
+    expect((await request('GET', '/entries', { token: fred })).body).toEqual([]);
+    expect((await request('PATCH', `/entries/${entry.id}`, { token: fred, body: { note: 'Mine now' } })).status).toBe(404);
+    await request('DELETE', `/entries/${entry.id}`, { token: fred });
+    expect((await request('PATCH', `/trips/${trip.id}`, { token: fred, body: { name: 'Mine now' } })).status).toBe(404);
+    expect((await request('GET', '/trips', { token: fred })).body).toEqual([]);
+
+    const { body: journal } = await request('GET', '/entries', { token: ann });
+    expect(journal.find(e => e.id === entry.id)).toMatchObject({ note: 'Private' });
+    expect((await request('GET', '/trips', { token: ann })).body.find(t => t.id === trip.id)).toMatchObject({ name: 'Private trip' });
+  });
+
+  it('asks for a sign-in on every private route', async () => {
+    for (const [method, route] of [['GET', '/entries'], ['POST', '/entries'], ['GET', '/trips'], ['GET', '/shares'], ['POST', '/media']]) {
+      expect((await request(method, route)).status).toBe(401);
+    }
+    expect((await request('GET', '/entries', { token: 'not-a-session' })).status).toBe(401);
+  });
+});
+
+describe('entry pages', () => {
+  let gwen;
+
+  beforeAll(async () => {
+    gwen = await register('gwen-pages');
+    for (const [day, category] of [[1, 'Food'], [2, 'Nature'], [3, 'Food'], [4, 'Culture'], [5, 'Food']]) {
+      await request('POST', '/entries', { token: gwen, body: newEntry({ timestamp: `2025-06-0${day}T09:00:00.000Z`, category, note: `Day ${day}` }) });
+    }
+  });
+
+  it('pages newest first with a cursor and a total for the whole filter', async () => {
+    const first = (await request('GET', '/entries?category=Food&limit=2', { token: gwen })).body;
+    expect(first.entries.map(e => e.note)).toEqual(['Day 5', 'Day 3']);
+    expect(first.total).toBe(3);
+    const second = (await request('GET', `/entries?category=Food&limit=2&cursor=${first.nextCursor}`, { token: gwen })).body;
+    expect(second.entries.map(e => e.note)).toEqual(['Day 1']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('takes exact instants for the date range, to exclusive', async () => {
+    const { body } = await request('GET', `/entries?from=2025-06-02T00:00:00Z&to=2025-06-04T00:00:00Z`, { token: gwen });
+    expect(body.entries.map(e => e.note)).toEqual(['Day 3', 'Day 2']);
+  });
+
+  it('refuses parameters it cannot read', async () => {
+    for (const query of ['bbox=1,2,3', 'from=June', 'to=2025-06-01T09:00:00', 'cursor=nonsense', 'limit=0']) {
+      expect((await request('GET', `/entries?${query}`, { token: gwen })).status).toBe(400);
+    }
+  });
+});
+
+describe('entry validation', () => {
+  const pixel = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+
+  it('files an entry only under a trip of the caller', async () => {
+    const hugo = await register('hugo-trips');
+    const { body: annsTrip } = await request('POST', '/trips', { token: ann, body: { name: 'Ann only', startDate: '2025-06-01', endDate: '2025-06-02' } });
+    const { body: hugosTrip } = await request('POST', '/trips', { token: hugo, body: { name: 'Hugo', startDate: '2025-06-01', endDate: '2025-06-02' } });
+
+    for (const tripId of [annsTrip.id, 'trip-missing']) {
+      expect(await request('POST', '/entries', { token: hugo, body: newEntry({ tripId }) }))
+        .toMatchObject({ status: 400, body: { details: ['tripId must be one of your trips'] } });
+    }
+    const { status, body: entry } = await request('POST', '/entries', { token: hugo, body: newEntry({ tripId: hugosTrip.id }) });
+    expect(status).toBe(201);
+    expect((await request('PATCH', `/entries/${entry.id}`, { token: hugo, body: { tripId: annsTrip.id } })).status).toBe(400);
+    expect((await request('PATCH', `/entries/${entry.id}`, { token: hugo, body: { tripId: null } })).body).toMatchObject({ tripId: null });
+  });
+
+  it('drops the link to a trip that is not the importer\'s', async () => {
+    const iris = await register('iris-trips');
+    const { body: annsTrip } = await request('POST', '/trips', { token: ann, body: { name: 'Ann only', startDate: '2025-06-01', endDate: '2025-06-02' } });
+    const { body } = await request('POST', '/entries/import', { token: iris, body: { mode: 'merge', entries: [newEntry({ tripId: annsTrip.id })] } });
+    expect(body.entries).toMatchObject([{ tripId: null }]);
+  });
+
+  it('stores inline photos and covers as media files and refuses other URLs', async () => {
+    const { body: created } = await request('POST', '/entries', { token: ann, body: newEntry({ photos: [{ url: pixel }] }) });
+    expect(created.photos).toMatchObject([{ url: expect.stringMatching(/^\/media\/[\w-]+\.png$/) }]);
+    const { body: edited } = await request('PATCH', `/entries/${created.id}`, { token: ann, body: { photos: [...created.photos, { url: pixel, caption: 'Again' }] } });
+    expect(edited.photos[1]).toMatchObject({ url: expect.stringMatching(/^\/media\//), caption: 'Again' });
+
+    const { body: trip } = await request('POST', '/trips', { token: ann, body: { name: 'Covered', startDate: '2025-06-01', endDate: '2025-06-02', coverPhotoUrl: pixel } });
+    expect(trip.coverPhotoUrl).toMatch(/^\/media\//);
+
+    for (const url of ['javascript:alert(1)', 'data:text/html;base64,PHNjcmlwdD4=']) {
+      expect((await request('POST', '/entries', { token: ann, body: newEntry({ photos: [{ url }] }) })).status).toBe(400);
+    }
+  });
+});
+
+describe('live updates', () => {
+  // 读事件流直到收到 count 条事件
+  const readEvents = async (response, count) => {
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+    const events = () => text.split('\n\n').filter(block => block.startsWith('data: ')).map(block => JSON.parse(block.slice(6)));
+    while (events().length < count) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      text += decoder.decode(value, { stream: true });
+    }
+    return events();
+  };
+
+  it("pushes an account's writes to its open streams only", async () => {
+    const jan = await register('jan-live');
+    const controller = new AbortController();
+    const annStream = await fetch(`${server.baseUrl}/events`, { headers: { Authorization: `Bearer ${ann}` }, signal: controller.signal });
+    const janStream = await fetch(`${server.baseUrl}/events`, { headers: { Authorization: `Bearer ${jan}` }, signal: controller.signal });
+    expect(annStream.headers.get('content-type')).toBe('text/event-stream');
+
+    const { body: created } = await request('POST', '/entries', { token: jan, body: newEntry({ note: 'Live' }) });
+    await request('PATCH', `/entries/${created.id}`, { token: jan, body: { note: 'Live, edited' } });
+    await request('DELETE', `/entries/${created.id}`, { token: jan });
+    expect(await readEvents(janStream, 3)).toMatchObject([
+      { type: 'entry.created', entry: { id: created.id, note: 'Live' } },
+      { type: 'entry.updated', entry: { id: created.id, note: 'Live, edited', revision: 2 } },
+      { type: 'entry.deleted', id: created.id }
+    ]);
+
+    // ann 的流里只会出现 ann 自己的改动
+    await request('POST', '/entries', { token: ann, body: newEntry({ note: 'Ann live' }) });
+    expect(await readEvents(annStream, 1)).toMatchObject([{ type: 'entry.created', entry: { note: 'Ann live' } }]);
+    controller.abort();
+  });
+});
@@ -0,0 +1,62 @@
+import { AIProviderId, AISettings, ChatTurn, JournalEntry, StoryOptions, Trip } from "../types";
+import { createServerProvider } from "./serverProvider";
+import { createLocalProvider } from "./localProvider";
+
+/**
+ * What the journal asks of an AI backend. Methods resolve to null when the
+ * provider had nothing to say and throw when it failed, preferably an AIError
+ * whose message the UI can show as is.
+ */
+export interface AIProvider {
+  id: AIProviderId;
+  summarize(entries: JournalEntry[]): Promise<string | null>;
+  enhanceNote(note: string, category: string): Promise<string | null>;
+  placeContext(lat: number, lng: number, placeName: string | null): Promise<string | null>;
+  paint(note: string): Promise<string | null>; // A /media/ path or an image data URL
+  // Streams a story in the layout described in services/story.ts, citing entries by their 1-based position
+  writeStory(entries: JournalEntry[], options: StoryOptions, onText: (text: string) => void, signal?: AbortSignal): Promise<void>;
+  // Answers the last user turn from the traces retrieved for it, citing them by their 1-based position
+  chat(messages: ChatTurn[], entries: JournalEntry[], trips: Trip[]): Promise<string | null>;
+}
+
+const SETTINGS_KEY = 'luminary_ai_settings';
+
+export const AI_PROVIDERS: { id: AIProviderId; label: string; description: string }[] = [
+  { id: 'gemini', label: 'Gemini', description: 'Google Gemini, called through your journal server. Needs a connection and a key set up on the server.' },
+  { id: 'local', label: 'Local', description: 'Simple built-in writing and painting. Works offline, gives the same answer every time.' }
+];
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: 'gemini',
+  textModel: 'gemini-3-flash-preview',
+  imageModel: 'gemini-2.5-flash-image',
+  includePhotos: false
+};
+
+export const getAISettings = (): AISettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    const settings = { ...DEFAULT_AI_SETTINGS, ...stored };
+    return AI_PROVIDERS.some(p => p.id === settings.provider) ? settings : DEFAULT_AI_SETTINGS;
+  } catch {
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const saveAISettings = (settings: AISettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  cached = null;
+};
+
+let cached: { key: string; provider: AIProvider } | null = null;
+
+export const createAIProvider = (settings: AISettings): AIProvider =>
+  settings.provider === 'gemini' ? createServerProvider(settings) : createLocalProvider();
+
+// The provider chosen in the AI settings, reused until they change
+export const getAIProvider = (): AIProvider => {
+  const settings = getAISettings();
+  const key = JSON.stringify(settings);
+  if (cached?.key !== key) cached = { key, provider: createAIProvider(settings) };
+  return cached.provider;
+};
@@ -0,0 +1,255 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Category, JournalEntry, Trip } from '../types';
+
+// api.ts 加载时就会用到这些浏览器对象：localStorage 用内存实现，不开 BroadcastChannel
+vi.hoisted(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => { store.set(key, String(value)); },
+    removeItem: (key: string) => { store.delete(key); },
+    clear: () => store.clear()
+  });
+  vi.stubGlobal('BroadcastChannel', undefined);
+  vi.stubGlobal('navigator', { onLine: true });
+});
+
+import { ApiService, ConflictError } from './api';
+
+const STORAGE_KEY = 'luminary_journal_entries';
+
+type Route = (method: string, path: string, body: Record<string, unknown>) => Response | Promise<Response>;
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const offline = () => { throw new TypeError('fetch failed'); };
+
+// 模拟服务器：每个请求交给 route，记下方法和路径
+let requests: string[] = [];
+const serve = (route: Route) => {
+  requests = [];
+  vi.stubGlobal('fetch', vi.fn(async (input: string, init: RequestInit = {}) => {
+    const method = init.method ?? 'GET';
+    const { pathname, search } = new URL(input);
+    requests.push(`${method} ${pathname}${search}`);
+    return route(method, pathname, typeof init.body === 'string' ? JSON.parse(init.body) : {});
+  }));
+};
+
+const entry = (id: string, fields: Partial<JournalEntry> = {}): JournalEntry => ({
+  id,
+  latitude: 51.5,
+  longitude: -0.12,
+  timestamp: '2025-06-01T09:00:00.000Z',
+  dateDisplay: 'Jun 1, 2025',
+  note: 'A walk',
+  category: Category.Nature,
+  photos: [],
+  placeName: null,
+  tripId: null,
+  revision: 1,
+  ...fields
+});
+
+// createEntry 的参数：去掉服务器管理的字段
+const input = (fields: Partial<JournalEntry> = {}) => {
+  const { id, revision, updatedAt, ...rest } = entry('input', fields);
+  return rest;
+};
+
+const trip = (id: string, fields: Partial<Trip> = {}): Trip => ({
+  id,
+  name: 'Summer',
+  startDate: '2025-06-01',
+  endDate: '2025-06-10',
+  coverPhotoUrl: null,
+  color: '#A05C3B',
+  ...fields
+});
+
+const cacheTrips = (trips: Trip[]) => localStorage.setItem('luminary_trips', JSON.stringify(trips));
+const cachedTripNames = async () => (await ApiService.getLocalTrips()).map(t => t.name);
+
+const cache = (entries: JournalEntry[]) => localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+const cachedIds = async () => (await ApiService.getLocalEntries()).map(e => e.id);
+
+beforeEach(() => {
+  localStorage.clear();
+  localStorage.setItem('luminary_session', JSON.stringify({ token: 'token', mediaKey: 'key', user: { id: 'ann', username: 'ann', createdAt: '' } }));
+});
+
+describe('deleteEntry', () => {
+  it('deletes locally and queues the delete when the server is unreachable', async () => {
+    cache([entry('e1', { revision: 3 })]);
+    serve(offline);
+    await ApiService.deleteEntry('e1');
+    expect(await cachedIds()).toEqual([]);
+    expect(ApiService.getPendingOperations()).toMatchObject([{ type: 'delete', entryId: 'e1', baseRevision: 3 }]);
+  });
+
+  it('reports a delete the server refuses and keeps the entry', async () => {
+    cache([entry('e1')]);
+    for (const status of [401, 403, 500]) {
+      serve(() => json(status, { error: 'No' }));
+      await expect(ApiService.deleteEntry('e1')).rejects.toThrow();
+      expect(await cachedIds()).toEqual(['e1']);
+      expect(ApiService.getPendingCount()).toBe(0);
+    }
+  });
+
+  it('drops the queued create of an entry that never reached the server', async () => {
+    serve(offline);
+    const saved = await ApiService.createEntry(input());
+    expect(ApiService.getPendingOperations()).toMatchObject([{ type: 'create', entryId: saved.id }]);
+    await ApiService.deleteEntry(saved.id);
+    expect(await cachedIds()).toEqual([]);
+    expect(ApiService.getPendingCount()).toBe(0);
+  });
+});
+
+describe('syncPendingOperations', () => {
+  it('replays queued writes in order and swaps local ids for server ids', async () => {
+    serve(offline);
+    const created = await ApiService.createEntry(input({ note: 'first' }));
+    await ApiService.updateEntry(created.id, { note: 'edited' });
+    cache([...(await ApiService.getLocalEntries()), entry('e2', { revision: 4 })]);
+    await ApiService.deleteEntry('e2');
+
+    serve((method, path, body) => method === 'POST' ? json(201, { ...body, id: 'server-1', revision: 1 }) : json(200, { success: true }));
+    const result = await ApiService.syncPendingOperations();
+    expect(result).toMatchObject({ synced: 2, remaining: 0, conflicts: 0, idMap: { [created.id]: 'server-1' } });
+    expect(requests).toEqual(['POST /entries', 'DELETE /entries/e2?baseRevision=4']);
+    expect(await ApiService.getLocalEntries()).toMatchObject([{ id: 'server-1', note: 'edited' }]);
+  });
+
+  it('keeps the rest of the queue when the connection drops or the session expires', async () => {
+    cache([entry('e1'), entry('e2')]);
+    serve(offline);
+    await ApiService.deleteEntry('e1');
+    await ApiService.deleteEntry('e2');
+
+    serve((_method, path) => path === '/entries/e1' ? json(200, { success: true }) : offline());
+    expect(await ApiService.syncPendingOperations()).toMatchObject({ synced: 1, remaining: 1 });
+
+    serve(() => json(401, { error: 'Sign in required' }));
+    expect(await ApiService.syncPendingOperations()).toMatchObject({ synced: 0, remaining: 1 });
+    expect(ApiService.getPendingOperations()).toMatchObject([{ type: 'delete', entryId: 'e2' }]);
+  });
+});
+
+describe('revision conflicts', () => {
+  it('sends the cached revision and records a conflict when the server has moved on', async () => {
+    cache([entry('e1', { revision: 2, note: 'Mine' })]);
+    let sent: Record<string, unknown> = {};
+    serve((_method, _path, body) => {
+      sent = body;
+      return json(409, { error: 'Conflict', current: entry('e1', { revision: 3, note: 'Theirs' }) });
+    });
+    await expect(ApiService.updateEntry('e1', { note: 'Mine, edited' })).rejects.toBeInstanceOf(ConflictError);
+    expect(sent).toMatchObject({ note: 'Mine, edited', baseRevision: 2 });
+    expect(ApiService.getConflicts()).toMatchObject([{ entryId: 'e1', local: { note: 'Mine, edited' }, remote: { note: 'Theirs', revision: 3 } }]);
+    expect(ApiService.getPendingCount()).toBe(0);
+  });
+
+  it('turns a replayed edit the server refuses into a conflict and moves on', async () => {
+    cache([entry('e1', { revision: 2 }), entry('e2')]);
+    serve(offline);
+    await ApiService.updateEntry('e1', { note: 'Offline edit' });
+    await ApiService.deleteEntry('e2');
+
+    serve((method, path) => path === '/entries/e1' ? json(409, { error: 'Conflict', current: null }) : json(200, { success: true }));
+    expect(await ApiService.syncPendingOperations()).toMatchObject({ synced: 2, remaining: 0, conflicts: 1 });
+    expect(ApiService.getConflicts()).toMatchObject([{ entryId: 'e1', local: { note: 'Offline edit' }, remote: null }]);
+  });
+});
+
+describe('trips', () => {
+  it('queues trip changes when the server is unreachable', async () => {
+    cacheTrips([trip('trip-1'), trip('trip-2')]);
+    cache([entry('e1', { tripId: 'trip-2' })]);
+    serve(offline);
+    await ApiService.updateTrip('trip-1', { name: 'Autumn' });
+    expect(await ApiService.deleteTrip('trip-2')).toMatchObject([{ id: 'e1', tripId: null }]);
+    expect(await cachedTripNames()).toEqual(['Autumn']);
+    expect(ApiService.getPendingOperations()).toMatchObject([
+      { type: 'updateTrip', tripId: 'trip-1', payload: { name: 'Autumn' } },
+      { type: 'deleteTrip', tripId: 'trip-2' }
+    ]);
+  });
+
+  it('reports trip changes the server refuses and changes nothing locally', async () => {
+    cacheTrips([trip('trip-1')]);
+    cache([entry('e1', { tripId: 'trip-1' })]);
+    for (const status of [400, 401, 404, 500]) {
+      serve(() => json(status, { error: 'No' }));
+      await expect(ApiService.createTrip({ ...trip('ignored'), name: 'New' })).rejects.toThrow();
+      await expect(ApiService.updateTrip('trip-1', { name: 'Autumn' })).rejects.toThrow();
+      if (status !== 404) await expect(ApiService.deleteTrip('trip-1')).rejects.toThrow();
+    }
+    expect(await cachedTripNames()).toEqual(['Summer']);
+    expect(await ApiService.getLocalEntries()).toMatchObject([{ id: 'e1', tripId: 'trip-1' }]);
+    expect(ApiService.getPendingCount()).toBe(0);
+  });
+
+  it('treats a trip already deleted on the server as deleted', async () => {
+    cacheTrips([trip('trip-1')]);
+    serve(() => json(404, { error: 'Trip not found' }));
+    await ApiService.deleteTrip('trip-1');
+    expect(await cachedTripNames()).toEqual([]);
+    expect(ApiService.getPendingCount()).toBe(0);
+  });
+
+  it('folds edits to a trip that never reached the server into its queued create', async () => {
+    serve(offline);
+    const created = await ApiService.createTrip({ ...trip('ignored'), name: 'Draft' });
+    serve(() => json(500, { error: 'Should not be called' }));
+    await ApiService.updateTrip(created.id, { name: 'Renamed' });
+    expect(requests).toEqual([]);
+    expect(ApiService.getPendingOperations()).toMatchObject([{ type: 'createTrip', tripId: created.id, payload: { name: 'Renamed' } }]);
+  });
+});
+
+describe('media URLs', () => {
+  it('signs /media/ links for the page but not for exported files', () => {
+    expect(ApiService.mediaUrl('/media/a.png')).toMatch(/\/media\/a\.png\?key=key$/);
+    expect(ApiService.thumbnailUrl('/media/a.png')).toMatch(/\/media\/a\.thumb\.jpg\?key=key$/);
+    expect(ApiService.exportMediaUrl('/media/a.png')).toMatch(/^https?:\/\/[^?]+\/media\/a\.png$/);
+    expect(ApiService.mediaUrl('/public/shares/abc/media/def.jpg')).not.toContain('key=');
+    expect(ApiService.mediaUrl('data:image/png;base64,AAAA')).toBe('data:image/png;base64,AAAA');
+  });
+
+  it('asks sessions from before media keys to sign in again', () => {
+    expect(ApiService.getCurrentUser()).toMatchObject({ id: 'ann' });
+    localStorage.setItem('luminary_session', JSON.stringify({ token: 'token', user: { id: 'ann', username: 'ann', createdAt: '' } }));
+    expect(ApiService.getCurrentUser()).toBeNull();
+  });
+});
+
+describe('live updates', () => {
+  it('keeps one copy when the push for a replayed create arrives before its response', async () => {
+    serve(offline);
+    const created = await ApiService.createEntry(input({ note: 'Offline' }));
+
+    serve((_method, _path, body) => {
+      const saved = { ...body, id: 'server-1', revision: 1 } as unknown as JournalEntry;
+      // 服务器先推送 entry.created，再返回 POST 的响应
+      expect(ApiService.applyEntryEvent({ type: 'entry.created', entry: saved })).toBe(true);
+      return json(201, saved);
+    });
+    await ApiService.syncPendingOperations();
+    expect(await cachedIds()).toEqual(['server-1']);
+    expect(created.id).not.toBe('server-1');
+  });
+
+  it('applies pushes from other devices but leaves entries with unsynced changes alone', async () => {
+    cache([entry('e1', { note: 'Mine' }), entry('e2')]);
+    serve(offline);
+    await ApiService.updateEntry('e1', { note: 'Mine, offline' });
+
+    expect(ApiService.applyEntryEvent({ type: 'entry.updated', entry: entry('e1', { note: 'Theirs', revision: 2 }) })).toBe(false);
+    expect(ApiService.applyEntryEvent({ type: 'entry.created', entry: entry('e3') })).toBe(true);
+    expect(ApiService.applyEntryEvent({ type: 'entry.deleted', id: 'e2' })).toBe(true);
+    expect(await ApiService.getLocalEntries()).toMatchObject([{ id: 'e1', note: 'Mine, offline' }, { id: 'e3' }]);
+  });
+});
@@ -1,10 +1,267 @@
-import { JournalEntry, Category } from '../types';
+import { JournalEntry, JournalEntryInput, JournalEntryPatch, ApiErrorBody, AIErrorCode, EntryEvent, Category, PendingOperation, TripOperation, SyncResult, EntryConflict, Trip, SearchResult, ImportMode, ImportReport, Share, SharedTrip, User, AuthSession, EntryQuery, EntryPage, StoryOptions, TravelStory, ChatTurn } from '../types';
+import { createSearchIndex, searchIndex, SearchIndex } from '../shared/search.mjs';
+import { dataUrlToBlob, blobToDataUrl, withPhotos } from './media';
+import { analyzeImport } from './importValidation';
+import { validateEntryInput } from './entrySchema';
+import { compareNewestFirst, matchesQuery, mergeEntries, toQueryString } from './entryQuery';
+import { storyScope } from './story';
+import { clearGeocodeCache } from './geocoding';
 
 const BASE_URL = 'http://localhost:3001';
 const API_URL = `${BASE_URL}/entries`;
+const TRIPS_URL = `${BASE_URL}/trips`;
+const MEDIA_URL = `${BASE_URL}/media`;
+const SHARES_URL = `${BASE_URL}/shares`;
+const AUTH_URL = `${BASE_URL}/auth`;
+const EVENTS_URL = `${BASE_URL}/events`;
+const AI_URL = `${BASE_URL}/ai`;
+const STORIES_URL = `${BASE_URL}/stories`;
 const STORAGE_KEY = 'luminary_journal_entries';
+const TRIPS_KEY = 'luminary_trips';
+const STORIES_KEY = 'luminary_stories';
+const OUTBOX_KEY = 'luminary_pending_ops';
+const CONFLICTS_KEY = 'luminary_conflicts';
+const SESSION_KEY = 'luminary_session';
+// 本地缓存属于哪个账户；换账户登录时清空，避免把别人的离线修改同步到自己名下
+const CACHE_OWNER_KEY = 'luminary_cache_owner';
+// 同一浏览器里的其他标签页通过它收到离线改动
+const TAB_CHANNEL = 'luminary_journal';
+// 多个标签页共用一个离线队列，回放时加锁避免重复提交
+const SYNC_LOCK = 'luminary_sync';
+
+/**
+ * 服务器以 409 拒绝了过期的写入
+ */
+export class ConflictError extends Error {
+  constructor(public conflict: EntryConflict) {
+    super(`Entry ${conflict.entryId} was changed on another device`);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * 日志字段不符合 schema/journalEntry.json，服务器会以 400 拒绝
+ */
+export class ValidationError extends Error {
+  constructor(public details: string[]) {
+    super(`This trace can't be saved: ${details.join('; ')}`);
+    this.name = 'ValidationError';
+  }
+}
+
+// 发送前按服务器的规则检查，离线时也不会把无效数据放进队列
+const assertValidEntry = (fields: unknown, partial = false) => {
+  const { errors } = validateEntryInput(fields, { partial });
+  if (errors.length > 0) throw new ValidationError(errors);
+};
+
+const readError = async (response: Response): Promise<ApiErrorBody> =>
+  response.json().catch(() => ({ error: response.statusText }));
+
+// 只有连不上服务器才走离线队列（fetch 抛出 TypeError）；服务器返回的错误照常抛给调用方
+const isOffline = (error: unknown) =>
+  error instanceof TypeError || (typeof navigator !== 'undefined' && navigator.onLine === false);
+
+/**
+ * AI 请求失败；message 可以直接显示给用户
+ */
+export class AIError extends Error {
+  constructor(public code: AIErrorCode, message: string, public retryAfter?: number) {
+    super(message);
+    this.name = 'AIError';
+  }
+}
+
+const toAIError = async (response: Response) => {
+  const { error, code, retryAfter } = await readError(response);
+  return new AIError(code ?? 'upstream_error', error || 'The AI request failed.', retryAfter);
+};
+
+// AI 请求都经服务器转发，Gemini 密钥只在服务器上
+const postAI = async (path: string, body: object, signal?: AbortSignal): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await authorizedFetch(`${AI_URL}/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new AIError('offline', 'AI features need a connection to the journal server.');
+  }
+  if (!response.ok) throw await toAIError(response);
+  return response;
+};
+
+const requestAI = async <T>(path: string, body: object): Promise<T> => (await postAI(path, body)).json();
+
+/**
+ * 逐条读取 text/event-stream 里的 data 消息，直到流结束；以冒号开头的是心跳
+ */
+const readEventStream = async (body: NonNullable<Response['body']>, onMessage: (data: string) => void) => {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += value;
+    const messages = buffer.split('\n\n');
+    buffer = messages.pop()!;
+    for (const message of messages) {
+      const data = message.split('\n').filter(line => line.startsWith('data:')).map(line => line.slice(5).trim()).join('\n');
+      if (data) onMessage(data);
+    }
+  }
+};
+
+// 写总结和游记时的模型，以及是否让服务器附上日志照片
+// placeNames：entryId → 客户端临时查到的地名，只用于这次请求，不会写回日志
+type AITextOptions = { model?: string; includePhotos?: boolean; placeNames?: Record<string, string> };
+
+// POST /ai/story 推送的消息
+type StoryStreamMessage =
+  | { type: 'text'; text: string }
+  | { type: 'done' }
+  | { type: 'error'; error: string; code?: AIErrorCode };
+
+const tabChannel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(TAB_CHANNEL) : null;
+
+const broadcast = (event: EntryEvent) => tabChannel?.postMessage(event);
+
+// 同一时间只允许一次回放
+let syncInFlight: Promise<SyncResult> | null = null;
+
+// 离线搜索索引，本地缓存变化时重建
+let localIndex: { source: string; index: SearchIndex } | null = null;
+
+const isLocalId = (id: string) => id.startsWith('local-');
+
+const unauthorizedListeners = new Set<() => void>();
+
+const readSession = (): AuthSession | null => {
+  const stored = localStorage.getItem(SESSION_KEY);
+  return stored ? JSON.parse(stored) : null;
+};
+
+const withMediaKey = (url: string) => {
+  const session = readSession();
+  return session?.mediaKey ? `${url}?key=${session.mediaKey}` : url;
+};
+
+/**
+ * 带上登录令牌的 fetch；服务器返回 401 时清掉会话并通知界面回到登录页
+ */
+const authorizedFetch = async (input: string, init: RequestInit = {}): Promise<Response> => {
+  const session = readSession();
+  const headers = new Headers(init.headers);
+  if (session) headers.set('Authorization', `Bearer ${session.token}`);
+  const response = await fetch(input, { ...init, headers });
+  if (response.status === 401 && session) {
+    localStorage.removeItem(SESSION_KEY);
+    unauthorizedListeners.forEach(listener => listener());
+  }
+  return response;
+};
+
+const authenticate = async (path: 'login' | 'register', username: string, password: string): Promise<User> => {
+  const response = await fetch(`${AUTH_URL}/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password }),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || 'Could not sign in');
+  const session: AuthSession = data;
+  // 没有记录归属的缓存来自启用账户之前，交给这次登录的账户
+  const cacheOwner = localStorage.getItem(CACHE_OWNER_KEY);
+  if (cacheOwner && cacheOwner !== session.user.id) {
+    [STORAGE_KEY, TRIPS_KEY, STORIES_KEY, OUTBOX_KEY, CONFLICTS_KEY].forEach(key => localStorage.removeItem(key));
+    clearGeocodeCache();
+  }
+  localStorage.setItem(CACHE_OWNER_KEY, session.user.id);
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  return session.user;
+};
+
+// 旧版本排队的操作里只有 photoUrl
+const migrateOperation = (op: PendingOperation): PendingOperation => {
+  if (!(op.type === 'create' || op.type === 'update') || !('photoUrl' in op.payload)) return op;
+  return { ...op, payload: withPhotos(op.payload as { photoUrl?: string | null }) } as PendingOperation;
+};
+
+/**
+ * 把尚未同步的离线操作叠加到服务器数据上，避免刷新时丢失离线修改
+ */
+const applyPendingOperations = (entries: JournalEntry[], ops: PendingOperation[]): JournalEntry[] => {
+  let result = [...entries];
+  for (const op of ops) {
+    if (op.type === 'create') {
+      if (!result.some(e => e.id === op.entryId)) result.push({ ...op.payload, id: op.entryId } as JournalEntry);
+    } else if (op.type === 'update') {
+      result = result.map(e => e.id === op.entryId ? { ...e, ...op.payload, id: e.id } : e);
+    } else if (op.type === 'delete') {
+      result = result.filter(e => e.id !== op.entryId);
+    }
+  }
+  return result;
+};
+
+const isTripOperation = (op: PendingOperation): op is TripOperation =>
+  op.type === 'createTrip' || op.type === 'updateTrip' || op.type === 'deleteTrip';
+
+// 离线队列里的旅程操作叠加到服务器返回的旅程列表上
+const applyPendingTripOperations = (trips: Trip[], ops: PendingOperation[]): Trip[] => {
+  let result = [...trips];
+  for (const op of ops) {
+    if (op.type === 'createTrip') {
+      if (!result.some(t => t.id === op.tripId)) result.push({ ...op.payload, id: op.tripId });
+    } else if (op.type === 'updateTrip') {
+      result = result.map(t => t.id === op.tripId ? { ...t, ...op.payload, id: t.id } : t);
+    } else if (op.type === 'deleteTrip') {
+      result = result.filter(t => t.id !== op.tripId);
+    }
+  }
+  return result;
+};
 
 export const ApiService = {
+  // --- 账户 (Auth) ---
+  getCurrentUser(): User | null {
+    // 早于 mediaKey 的会话加载不了照片，重新登录一次
+    const session = readSession();
+    return session?.mediaKey ? session.user : null;
+  },
+
+  signIn(username: string, password: string): Promise<User> {
+    return authenticate('login', username, password);
+  },
+
+  register(username: string, password: string): Promise<User> {
+    return authenticate('register', username, password);
+  },
+
+  /**
+   * 退出登录；本地缓存保留给同一账户下次登录时继续同步
+   */
+  async signOut(): Promise<void> {
+    try {
+      await authorizedFetch(`${AUTH_URL}/logout`, { method: 'POST' });
+    } catch {
+      console.warn("Signing out locally; the server session will expire on its own");
+    }
+    localStorage.removeItem(SESSION_KEY);
+  },
+
+  /**
+   * 会话失效（过期或被注销）时调用；返回取消订阅的函数
+   */
+  onUnauthorized(listener: () => void): () => void {
+    unauthorizedListeners.add(listener);
+    return () => unauthorizedListeners.delete(listener);
+  },
+
   /**
    * 快速探测后端状态
    */
@@ -25,78 +282,868 @@ export const ApiService = {
    */
   async getEntries(): Promise<JournalEntry[]> {
     try {
-      const response = await fetch(API_URL);
+      const response = await authorizedFetch(API_URL);
       if (!response.ok) throw new Error('Server returned error');
-      const data = await response.json();
-      // 同步到本地缓存一份
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-      return data;
+      const data: JournalEntry[] = (await response.json()).map(withPhotos);
+      // 同步到本地缓存一份（保留尚未上传的离线修改）
+      const merged = applyPendingOperations(data, this.getPendingOperations());
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(merged));
+      return merged;
     } catch {
       console.warn("Using local storage fallback for GET");
       return this.getLocalEntries();
     }
   },
 
+  /**
+   * 按条件分页获取日志（从新到旧），结果并入本地缓存；离线时从缓存里一次性返回全部匹配项
+   */
+  async getEntriesPage(query: EntryQuery): Promise<EntryPage> {
+    let page: EntryPage;
+    try {
+      const response = await authorizedFetch(`${API_URL}?${toQueryString(query)}`);
+      if (!response.ok) throw new Error('Server returned error');
+      const data = await response.json();
+      page = { entries: data.entries.map(withPhotos), nextCursor: data.nextCursor, total: data.total };
+    } catch {
+      console.warn("Using local storage fallback for paged GET");
+      const matching = (await this.getLocalEntries()).filter(e => matchesQuery(e, query)).sort(compareNewestFirst);
+      return { entries: matching, nextCursor: null, total: matching.length };
+    }
+
+    // 新建操作不属于任何一页，只叠加修改和删除
+    const ops = this.getPendingOperations();
+    const entries = applyPendingOperations(page.entries, ops.filter(op => op.type !== 'create'));
+    const touched = new Set(ops.flatMap(op => isTripOperation(op) ? [] : [op.entryId]));
+
+    // 这一页覆盖的时间段里，缓存中有而服务器没返回的日志已在别处删除
+    const times = page.entries.map(e => new Date(e.timestamp).getTime());
+    const upper = query.cursor ? times[0] ?? -Infinity : Infinity;
+    const lower = page.nextCursor ? times[times.length - 1] ?? Infinity : -Infinity;
+    const returned = new Set(page.entries.map(e => e.id));
+    const cached = (await this.getLocalEntries()).filter(e => {
+      if (returned.has(e.id) || isLocalId(e.id) || touched.has(e.id) || !matchesQuery(e, query)) return true;
+      const t = new Date(e.timestamp).getTime();
+      return !(t > lower && t < upper);
+    });
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(mergeEntries(cached, entries)));
+    // 离线新建、还没上传的日志服务器不知道
+    const unsynced = ops.filter(op => op.type === 'create' && matchesQuery({ ...op.payload, id: op.entryId }, query)).length;
+    return { entries, nextCursor: page.nextCursor, total: page.total + unsynced };
+  },
+
+  /**
+   * 符合条件的日志总数（包括还没加载的页）
+   */
+  async countEntries(query: EntryQuery): Promise<number> {
+    return (await this.getEntriesPage({ ...query, limit: 1 })).total;
+  },
+
+  // --- 照片 (Media) ---
+  /**
+   * 上传照片（缩略图由服务器生成），返回保存在 photos[].url 里的 /media/ 路径
+   */
+  async uploadMedia(source: Blob | string): Promise<string> {
+    const file = typeof source === 'string' ? dataUrlToBlob(source) : source;
+    const form = new FormData();
+    form.append('file', file, 'photo');
+    const response = await authorizedFetch(MEDIA_URL, { method: 'POST', body: form });
+    if (!response.ok) throw new Error('Upload failed');
+    const { url } = await response.json();
+    return url;
+  },
+
+  /**
+   * 离线时先以 data URL 保存，同步时再上传
+   */
+  async storePhoto(source: Blob | string): Promise<string> {
+    try {
+      return await this.uploadMedia(source);
+    } catch {
+      console.warn("Keeping photo inline until the backend is reachable");
+      return typeof source === 'string' ? source : blobToDataUrl(source);
+    }
+  },
+
+  /**
+   * 页面里显示用的地址：/media/ 需要登录，带上会话的 mediaKey
+   */
+  mediaUrl(url: string | null | undefined): string | undefined {
+    if (!url) return undefined;
+    if (url.startsWith('/media/')) return withMediaKey(`${BASE_URL}${url}`);
+    return url.startsWith('/public/') ? `${BASE_URL}${url}` : url;
+  },
+
+  thumbnailUrl(url: string | null | undefined): string | undefined {
+    if (!url) return undefined;
+    return url.startsWith('/media/') ? withMediaKey(`${BASE_URL}${url.replace(/\.\w+$/, '.thumb.jpg')}`) : url;
+  },
+
+  /**
+   * 导出文件里的地址：不带 mediaKey，文件离开浏览器后不会泄露会话
+   */
+  exportMediaUrl(url: string | null | undefined): string | undefined {
+    if (!url) return undefined;
+    return url.startsWith('/media/') ? `${BASE_URL}${url}` : url;
+  },
+
+  /**
+   * 全文搜索（笔记、分类、地名）；离线或有未同步修改时使用本地索引
+   */
+  async searchEntries(query: string): Promise<SearchResult[]> {
+    if (!query.trim()) return [];
+    if (this.getPendingCount() === 0) {
+      try {
+        const response = await authorizedFetch(`${API_URL}?q=${encodeURIComponent(query)}`);
+        if (!response.ok) throw new Error('Search failed');
+        return await response.json();
+      } catch {
+        console.warn("Using local index for search");
+      }
+    }
+    return this.searchLocalEntries(query);
+  },
+
+  async searchLocalEntries(query: string): Promise<SearchResult[]> {
+    const source = localStorage.getItem(STORAGE_KEY) || '[]';
+    if (!localIndex || localIndex.source !== source) {
+      localIndex = { source, index: createSearchIndex(JSON.parse(source)) };
+    }
+    return searchIndex(localIndex.index, query);
+  },
+
   /**
    * 创建新日志
    */
-  async createEntry(entry: Omit<JournalEntry, 'id'>): Promise<JournalEntry> {
+  async createEntry(entry: JournalEntryInput): Promise<JournalEntry> {
+    assertValidEntry(entry);
     try {
-      const response = await fetch(API_URL, {
+      const response = await authorizedFetch(API_URL, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(entry),
       });
+      if (response.status === 400) throw new ValidationError((await readError(response)).details ?? []);
       if (!response.ok) throw new Error('Creation failed');
       const saved = await response.json();
-      
+
       // 更新本地缓存
       const local = await this.getLocalEntries();
       localStorage.setItem(STORAGE_KEY, JSON.stringify([...local, saved]));
-      
+
       return saved;
     } catch (e) {
+      if (e instanceof ValidationError) throw e;
       console.warn("Saving to local storage due to connection issue");
-      return this.createLocalEntry(entry);
+      const saved = await this.createLocalEntry(entry);
+      this.enqueueOperation({ type: 'create', entryId: saved.id, payload: entry });
+      return saved;
+    }
+  },
+
+  /**
+   * 更新日志（部分字段）
+   */
+  async updateEntry(id: string, changes: Partial<JournalEntryInput>): Promise<JournalEntry> {
+    assertValidEntry(changes, true);
+    try {
+      if (isLocalId(id)) throw new Error('Entry not yet synced');
+      const local = await this.getLocalEntries();
+      const cached = local.find(e => e.id === id);
+      const response = await authorizedFetch(`${API_URL}/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...changes, baseRevision: cached?.revision } satisfies JournalEntryPatch),
+      });
+      if (response.status === 409) {
+        const { current } = await response.json();
+        const mine = cached ? { ...cached, ...changes, id } : null;
+        throw new ConflictError(this.recordConflict(id, mine, current));
+      }
+      if (response.status === 400) throw new ValidationError((await readError(response)).details ?? []);
+      if (!response.ok) throw new Error('Update failed');
+      const saved = await response.json();
+
+      // 更新本地缓存
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(local.map(e => e.id === id ? saved : e)));
+
+      return saved;
+    } catch (e) {
+      if (e instanceof ConflictError || e instanceof ValidationError) throw e;
+      console.warn("Updating local storage due to connection issue");
+      const baseRevision = (await this.getLocalEntries()).find(entry => entry.id === id)?.revision;
+      const saved = await this.updateLocalEntry(id, changes);
+      this.enqueueOperation({ type: 'update', entryId: id, payload: changes, baseRevision });
+      return saved;
     }
   },
 
   /**
-   * 删除日志
+   * 删除日志；连不上服务器时先在本地删除并排队，服务器拒绝时抛出错误，本地不动
    */
   async deleteEntry(id: string): Promise<void> {
     try {
-      const response = await fetch(`${API_URL}/${id}`, { method: 'DELETE' });
+      if (isLocalId(id)) throw new Error('Entry not yet synced');
+      const local = await this.getLocalEntries();
+      const baseRevision = local.find(e => e.id === id)?.revision;
+      const query = baseRevision !== undefined ? `?baseRevision=${baseRevision}` : '';
+      const response = await authorizedFetch(`${API_URL}/${id}${query}`, { method: 'DELETE' });
+      if (response.status === 409) {
+        const { current } = await response.json();
+        throw new ConflictError(this.recordConflict(id, null, current));
+      }
       if (!response.ok) throw new Error('Deletion failed');
-      
+
       // 同步更新本地
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(local.filter(e => e.id !== id)));
+    } catch (e: unknown) {
+      // 还没同步的日志只存在本地，删除它就是撤销排队的新建
+      if (!isLocalId(id) && !isOffline(e)) throw e;
+      const baseRevision = (await this.getLocalEntries()).find(entry => entry.id === id)?.revision;
+      await this.deleteLocalEntry(id);
+      this.enqueueOperation({ type: 'delete', entryId: id, baseRevision });
+    }
+  },
+
+  /**
+   * 导入日志：服务器负责校验和去重；离线时只支持合并，新日志进入离线队列
+   */
+  async importEntries(rows: unknown[], mode: ImportMode): Promise<ImportReport> {
+    let response: Response;
+    try {
+      response = await authorizedFetch(`${API_URL}/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mode, entries: rows }),
+      });
+    } catch {
+      if (mode === 'replace') throw new Error('Replacing the journal needs a connection to the server');
+      console.warn("Importing into local storage due to connection issue");
       const local = await this.getLocalEntries();
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(local.filter((e: any) => e.id !== id)));
+      const { accepted, duplicates, errors } = analyzeImport(rows, local, 'merge');
+      for (const { id, ...entry } of accepted) {
+        const saved = await this.createLocalEntry(entry);
+        this.enqueueOperation({ type: 'create', entryId: saved.id, payload: entry });
+      }
+      return { imported: accepted.length, duplicates, errors, entries: await this.getLocalEntries() };
+    }
+    if (!response.ok) throw new Error('Import failed');
+    const report: ImportReport = await response.json();
+    const merged = applyPendingOperations(report.entries.map(withPhotos), this.getPendingOperations());
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(merged));
+    return { ...report, entries: merged };
+  },
+
+  // --- 旅程 (Trips) ---
+  async getTrips(): Promise<Trip[]> {
+    try {
+      const response = await authorizedFetch(TRIPS_URL);
+      if (!response.ok) throw new Error('Server returned error');
+      // 离线新建或修改、还没同步的旅程不能因为刷新而消失
+      const data = applyPendingTripOperations(await response.json(), this.getPendingOperations());
+      localStorage.setItem(TRIPS_KEY, JSON.stringify(data));
+      return data;
+    } catch {
+      return this.getLocalTrips();
+    }
+  },
+
+  async createTrip(trip: Omit<Trip, 'id'>): Promise<Trip> {
+    const local = await this.getLocalTrips();
+    try {
+      const response = await authorizedFetch(TRIPS_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(trip),
+      });
+      if (!response.ok) throw new Error('Creation failed');
+      const saved = await response.json();
+      localStorage.setItem(TRIPS_KEY, JSON.stringify([...local, saved]));
+      return saved;
+    } catch (error: unknown) {
+      if (!isOffline(error)) throw error;
+      console.warn("Saving trip to local storage due to connection issue");
+      const newTrip = { ...trip, id: `local-trip-${Date.now()}-${Math.random().toString(36).slice(2, 8)}` };
+      localStorage.setItem(TRIPS_KEY, JSON.stringify([...local, newTrip]));
+      this.enqueueTripOperation({ type: 'createTrip', tripId: newTrip.id, payload: trip });
+      return newTrip;
+    }
+  },
+
+  async updateTrip(id: string, changes: Partial<Omit<Trip, 'id'>>): Promise<Trip> {
+    const local = await this.getLocalTrips();
+    try {
+      if (isLocalId(id)) throw new Error('Trip not yet synced');
+      const response = await authorizedFetch(`${TRIPS_URL}/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      if (!response.ok) throw new Error('Update failed');
+      const saved = await response.json();
+      localStorage.setItem(TRIPS_KEY, JSON.stringify(local.map(t => t.id === id ? saved : t)));
+      return saved;
+    } catch (error: unknown) {
+      // 还没同步的旅程只存在本地，修改并进排队的 createTrip
+      if (!isLocalId(id) && !isOffline(error)) throw error;
+      console.warn("Updating trip in local storage due to connection issue");
+      const existing = local.find(t => t.id === id);
+      if (!existing) throw new Error(`Trip ${id} not found`);
+      const updatedTrip = { ...existing, ...changes, id };
+      localStorage.setItem(TRIPS_KEY, JSON.stringify(local.map(t => t.id === id ? updatedTrip : t)));
+      this.enqueueTripOperation({ type: 'updateTrip', tripId: id, payload: changes });
+      return updatedTrip;
+    }
+  },
+
+  /**
+   * 删除旅程；其中的日志保留，只是不再属于任何旅程。
+   * 返回被解除关联的日志：在线时是服务器的新版本（版本号已加一），离线时是本地修改。
+   * 只有连不上服务器时才排队，服务器拒绝时抛出错误
+   */
+  async deleteTrip(id: string): Promise<JournalEntry[]> {
+    let unlinked: JournalEntry[];
+    try {
+      if (isLocalId(id)) throw new Error('Trip not yet synced');
+      const response = await authorizedFetch(`${TRIPS_URL}/${id}`, { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) throw new Error('Deletion failed');
+      unlinked = response.ok ? (await response.json()).entries.map(withPhotos) : [];
+      await this.applyUnlinkedEntries(id, unlinked);
+    } catch (error: unknown) {
+      if (!isLocalId(id) && !isOffline(error)) throw error;
+      console.warn("Deleting trip from local storage due to connection issue");
+      this.enqueueTripOperation({ type: 'deleteTrip', tripId: id });
+      const entries = await this.getLocalEntries();
+      unlinked = entries.filter(e => e.tripId === id).map(e => ({ ...e, tripId: null }));
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(entries.map(e => e.tripId === id ? { ...e, tripId: null } : e)));
+    }
+    const local = await this.getLocalTrips();
+    localStorage.setItem(TRIPS_KEY, JSON.stringify(local.filter(t => t.id !== id)));
+    const stories = await this.getLocalStories();
+    localStorage.setItem(STORIES_KEY, JSON.stringify(stories.filter(s => s.tripId !== id)));
+    return unlinked;
+  },
+
+  /**
+   * 服务器删除旅程时解除关联的日志写进本地缓存。这些日志还有排队的修改时，
+   * 把 baseRevision 顺延到新版本，免得回放时误报冲突
+   */
+  async applyUnlinkedEntries(tripId: string, unlinked: JournalEntry[]): Promise<void> {
+    const byId = new Map(unlinked.map(e => [e.id, e]));
+    this.savePendingOperations(this.getPendingOperations().map(op => {
+      const entry = op.type === 'update' || op.type === 'delete' ? byId.get(op.entryId) : undefined;
+      return entry && op.baseRevision === entry.revision - 1 ? { ...op, baseRevision: entry.revision } : op;
+    }));
+    const local = await this.getLocalEntries();
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(local.map(e => {
+      const entry = byId.get(e.id);
+      // 只改旅程和版本号，本地未同步的修改保留
+      return entry ? { ...e, tripId: e.tripId === tripId ? null : e.tripId, revision: entry.revision, updatedAt: entry.updatedAt } : e;
+    })));
+  },
+
+  // --- 游记 (Stories) ---
+  async getStories(): Promise<TravelStory[]> {
+    try {
+      const response = await authorizedFetch(STORIES_URL);
+      if (!response.ok) throw new Error('Server returned error');
+      const data = await response.json();
+      localStorage.setItem(STORIES_KEY, JSON.stringify(data));
+      return data;
+    } catch {
+      return this.getLocalStories();
+    }
+  },
+
+  /**
+   * 保存游记；同一旅程和时间范围的旧游记被替换
+   */
+  async saveStory(story: Omit<TravelStory, 'id' | 'createdAt'>): Promise<TravelStory> {
+    let saved: TravelStory;
+    try {
+      const response = await authorizedFetch(STORIES_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(story),
+      });
+      if (!response.ok) throw new Error((await readError(response)).error || 'Saving failed');
+      saved = await response.json();
+    } catch (error) {
+      console.warn("Saving story to local storage only:", (error as Error).message);
+      saved = { ...story, id: `local-story-${Date.now()}`, createdAt: new Date().toISOString() };
+    }
+    const local = await this.getLocalStories();
+    localStorage.setItem(STORIES_KEY, JSON.stringify([...local.filter(s => storyScope(s) !== storyScope(saved)), saved]));
+    return saved;
+  },
+
+  async deleteStory(id: string): Promise<void> {
+    try {
+      const response = await authorizedFetch(`${STORIES_URL}/${id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Deletion failed');
+    } catch {
+      console.warn("Deleting story from local storage due to connection issue");
+    }
+    const local = await this.getLocalStories();
+    localStorage.setItem(STORIES_KEY, JSON.stringify(local.filter(s => s.id !== id)));
+  },
+
+  async getLocalStories(): Promise<TravelStory[]> {
+    const stored = localStorage.getItem(STORIES_KEY);
+    return stored ? JSON.parse(stored) : [];
+  },
+
+  // --- 分享链接 (Shares) ---
+  // 链接由服务器发放和撤销，没有离线回退
+  async getShares(): Promise<Share[]> {
+    const response = await authorizedFetch(SHARES_URL);
+    if (!response.ok) throw new Error('Could not load share links');
+    return response.json();
+  },
+
+  async createShare(share: Pick<Share, 'title' | 'tripId' | 'dateRange' | 'coarse' | 'story'>): Promise<Share> {
+    const response = await authorizedFetch(SHARES_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(share),
+    });
+    if (!response.ok) throw new Error('Could not create the share link');
+    return response.json();
+  },
+
+  async revokeShare(token: string): Promise<void> {
+    const response = await authorizedFetch(`${SHARES_URL}/${token}`, { method: 'DELETE' });
+    if (!response.ok) throw new Error('Could not revoke the share link');
+  },
+
+  /**
+   * 公开分享页的数据；链接被撤销或不存在时返回 null
+   */
+  async getSharedTrip(token: string): Promise<SharedTrip | null> {
+    const response = await fetch(`${BASE_URL}/public/shares/${encodeURIComponent(token)}`);
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error('Could not load the shared trip');
+    return response.json();
+  },
+
+  shareUrl(token: string): string {
+    return `${window.location.origin}/share/${token}`;
+  },
+
+  async getLocalTrips(): Promise<Trip[]> {
+    const stored = localStorage.getItem(TRIPS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  },
+
+  // --- 离线队列 (Outbox) ---
+  getPendingOperations(): PendingOperation[] {
+    const stored = localStorage.getItem(OUTBOX_KEY);
+    return stored ? JSON.parse(stored).map(migrateOperation) : [];
+  },
+
+  getPendingCount(): number {
+    return this.getPendingOperations().length;
+  },
+
+  savePendingOperations(ops: PendingOperation[]): void {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(ops));
+  },
+
+  /**
+   * 加入离线队列；同一条日志的多次修改会合并，保留最早的 baseRevision
+   */
+  enqueueOperation(op: { type: 'create'; entryId: string; payload: Omit<JournalEntry, 'id'> }
+    | { type: 'update'; entryId: string; payload: Partial<Omit<JournalEntry, 'id'>>; baseRevision?: number }
+    | { type: 'delete'; entryId: string; baseRevision?: number }): void {
+    let ops = this.getPendingOperations();
+    const pendingCreate = ops.find(o => o.type === 'create' && o.entryId === op.entryId);
+    const pendingUpdate = ops.find(o => o.type === 'update' && o.entryId === op.entryId);
+
+    if (pendingCreate && pendingCreate.type === 'create' && op.type === 'update') {
+      pendingCreate.payload = { ...pendingCreate.payload, ...op.payload };
+    } else if (pendingCreate && op.type === 'delete') {
+      ops = ops.filter(o => o.entryId !== op.entryId);
+    } else if (pendingUpdate && pendingUpdate.type === 'update' && op.type === 'update') {
+      pendingUpdate.payload = { ...pendingUpdate.payload, ...op.payload };
+    } else if (pendingUpdate && pendingUpdate.type === 'update' && op.type === 'delete') {
+      ops = ops.map(o => o === pendingUpdate
+        ? { id: o.id, type: 'delete', entryId: o.entryId, baseRevision: pendingUpdate.baseRevision, queuedAt: o.queuedAt }
+        : o);
+    } else {
+      ops.push({
+        ...op,
+        id: `op-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        queuedAt: new Date().toISOString()
+      } as PendingOperation);
+    }
+    this.savePendingOperations(ops);
+  },
+
+  /**
+   * 旅程操作加入离线队列。还没同步的旅程被修改时并进它的 createTrip，被删除时连同排队的操作一起撤销；
+   * 删除旅程时，排队的日志操作也不再指向它
+   */
+  enqueueTripOperation(op: { type: 'createTrip'; tripId: string; payload: Omit<Trip, 'id'> }
+    | { type: 'updateTrip'; tripId: string; payload: Partial<Omit<Trip, 'id'>> }
+    | { type: 'deleteTrip'; tripId: string }): void {
+    let ops = this.getPendingOperations();
+    const pendingCreate = ops.find(o => o.type === 'createTrip' && o.tripId === op.tripId);
+    const pendingUpdate = ops.find(o => o.type === 'updateTrip' && o.tripId === op.tripId);
+
+    if (op.type === 'deleteTrip') {
+      ops = ops
+        .filter(o => !(isTripOperation(o) && o.tripId === op.tripId))
+        .map(o => (o.type === 'create' || o.type === 'update') && o.payload.tripId === op.tripId ? { ...o, payload: { ...o.payload, tripId: null } } : o);
+    }
+    if (pendingCreate && pendingCreate.type === 'createTrip' && op.type === 'updateTrip') {
+      pendingCreate.payload = { ...pendingCreate.payload, ...op.payload };
+    } else if (pendingUpdate && pendingUpdate.type === 'updateTrip' && op.type === 'updateTrip') {
+      pendingUpdate.payload = { ...pendingUpdate.payload, ...op.payload };
+    } else if (!(pendingCreate && op.type === 'deleteTrip')) {
+      ops.push({
+        ...op,
+        id: `op-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        queuedAt: new Date().toISOString()
+      } as TripOperation);
+    }
+    this.savePendingOperations(ops);
+  },
+
+  /**
+   * 回放一条旅程操作；返回 false 表示网络断了或会话失效，剩下的留到下次
+   */
+  async replayTripOperation(op: TripOperation, idMap: Record<string, string>): Promise<boolean> {
+    const targetId = idMap[op.tripId] || op.tripId;
+    let response: Response;
+    try {
+      response = op.type === 'createTrip'
+        ? await authorizedFetch(TRIPS_URL, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(op.payload) })
+        : op.type === 'updateTrip'
+          ? await authorizedFetch(`${TRIPS_URL}/${targetId}`, { method: 'PATCH', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(op.payload) })
+          : await authorizedFetch(`${TRIPS_URL}/${targetId}`, { method: 'DELETE' });
     } catch {
-      return this.deleteLocalEntry(id);
+      return false;
     }
+    if (response.status === 401 || response.status >= 500) return false;
+    if (!response.ok) {
+      const { error } = await readError(response);
+      console.warn(`Dropping pending ${op.type} for ${op.tripId}: server returned ${response.status} (${error})`);
+      return true;
+    }
+    const trips = await this.getLocalTrips();
+    if (op.type === 'deleteTrip') {
+      const { entries } = await response.json();
+      const unlinked: JournalEntry[] = entries.map(withPhotos);
+      await this.applyUnlinkedEntries(targetId, unlinked);
+      unlinked.forEach(entry => broadcast({ type: 'entry.updated', entry }));
+      return true;
+    }
+    const saved: Trip = await response.json();
+    localStorage.setItem(TRIPS_KEY, JSON.stringify(trips.map(t => t.id === op.tripId ? saved : t)));
+    if (op.type === 'createTrip') {
+      idMap[op.tripId] = saved.id;
+      const local = await this.getLocalEntries();
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(local.map(e => e.tripId === op.tripId ? { ...e, tripId: saved.id } : e)));
+    }
+    return true;
+  },
+
+  /**
+   * 后端恢复后按顺序回放离线操作，并把 local- id 换成服务器 id
+   */
+  async syncPendingOperations(): Promise<SyncResult> {
+    if (syncInFlight) return syncInFlight;
+
+    const replay = async (): Promise<SyncResult> => {
+      const idMap: Record<string, string> = {};
+      let ops = this.getPendingOperations();
+      let synced = 0;
+      let conflicts = 0;
+
+      while (ops.length > 0) {
+        const op = ops[0];
+        if (isTripOperation(op)) {
+          if (!(await this.replayTripOperation(op, idMap))) break;
+          synced++;
+          ops = this.getPendingOperations().filter(o => o.id !== op.id);
+          this.savePendingOperations(ops);
+          continue;
+        }
+        const targetId = idMap[op.entryId] || op.entryId;
+        // 离线新建的旅程同步后换了 id
+        const payload = op.type !== 'delete' && op.payload.tripId && idMap[op.payload.tripId]
+          ? { ...op.payload, tripId: idMap[op.payload.tripId] }
+          : op.type !== 'delete' ? op.payload : null;
+        let response: Response;
+        try {
+          // 离线时内联保存的照片先上传
+          if (op.type !== 'delete' && op.payload.photos) {
+            for (const photo of op.payload.photos) {
+              if (photo.url.startsWith('data:')) photo.url = await this.uploadMedia(photo.url);
+            }
+          }
+          if (op.type === 'create') {
+            response = await authorizedFetch(API_URL, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify(payload),
+            });
+          } else if (op.type === 'update') {
+            response = await authorizedFetch(`${API_URL}/${targetId}`, {
+              method: 'PATCH',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ ...payload, baseRevision: op.baseRevision } satisfies JournalEntryPatch),
+            });
+          } else {
+            const query = op.baseRevision !== undefined ? `?baseRevision=${op.baseRevision}` : '';
+            response = await authorizedFetch(`${API_URL}/${targetId}${query}`, { method: 'DELETE' });
+          }
+        } catch {
+          // 网络又断了，剩下的留到下次
+          break;
+        }
+
+        // 会话失效时保留队列，重新登录后再回放
+        if (response.status === 401 || response.status >= 500) break;
+        if (response.status === 409) {
+          const { current } = await response.json();
+          const local = await this.getLocalEntries();
+          const mine = op.type === 'update' ? local.find(e => e.id === targetId) || null : null;
+          this.recordConflict(targetId, mine, current);
+          conflicts++;
+        } else if (!response.ok) {
+          const { error } = await readError(response);
+          console.warn(`Dropping pending ${op.type} for ${op.entryId}: server returned ${response.status} (${error})`);
+        } else if (op.type !== 'delete') {
+          const saved: JournalEntry = await response.json();
+          if (op.type === 'create') idMap[op.entryId] = saved.id;
+          const local = await this.getLocalEntries();
+          // 实时推送可能比响应先到，缓存里已经有 saved.id 这一条，按 id 合并以免重复
+          localStorage.setItem(STORAGE_KEY, JSON.stringify(mergeEntries(local.filter(e => e.id !== op.entryId), [saved])));
+          broadcast(op.type === 'create'
+            ? { type: 'entry.created', entry: saved, replaces: op.entryId }
+            : { type: 'entry.updated', entry: saved });
+        }
+
+        synced++;
+        // 每完成一步就持久化，页面中途关闭也不会重复提交
+        ops = this.getPendingOperations().filter(o => o.id !== op.id);
+        this.savePendingOperations(ops);
+      }
+
+      return { synced, remaining: ops.length, idMap, conflicts };
+    };
+    // 另一个标签页正在回放时等它完成，再读取剩下的队列（then 用来展开 locks.request 类型里多包的一层 Promise）
+    syncInFlight = navigator.locks ? navigator.locks.request(SYNC_LOCK, replay).then(result => result) : replay();
+
+    try {
+      return await syncInFlight;
+    } finally {
+      syncInFlight = null;
+    }
+  },
+
+  // --- AI ---
+  async aiSummary(entryIds: string[], options: AITextOptions = {}): Promise<string> {
+    return (await requestAI<{ text: string }>('summary', { entryIds, ...options })).text;
+  },
+
+  async aiEnhance(note: string, category: string, model?: string): Promise<string> {
+    return (await requestAI<{ text: string }>('enhance', { note, category, model })).text;
+  },
+
+  async aiPlaceContext(latitude: number, longitude: number, placeName: string | null, model?: string): Promise<string> {
+    return (await requestAI<{ text: string }>('place-context', { latitude, longitude, placeName, model })).text;
+  },
+
+  /**
+   * 返回服务器保存好的 /media/ 路径
+   */
+  async aiPaint(note: string, model?: string): Promise<string> {
+    return (await requestAI<{ url: string }>('paint', { note, model })).url;
+  },
+
+  /**
+   * 流式生成游记：服务器每收到一段文本就推过来，交给 onText。
+   * 日志按 entryIds 的顺序从 1 编号；流中途断开也算失败
+   */
+  async aiStory(entryIds: string[], story: StoryOptions, options: AITextOptions, onText: (text: string) => void, signal?: AbortSignal): Promise<void> {
+    const response = await postAI('story', { entryIds, ...story, ...options }, signal);
+    let finished = false;
+    await readEventStream(response.body!, (data) => {
+      const message: StoryStreamMessage = JSON.parse(data);
+      if (message.type === 'text') onText(message.text);
+      else if (message.type === 'error') throw new AIError(message.code ?? 'upstream_error', message.error);
+      else finished = true;
+    });
+    if (!finished) throw new AIError('upstream_error', 'The story was cut off. Try again.');
+  },
+
+  /**
+   * 问日志助手：entryIds 是检索出的相关日志，回答里用 [编号] 引用它们（从 1 开始）
+   */
+  async aiChat(messages: ChatTurn[], entryIds: string[], model?: string): Promise<string> {
+    return (await requestAI<{ text: string }>('chat', { messages, entryIds, model })).text;
+  },
+
+  // --- 实时同步 ---
+  /**
+   * 读取服务器推送的日志变化，直到连接断开或 signal 取消。
+   * EventSource 不能带 Authorization 头，所以用 fetch 读取事件流
+   */
+  async streamEntryEvents(onEvent: (event: EntryEvent) => void, onOpen: () => void, signal: AbortSignal): Promise<void> {
+    const response = await authorizedFetch(EVENTS_URL, { signal });
+    if (!response.ok || !response.body) throw new Error(`Event stream failed: ${response.status}`);
+    onOpen();
+    await readEventStream(response.body, (data) => {
+      const event: EntryEvent = JSON.parse(data);
+      if (this.applyEntryEvent(event)) onEvent(event);
+    });
+  },
+
+  /**
+   * 把别处的改动写进本地缓存。本机还有未同步修改的日志保留本地版本，回放时再检测冲突；
+   * 返回 false 表示这条事件被忽略
+   */
+  applyEntryEvent(event: EntryEvent): boolean {
+    if (event.type === 'entries.reset') return true;
+    const id = event.type === 'entry.deleted' ? event.id : event.entry.id;
+    if (this.getPendingOperations().some(op => !isTripOperation(op) && op.entryId === id)) return false;
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const local: JournalEntry[] = stored ? JSON.parse(stored) : [];
+    const updated = event.type === 'entry.deleted'
+      ? local.filter(e => e.id !== id)
+      : mergeEntries(local, [withPhotos(event.entry)]);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+    return true;
+  },
+
+  /**
+   * 其他标签页的离线改动；返回取消订阅的函数
+   */
+  onTabEvent(listener: (event: EntryEvent) => void): () => void {
+    if (!tabChannel) return () => {};
+    const handler = (message: MessageEvent<EntryEvent>) => listener(message.data);
+    tabChannel.addEventListener('message', handler);
+    return () => tabChannel.removeEventListener('message', handler);
+  },
+
+  // --- 冲突处理 ---
+  getConflicts(): EntryConflict[] {
+    const stored = localStorage.getItem(CONFLICTS_KEY);
+    if (!stored) return [];
+    return JSON.parse(stored).map((c: EntryConflict) => ({
+      ...c,
+      local: c.local && withPhotos(c.local),
+      remote: c.remote && withPhotos(c.remote)
+    }));
+  },
+
+  recordConflict(entryId: string, local: JournalEntry | null, remote: JournalEntry | null): EntryConflict {
+    const conflict: EntryConflict = {
+      id: `conflict-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      entryId,
+      local,
+      remote,
+      detectedAt: new Date().toISOString()
+    };
+    // 同一条日志只保留最新的冲突
+    const conflicts = this.getConflicts().filter(c => c.entryId !== entryId);
+    localStorage.setItem(CONFLICTS_KEY, JSON.stringify([...conflicts, conflict]));
+    return conflict;
+  },
+
+  dismissConflict(conflictId: string): void {
+    const conflicts = this.getConflicts().filter(c => c.id !== conflictId);
+    localStorage.setItem(CONFLICTS_KEY, JSON.stringify(conflicts));
+  },
+
+  /**
+   * 用选定或合并后的版本覆盖服务器；resolution 为 null 表示删除
+   */
+  async resolveConflict(conflict: EntryConflict, resolution: JournalEntryInput | null): Promise<JournalEntry | null> {
+    const { remote, entryId } = conflict;
+    const local = await this.getLocalEntries();
+    let saved: JournalEntry | null = null;
+    let response: Response;
+
+    if (resolution === null) {
+      if (remote) {
+        response = await authorizedFetch(`${API_URL}/${remote.id}?baseRevision=${remote.revision}`, { method: 'DELETE' });
+      } else {
+        response = new Response(null, { status: 204 });
+      }
+    } else if (remote) {
+      // revision 等字段由服务器忽略
+      response = await authorizedFetch(`${API_URL}/${remote.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...resolution, baseRevision: remote.revision } satisfies JournalEntryPatch),
+      });
+    } else {
+      // 对方已删除，重新创建我的版本
+      response = await authorizedFetch(API_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(resolution),
+      });
+    }
+
+    if (response.status === 409) {
+      const { current } = await response.json();
+      const mine = resolution ? { ...resolution, id: entryId } as JournalEntry : null;
+      this.dismissConflict(conflict.id);
+      throw new ConflictError(this.recordConflict(entryId, mine, current));
+    }
+    if (!response.ok) throw new Error('Conflict resolution failed');
+    if (resolution !== null) saved = await response.json();
+
+    const rest = local.filter(e => e.id !== entryId);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved ? [...rest, saved] : rest));
+    this.dismissConflict(conflict.id);
+    return saved;
+  },
+
+  /**
+   * 放弃本机的修改，接受另一台设备的版本
+   */
+  async acceptRemoteVersion(conflict: EntryConflict): Promise<JournalEntry | null> {
+    const local = await this.getLocalEntries();
+    const rest = local.filter(e => e.id !== conflict.entryId);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(conflict.remote ? [...rest, conflict.remote] : rest));
+    this.dismissConflict(conflict.id);
+    return conflict.remote;
   },
 
   // --- 本地存储逻辑 (作为 Fallback) ---
   async getLocalEntries(): Promise<JournalEntry[]> {
     const stored = localStorage.getItem(STORAGE_KEY);
-    return stored ? JSON.parse(stored) : [];
+    return stored ? JSON.parse(stored).map(withPhotos) : [];
   },
 
-  async createLocalEntry(entry: Omit<JournalEntry, 'id'>): Promise<JournalEntry> {
-    const newEntry = { ...entry, id: `local-${Date.now()}` };
+  async createLocalEntry(entry: JournalEntryInput): Promise<JournalEntry> {
+    // 批量导入时同一毫秒会创建多条
+    const newEntry: JournalEntry = { ...entry, id: `local-${Date.now()}-${Math.random().toString(36).slice(2, 8)}` };
     const entries = await this.getLocalEntries();
     localStorage.setItem(STORAGE_KEY, JSON.stringify([...entries, newEntry]));
-    return newEntry as JournalEntry;
+    broadcast({ type: 'entry.created', entry: newEntry });
+    return newEntry;
+  },
+
+  async updateLocalEntry(id: string, changes: Partial<JournalEntryInput>): Promise<JournalEntry> {
+    const entries = await this.getLocalEntries();
+    const existing = entries.find(e => e.id === id);
+    if (!existing) throw new Error(`Entry ${id} not found`);
+    const updatedEntry = { ...existing, ...changes, id };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries.map(e => e.id === id ? updatedEntry : e)));
+    broadcast({ type: 'entry.updated', entry: updatedEntry });
+    return updatedEntry;
   },
 
   async deleteLocalEntry(id: string): Promise<void> {
     const entries = await this.getLocalEntries();
     const updated = entries.filter((e: JournalEntry) => e.id !== id);
     localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
-  },
-
-  async importEntries(data: JournalEntry[]): Promise<void> {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    broadcast({ type: 'entry.deleted', id });
   }
-};
\ No newline at end of file
+};
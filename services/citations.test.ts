@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { citedEntryIds, splitCitations } from './citations';
+
+const entries = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+
+describe('citations', () => {
+  it('collects cited entries in order of first citation', () => {
+    expect(citedEntryIds('Lunch [2], then a museum [3, 1] and lunch again [2].', entries)).toEqual(['b', 'c', 'a']);
+  });
+
+  it('ignores numbers that match no entry', () => {
+    expect(citedEntryIds('Nothing here [0] or here [4].', entries)).toEqual([]);
+  });
+
+  it('splits text into plain runs and links', () => {
+    expect(splitCitations('Lunch [2, 9], then art [3].', entries)).toEqual([
+      { text: 'Lunch' },
+      { entryId: 'b', label: '2' },
+      { text: ', then art' },
+      { entryId: 'c', label: '3' },
+      { text: '.' }
+    ]);
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * AI answers cite traces by their 1-based position in the list they were
+ * given, like [3] or [2, 5]. These helpers turn the numbers back into entries.
+ */
+export const CITATION = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+// Entries cited anywhere in the text, in order of first citation
+export const citedEntryIds = (text: string, entries: { id: string }[]): string[] => {
+  const ids = new Set<string>();
+  for (const match of text.matchAll(CITATION)) {
+    match[1].split(',').forEach(n => {
+      const entry = entries[Number(n) - 1];
+      if (entry) ids.add(entry.id);
+    });
+  }
+  return [...ids];
+};
+
+export type CitedPart = { text: string } | { entryId: string; label: string };
+
+/**
+ * Splits text into plain runs and citations, for rendering citations as links.
+ * Numbers that don't match an entry are dropped.
+ */
+export const splitCitations = (text: string, entries: { id: string }[]): CitedPart[] => {
+  const parts: CitedPart[] = [];
+  let last = 0;
+  for (const match of text.matchAll(CITATION)) {
+    parts.push({ text: text.slice(last, match.index).replace(/[ \t]+$/, '') });
+    match[1].split(',').forEach(n => {
+      const entry = entries[Number(n) - 1];
+      if (entry) parts.push({ entryId: entry.id, label: n.trim() });
+    });
+    last = match.index! + match[0].length;
+  }
+  parts.push({ text: text.slice(last) });
+  return parts.filter(part => !('text' in part) || part.text);
+};
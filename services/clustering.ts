@@ -0,0 +1,56 @@
+import { JournalEntry, Category } from '../types';
+
+export interface MarkerCluster {
+  key: string;
+  latitude: number;
+  longitude: number;
+  entries: JournalEntry[];
+  categoryCounts: Partial<Record<Category, number>>;
+  bounds: [[number, number], [number, number]]; // [[south, west], [north, east]]
+}
+
+// Projects lat/lng to world pixel coordinates at the given zoom (Leaflet's map.project)
+type Projector = (lat: number, lng: number, zoom: number) => { x: number; y: number };
+
+/**
+ * Greedy grid clustering in screen space. Cells are keyed by zoom, so a cluster
+ * keeps the same key while the user pans and only changes when they zoom.
+ */
+export const clusterEntries = (
+  entries: JournalEntry[],
+  zoom: number,
+  project: Projector,
+  cellSizePx = 64
+): MarkerCluster[] => {
+  const cells = new Map<string, JournalEntry[]>();
+  for (const entry of entries) {
+    const { x, y } = project(entry.latitude, entry.longitude, zoom);
+    const key = `${zoom}:${Math.floor(x / cellSizePx)}:${Math.floor(y / cellSizePx)}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(entry);
+    else cells.set(key, [entry]);
+  }
+
+  return Array.from(cells, ([key, cellEntries]) => {
+    let lat = 0, lng = 0;
+    let south = 90, west = 180, north = -90, east = -180;
+    const categoryCounts: Partial<Record<Category, number>> = {};
+    for (const e of cellEntries) {
+      lat += e.latitude;
+      lng += e.longitude;
+      south = Math.min(south, e.latitude);
+      north = Math.max(north, e.latitude);
+      west = Math.min(west, e.longitude);
+      east = Math.max(east, e.longitude);
+      categoryCounts[e.category] = (categoryCounts[e.category] || 0) + 1;
+    }
+    return {
+      key,
+      latitude: lat / cellEntries.length,
+      longitude: lng / cellEntries.length,
+      entries: cellEntries,
+      categoryCounts,
+      bounds: [[south, west], [north, east]]
+    };
+  });
+};
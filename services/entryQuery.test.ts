@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { Category, JournalEntry } from '../types';
+import { EMPTY_FILTER } from './filters';
+import { compareNewestFirst, matchesQuery, mergeEntries, normalizeBbox, queryFromFilter, toQueryString } from './entryQuery';
+
+const entry = (id: string, fields: Partial<JournalEntry> = {}): JournalEntry => ({
+  id,
+  latitude: 51.5,
+  longitude: -0.12,
+  timestamp: new Date(2025, 5, 1, 9).toISOString(),
+  dateDisplay: 'Jun 1, 2025',
+  note: 'A walk in the park',
+  category: Category.Nature,
+  photos: [],
+  tripId: null,
+  ...fields
+});
+
+describe('queryFromFilter', () => {
+  it('sends only the parts of the filter that are set', () => {
+    expect(queryFromFilter(EMPTY_FILTER)).toEqual({});
+    expect(queryFromFilter({ ...EMPTY_FILTER, dateRange: { start: '2025-06-01', end: '' }, categories: [Category.Food], text: '  Cheese ' }))
+      .toEqual({ from: '2025-06-01', categories: [Category.Food], text: 'cheese' });
+  });
+});
+
+describe('toQueryString', () => {
+  it('turns local days into instants, the end day inclusive', () => {
+    const params = new URLSearchParams(toQueryString({ from: '2025-06-01', to: '2025-06-10' }));
+    expect(params.get('from')).toBe(new Date(2025, 5, 1).toISOString());
+    expect(params.get('to')).toBe(new Date(2025, 5, 11).toISOString());
+  });
+
+  it('rounds the box, joins the categories and always sends a limit', () => {
+    const params = new URLSearchParams(toQueryString({ bbox: [-0.1234567, 51, 0.5, 52], categories: [Category.Food, Category.Culture], cursor: 'abc' }));
+    expect(params.get('bbox')).toBe('-0.123457,51,0.5,52');
+    expect(params.get('category')).toBe('Food,Culture');
+    expect(params.get('limit')).toBe('50');
+    expect(params.get('cursor')).toBe('abc');
+  });
+});
+
+describe('matchesQuery', () => {
+  it('applies the same rules as the server', () => {
+    const market = entry('market', { category: Category.Food, note: 'Cheese stall', tripId: 'trip-1', photos: [{ url: '/media/a.jpg', caption: '' }] });
+    expect(matchesQuery(market, { from: '2025-06-01', to: '2025-06-01', categories: [Category.Food], tripId: 'trip-1', hasPhoto: true, text: 'cheese' })).toBe(true);
+    expect(matchesQuery(market, { from: '2025-06-02' })).toBe(false);
+    expect(matchesQuery(market, { to: '2025-05-31' })).toBe(false);
+    expect(matchesQuery(market, { tripId: 'trip-2' })).toBe(false);
+    expect(matchesQuery(entry('bare'), { hasPhoto: true })).toBe(false);
+  });
+
+  it('finds entries in a box that crosses the antimeridian', () => {
+    const fiji = entry('fiji', { latitude: -17.7, longitude: 178.1 });
+    const samoa = entry('samoa', { latitude: -13.8, longitude: -171.8 });
+    expect([fiji, samoa].filter(e => matchesQuery(e, { bbox: [170, -20, -170, -10] })).map(e => e.id)).toEqual(['fiji', 'samoa']);
+    expect(matchesQuery(entry('london'), { bbox: [170, -20, -170, -10] })).toBe(false);
+  });
+});
+
+describe('normalizeBbox', () => {
+  it('wraps longitudes past ±180° and clamps latitudes', () => {
+    expect(normalizeBbox(170, -95, 190, 10)).toEqual([170, -90, -170, 10]);
+    expect(normalizeBbox(-200, 0, 250, 10)).toEqual([-180, 0, 180, 10]);
+  });
+});
+
+describe('compareNewestFirst and mergeEntries', () => {
+  it('orders newest first with ties broken by id, like server pages', () => {
+    const same = new Date(2025, 5, 2).toISOString();
+    const sorted = [entry('a'), entry('b', { timestamp: same }), entry('c', { timestamp: same })].sort(compareNewestFirst);
+    expect(sorted.map(e => e.id)).toEqual(['c', 'b', 'a']);
+  });
+
+  it('replaces entries by id and adds new ones', () => {
+    const merged = mergeEntries([entry('a'), entry('b')], [entry('b', { note: 'Edited' }), entry('c')]);
+    expect(merged.map(e => [e.id, e.note])).toEqual([['a', 'A walk in the park'], ['b', 'Edited'], ['c', 'A walk in the park']]);
+  });
+});
@@ -0,0 +1,81 @@
+import { EntryFilter, EntryQuery, JournalEntry } from '../types';
+
+/**
+ * A filter as the server applies it, so page totals count exactly what the filter shows
+ */
+export const queryFromFilter = (filter: EntryFilter): EntryQuery => ({
+  ...(filter.dateRange.start ? { from: filter.dateRange.start } : {}),
+  ...(filter.dateRange.end ? { to: filter.dateRange.end } : {}),
+  ...(filter.categories.length ? { categories: filter.categories } : {}),
+  ...(filter.tripId ? { tripId: filter.tripId } : {}),
+  ...(filter.hasPhoto ? { hasPhoto: true } : {}),
+  ...(filter.text.trim() ? { text: filter.text.trim().toLowerCase() } : {})
+});
+
+// Days are the browser's calendar days; the server gets exact instants so its own time zone doesn't matter
+const startOfDay = (day: string, addDays = 0) => {
+  const date = new Date(`${day}T00:00`);
+  date.setDate(date.getDate() + addDays);
+  return date.toISOString();
+};
+
+export const toQueryString = (query: EntryQuery): string => {
+  const params = new URLSearchParams();
+  if (query.bbox) params.set('bbox', query.bbox.map(v => Number(v.toFixed(6))).join(','));
+  if (query.from) params.set('from', startOfDay(query.from));
+  // The end day is inclusive, so the range runs to the start of the next one
+  if (query.to) params.set('to', startOfDay(query.to, 1));
+  if (query.categories?.length) params.set('category', query.categories.join(','));
+  if (query.tripId) params.set('trip', query.tripId);
+  if (query.hasPhoto) params.set('photo', '1');
+  if (query.text) params.set('text', query.text);
+  params.set('limit', String(query.limit ?? 50));
+  if (query.cursor) params.set('cursor', query.cursor);
+  return params.toString();
+};
+
+const isInBbox = (entry: JournalEntry, [west, south, east, north]: [number, number, number, number]) => {
+  if (entry.latitude < south || entry.latitude > north) return false;
+  return west <= east
+    ? entry.longitude >= west && entry.longitude <= east
+    : entry.longitude >= west || entry.longitude <= east;
+};
+
+/**
+ * Same rules as the server's GET /entries, for offline fallbacks and cache pruning
+ */
+export const matchesQuery = (entry: JournalEntry, query: EntryQuery): boolean => {
+  const t = new Date(entry.timestamp).getTime();
+  if (query.from && t < new Date(`${query.from}T00:00`).getTime()) return false;
+  if (query.to && t >= new Date(`${query.to}T00:00`).getTime() + 86400000) return false;
+  if (query.categories?.length && !query.categories.includes(entry.category)) return false;
+  if (query.tripId && entry.tripId !== query.tripId) return false;
+  if (query.hasPhoto && entry.photos.length === 0) return false;
+  if (query.text && !entry.note.toLowerCase().includes(query.text)) return false;
+  if (query.bbox && !isInBbox(entry, query.bbox)) return false;
+  return true;
+};
+
+/**
+ * Leaflet bounds can run past ±180° once the world repeats; the server wants them wrapped
+ */
+export const normalizeBbox = (west: number, south: number, east: number, north: number): [number, number, number, number] => {
+  const clampLat = (lat: number) => Math.max(-90, Math.min(90, lat));
+  if (east - west >= 360) return [-180, clampLat(south), 180, clampLat(north)];
+  const wrap = (lng: number) => ((((lng + 180) % 360) + 360) % 360) - 180;
+  return [wrap(west), clampLat(south), wrap(east), clampLat(north)];
+};
+
+// Newest first, ties broken by id, matching the server's page order
+export const compareNewestFirst = (a: JournalEntry, b: JournalEntry) =>
+  new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime() || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+/**
+ * Adds or replaces entries by id
+ */
+export const mergeEntries = (current: JournalEntry[], incoming: JournalEntry[]): JournalEntry[] => {
+  if (incoming.length === 0) return current;
+  const byId = new Map(current.map(entry => [entry.id, entry]));
+  incoming.forEach(entry => byId.set(entry.id, entry));
+  return Array.from(byId.values());
+};
@@ -0,0 +1,16 @@
+import { JournalEntryInput } from '../types';
+import schema from '../schema/journalEntry.json';
+import { createEntryValidator } from '../shared/entryValidator.mjs';
+
+// Fails to type-check when the schema and JournalEntryInput list different fields
+type SchemaField = keyof typeof schema.properties;
+const fieldsMatch: [SchemaField, keyof JournalEntryInput] extends [keyof JournalEntryInput, SchemaField] ? true : never = true;
+void fieldsMatch;
+
+/**
+ * Checks entry fields the way the server will: the same schema file and the
+ * same validator, so the error messages match too. Server-managed fields (id,
+ * revision, ...) are dropped rather than reported; `partial` checks only the
+ * fields present, as PATCH does; `lenient` ignores unknown fields, as imports do.
+ */
+export const validateEntryInput = createEntryValidator<JournalEntryInput>(schema);
@@ -0,0 +1,135 @@
+export interface PhotoMetadata {
+  latitude: number | null;
+  longitude: number | null;
+  takenAt: string | null; // Camera local time as YYYY-MM-DDTHH:mm, ready for a datetime-local input
+}
+
+// EXIF lives in the APP1 segment near the start of a JPEG, which is capped at 64 KB
+const EXIF_SCAN_BYTES = 128 * 1024;
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATETIME = 0x0132;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_GPS_LAT_REF = 0x0001;
+const TAG_GPS_LAT = 0x0002;
+const TAG_GPS_LNG_REF = 0x0003;
+const TAG_GPS_LNG = 0x0004;
+
+// Byte size of each TIFF field type, indexed by type id
+const TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8];
+
+type IfdEntry = { type: number; count: number; valueOffset: number };
+
+/**
+ * Minimal TIFF/EXIF reader: just enough to pull capture time and GPS out of a JPEG.
+ */
+const readTiff = (view: DataView, tiffStart: number) => {
+  const little = view.getUint16(tiffStart) === 0x4949;
+  const u16 = (offset: number) => view.getUint16(tiffStart + offset, little);
+  const u32 = (offset: number) => view.getUint32(tiffStart + offset, little);
+
+  const readIfd = (offset: number): Map<number, IfdEntry> => {
+    const tags = new Map<number, IfdEntry>();
+    if (offset <= 0 || tiffStart + offset + 2 > view.byteLength) return tags;
+    const count = u16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (tiffStart + entry + 12 > view.byteLength) break;
+      const type = u16(entry + 2);
+      const valueCount = u32(entry + 4);
+      const size = (TYPE_SIZES[type] || 1) * valueCount;
+      // Values up to 4 bytes are stored inline, larger ones at an offset
+      tags.set(u16(entry), { type, count: valueCount, valueOffset: size <= 4 ? entry + 8 : u32(entry + 8) });
+    }
+    return tags;
+  };
+
+  const readAscii = (tag?: IfdEntry) => {
+    if (!tag) return null;
+    let text = '';
+    for (let i = 0; i < tag.count; i++) {
+      const offset = tiffStart + tag.valueOffset + i;
+      if (offset >= view.byteLength) break;
+      const code = view.getUint8(offset);
+      if (code === 0) break;
+      text += String.fromCharCode(code);
+    }
+    return text;
+  };
+
+  const readRationals = (tag?: IfdEntry) => {
+    if (!tag || tag.type !== 5) return null;
+    const values: number[] = [];
+    for (let i = 0; i < tag.count; i++) {
+      const offset = tag.valueOffset + i * 8;
+      if (tiffStart + offset + 8 > view.byteLength) return null;
+      const denominator = u32(offset + 4);
+      values.push(denominator === 0 ? 0 : u32(offset) / denominator);
+    }
+    return values;
+  };
+
+  const ifd0 = readIfd(u32(4));
+  const pointer = (tag: number) => {
+    const entry = ifd0.get(tag);
+    return entry ? u32(entry.valueOffset) : 0;
+  };
+  return { ifd0, exif: readIfd(pointer(TAG_EXIF_IFD)), gps: readIfd(pointer(TAG_GPS_IFD)), readAscii, readRationals };
+};
+
+// "2024:05:17 14:03:22" -> "2024-05-17T14:03"
+const parseExifDate = (value: string | null): string | null => {
+  const match = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2})/.exec(value || '');
+  if (!match || match[1] === '0000') return null;
+  return `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}`;
+};
+
+const toDecimalDegrees = (dms: number[] | null, ref: string | null): number | null => {
+  if (!dms || dms.length < 3) return null;
+  const degrees = dms[0] + dms[1] / 60 + dms[2] / 3600;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+};
+
+const findExifSegment = (view: DataView): number | null => {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return null;
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xFF00) !== 0xFF00 || marker === 0xFFDA) return null; // Start of scan: no more metadata
+    const length = view.getUint16(offset + 2);
+    // APP1 starting with "Exif\0\0"
+    if (marker === 0xFFE1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      return offset + 10;
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+/**
+ * Reads GPS position and capture time from a photo's EXIF block.
+ * Returns null for non-JPEGs or photos without EXIF.
+ */
+export const readPhotoMetadata = async (file: Blob): Promise<PhotoMetadata | null> => {
+  try {
+    const view = new DataView(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+    const tiffStart = findExifSegment(view);
+    if (tiffStart === null) return null;
+    const { ifd0, exif, gps, readAscii, readRationals } = readTiff(view, tiffStart);
+
+    const latitude = toDecimalDegrees(readRationals(gps.get(TAG_GPS_LAT)), readAscii(gps.get(TAG_GPS_LAT_REF)));
+    const longitude = toDecimalDegrees(readRationals(gps.get(TAG_GPS_LNG)), readAscii(gps.get(TAG_GPS_LNG_REF)));
+    // Some phones write 0,0 when they had no fix
+    const hasFix = latitude !== null && longitude !== null && !(latitude === 0 && longitude === 0);
+    const takenAt = parseExifDate(readAscii(exif.get(TAG_DATETIME_ORIGINAL))) ?? parseExifDate(readAscii(ifd0.get(TAG_DATETIME)));
+
+    return {
+      latitude: hasFix ? latitude : null,
+      longitude: hasFix ? longitude : null,
+      takenAt
+    };
+  } catch {
+    return null;
+  }
+};
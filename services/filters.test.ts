@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { Category, JournalEntry } from '../types';
+import { applyFilter, EMPTY_FILTER, filterFromQuery, filterToQuery, isFilterActive, isWithinDays } from './filters';
+
+// A moment on a local calendar day (month counted from 1), whatever time zone the tests run in
+const local = (month: number, day: number, hour: number) => new Date(2025, month - 1, day, hour).toISOString();
+
+const entry = (id: string, fields: Partial<JournalEntry> = {}): JournalEntry => ({
+  id,
+  latitude: 51.5,
+  longitude: -0.12,
+  timestamp: local(6, 1, 9),
+  dateDisplay: 'Jun 1, 2025',
+  note: 'A walk in the park',
+  category: Category.Nature,
+  photos: [],
+  tripId: null,
+  ...fields
+});
+
+describe('isWithinDays', () => {
+  it('reads both days as local calendar days with the end day inclusive', () => {
+    expect(isWithinDays(local(6, 1, 0), '2025-06-01', '2025-06-10')).toBe(true);
+    expect(isWithinDays(local(6, 10, 23), '2025-06-01', '2025-06-10')).toBe(true);
+    expect(isWithinDays(local(5, 31, 23), '2025-06-01', '2025-06-10')).toBe(false);
+    expect(isWithinDays(local(6, 11, 0), '2025-06-01', '2025-06-10')).toBe(false);
+  });
+
+  it('leaves a side open when its day is empty', () => {
+    expect(isWithinDays(local(1, 1, 12), '', '2025-06-10')).toBe(true);
+    expect(isWithinDays(local(12, 31, 12), '2025-06-01', '')).toBe(true);
+  });
+});
+
+describe('applyFilter', () => {
+  const entries = [
+    entry('park'),
+    entry('market', { timestamp: local(6, 3, 18), note: 'Cheese at the MARKET', category: Category.Food, tripId: 'trip-1' }),
+    entry('museum', { timestamp: local(6, 5, 11), note: 'Old maps', category: Category.Culture, photos: [{ url: '/media/a.jpg', caption: '' }], tripId: 'trip-1' })
+  ];
+  const ids = (filter: Partial<typeof EMPTY_FILTER>) => applyFilter(entries, { ...EMPTY_FILTER, ...filter }).map(e => e.id);
+
+  it('keeps everything with the empty filter', () => {
+    expect(isFilterActive(EMPTY_FILTER)).toBe(false);
+    expect(ids({})).toEqual(['park', 'market', 'museum']);
+  });
+
+  it('narrows by date range, trip, category, photos and note text together', () => {
+    expect(ids({ dateRange: { start: '2025-06-03', end: '2025-06-03' } })).toEqual(['market']);
+    expect(ids({ dateRange: { start: '2025-06-02', end: '' } })).toEqual(['market', 'museum']);
+    expect(ids({ tripId: 'trip-1' })).toEqual(['market', 'museum']);
+    expect(ids({ categories: [Category.Nature, Category.Culture] })).toEqual(['park', 'museum']);
+    expect(ids({ hasPhoto: true })).toEqual(['museum']);
+    expect(ids({ text: '  market ' })).toEqual(['market']);
+    expect(ids({ tripId: 'trip-1', categories: [Category.Food], hasPhoto: true })).toEqual([]);
+  });
+});
+
+describe('filter URLs', () => {
+  it('round-trips a filter through the query string', () => {
+    const filter = { dateRange: { start: '2025-06-01', end: '2025-06-10' }, categories: [Category.Food, Category.Culture], hasPhoto: true, text: 'cheese', tripId: 'trip-1' };
+    expect(filterFromQuery(`?${filterToQuery(filter)}`)).toEqual(filter);
+    expect(filterToQuery(EMPTY_FILTER)).toBe('');
+  });
+
+  it('drops values a hand-edited URL gets wrong', () => {
+    expect(filterFromQuery('?from=June&to=2025-06-10&cat=Food,Sports&photo=yes')).toEqual({
+      ...EMPTY_FILTER,
+      dateRange: { start: '', end: '2025-06-10' },
+      categories: [Category.Food]
+    });
+  });
+});
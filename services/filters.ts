@@ -0,0 +1,65 @@
+import { JournalEntry, EntryFilter, Category } from '../types';
+
+export const EMPTY_FILTER: EntryFilter = {
+  dateRange: { start: '', end: '' },
+  categories: [],
+  hasPhoto: false,
+  text: '',
+  tripId: null
+};
+
+export const isFilterActive = (filter: EntryFilter) =>
+  !!(filter.dateRange.start || filter.dateRange.end || filter.categories.length || filter.hasPhoto || filter.text.trim() || filter.tripId);
+
+/**
+ * Whether a timestamp falls between two YYYY-MM-DD days, read as local calendar days with the end day inclusive.
+ * An empty day leaves that side open. Used for the date filter and for trip dates.
+ */
+export const isWithinDays = (timestamp: string, start: string, end: string) => {
+  const t = new Date(timestamp).getTime();
+  return (!start || t >= new Date(`${start}T00:00`).getTime())
+    && (!end || t < new Date(`${end}T00:00`).getTime() + 86400000);
+};
+
+export const applyFilter = (entries: JournalEntry[], filter: EntryFilter): JournalEntry[] => {
+  const text = filter.text.trim().toLowerCase();
+
+  return entries.filter(entry => {
+    if (filter.tripId && entry.tripId !== filter.tripId) return false;
+    if (!isWithinDays(entry.timestamp, filter.dateRange.start, filter.dateRange.end)) return false;
+    if (filter.categories.length && !filter.categories.includes(entry.category)) return false;
+    if (filter.hasPhoto && entry.photos.length === 0) return false;
+    if (text && !entry.note.toLowerCase().includes(text)) return false;
+    return true;
+  });
+};
+
+/**
+ * Serializes the filter into URL query parameters so a filtered view can be bookmarked
+ */
+export const filterToQuery = (filter: EntryFilter): string => {
+  const params = new URLSearchParams();
+  if (filter.tripId) params.set('trip', filter.tripId);
+  if (filter.dateRange.start) params.set('from', filter.dateRange.start);
+  if (filter.dateRange.end) params.set('to', filter.dateRange.end);
+  if (filter.categories.length) params.set('cat', filter.categories.join(','));
+  if (filter.hasPhoto) params.set('photo', '1');
+  if (filter.text.trim()) params.set('q', filter.text.trim());
+  return params.toString();
+};
+
+export const filterFromQuery = (search: string): EntryFilter => {
+  const params = new URLSearchParams(search);
+  const isDay = (v: string | null) => !!v && /^\d{4}-\d{2}-\d{2}$/.test(v);
+  const validCategories = Object.values(Category) as string[];
+  return {
+    dateRange: {
+      start: isDay(params.get('from')) ? params.get('from')! : '',
+      end: isDay(params.get('to')) ? params.get('to')! : ''
+    },
+    categories: (params.get('cat') || '').split(',').filter(c => validCategories.includes(c)) as Category[],
+    hasPhoto: params.get('photo') === '1',
+    text: params.get('q') || '',
+    tripId: params.get('trip') || null
+  };
+};
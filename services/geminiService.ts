@@ -1,76 +1,131 @@
-import { GoogleGenAI } from "@google/genai";
-import { JournalEntry } from "../types";
+import { AIProviderId, ChatTurn, JournalEntry, StoryOptions, Trip } from "../types";
+import { getAIProvider } from "./aiProvider";
+import { AIError } from "./api";
+import { sortChronologically } from "./geo";
+import { reverseGeocode } from "./geocoding";
+import { retrieveEntries } from "./retrieval";
+import { CITATION } from "./citations";
+import { parseStory, StoryDraft } from "./story";
 
-// Always use the direct process.env.API_KEY as per guidelines
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// The journal's AI features, run on the provider chosen in the AI settings.
+// Failures are thrown as AIError with a message the UI can show.
+
+const asAIError = (error: unknown) => {
+  if (error instanceof AIError) return error;
+  console.error("AI request failed:", error);
+  return new AIError('upstream_error', "The AI couldn't help this time. Try again in a moment.");
+};
+
+// Naming places is slow (the geocoder allows one lookup a second), so each request names only this many
+const MAX_PLACE_LOOKUPS = 5;
+
+/**
+ * Names traces that have no place name yet for this request only; traces get
+ * a saved name when they are created, moved or edited. Cancelling the signal
+ * stops between lookups with an AbortError.
+ */
+const withPlaceNames = async (entries: JournalEntry[], signal?: AbortSignal): Promise<JournalEntry[]> => {
+  const named = new Map<string, string>();
+  for (const entry of entries.filter(e => !e.placeName).slice(0, MAX_PLACE_LOOKUPS)) {
+    signal?.throwIfAborted();
+    const placeName = await reverseGeocode(entry.latitude, entry.longitude);
+    if (placeName) named.set(entry.id, placeName);
+  }
+  signal?.throwIfAborted();
+  return named.size > 0 ? entries.map(e => named.has(e.id) ? { ...e, placeName: named.get(e.id) } : e) : entries;
+};
 
 export const generateTravelSummary = async (entries: JournalEntry[]): Promise<string> => {
   if (entries.length === 0) return "No entries selected.";
+  try {
+    return (await getAIProvider().summarize(await withPlaceNames(entries))) || "Could not generate summary.";
+  } catch (error) {
+    throw asAIError(error);
+  }
+};
 
-  const entriesText = entries.map(e => `- On ${e.dateDisplay}, at a location (${e.category}), I wrote: "${e.note}"`).join("\n");
+/**
+ * Writes a story about the entries, calling onDraft with everything parsed so
+ * far as it streams in. Cancelling the signal stops it with an AbortError.
+ */
+export const writeTravelStory = async (
+  entries: JournalEntry[],
+  options: StoryOptions,
+  onDraft: (draft: StoryDraft) => void,
+  signal?: AbortSignal
+): Promise<StoryDraft & { provider: AIProviderId }> => {
+  const provider = getAIProvider();
+  const ordered = sortChronologically(await withPlaceNames(entries, signal));
+  let text = '';
+  try {
+    await provider.writeStory(ordered, options, (delta) => {
+      text += delta;
+      onDraft(parseStory(text, ordered));
+    }, signal);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw asAIError(error);
+  }
+  const story = parseStory(text, ordered);
+  if (!story.intro && story.sections.length === 0) throw new AIError('no_result', "The AI didn't have anything to say. Try again.");
+  return { ...story, provider: provider.id };
+};
 
-  const prompt = `Write a poetic and reflective travel summary (max 80 words) for these entries: \n${entriesText}\nTone: Warm, nostalgic, luminary.`;
+// How much of the conversation goes along with each question
+const CHAT_HISTORY = 10;
 
+/**
+ * Answers the last question in the conversation from the journal. The traces
+ * it seems to be about are picked here and handed to the provider, and the
+ * answer cites them as [n], meaning sourceIds[n - 1]. A follow-up that names
+ * nothing new ("and the day after?") searches with the question before it too.
+ */
+export const askJournal = async (
+  messages: ChatTurn[],
+  entries: JournalEntry[],
+  trips: Trip[]
+): Promise<{ text: string; sourceIds: string[] }> => {
+  const questions = messages.filter(m => m.role === 'user').map(m => m.text);
+  let sources = retrieveEntries(questions[questions.length - 1], entries, trips);
+  if (sources.length === 0 && questions.length > 1) sources = retrieveEntries(questions.slice(-2).join('\n'), entries, trips);
+  // Earlier answers cite earlier lists of traces, so their numbers would only mislead
+  const history = messages.slice(-CHAT_HISTORY)
+    .map(({ role, text }): ChatTurn => ({ role, text: role === 'assistant' ? text.replace(CITATION, '').trim() : text }))
+    .filter(m => m.text);
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-    });
-    // response.text is a property, not a method
-    return response.text || "Could not generate summary.";
+    const text = await getAIProvider().chat(history, sources, trips);
+    return { text: text || "I couldn't find an answer in your journal.", sourceIds: sources.map(e => e.id) };
   } catch (error) {
-    return "An error occurred.";
+    throw asAIError(error);
   }
 };
 
 export const enhanceEntryNote = async (rawNote: string, category: string): Promise<string> => {
   if (!rawNote.trim()) return rawNote;
-  const prompt = `Rewrite this raw note into an evocative travel journal entry (max 40 words): "${rawNote}". Category: ${category}.`;
   try {
-    const response = await ai.models.generateContent({ model: 'gemini-3-flash-preview', contents: prompt });
-    // response.text is a property
-    return response.text?.trim() || rawNote;
-  } catch { return rawNote; }
+    return (await getAIProvider().enhanceNote(rawNote, category)) || rawNote;
+  } catch (error) {
+    throw asAIError(error);
+  }
 };
 
-export const getPlaceContext = async (lat: number, lng: number): Promise<string> => {
-  const prompt = `I am at Lat: ${lat}, Lng: ${lng}. Tell me one interesting historical fact about this spot (max 40 words).`;
+export const getPlaceContext = async (lat: number, lng: number, placeName?: string | null): Promise<string> => {
   try {
-    const response = await ai.models.generateContent({ model: 'gemini-3-flash-preview', contents: prompt });
-    // response.text is a property
-    return response.text?.trim() || "A beautiful mysterious spot.";
-  } catch { return "Agent is offline."; }
+    const name = placeName || await reverseGeocode(lat, lng);
+    return (await getAIProvider().placeContext(lat, lng, name)) || "A beautiful mysterious spot.";
+  } catch (error) {
+    throw asAIError(error);
+  }
 };
 
 /**
- * 根据笔记生成 AI 艺术照片
+ * 根据笔记生成 AI 艺术照片，返回 /media/ 路径或 data URL；模型没有画出来时返回 null
  */
 export const paintMemory = async (note: string): Promise<string | null> => {
   if (!note.trim()) return null;
-
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [{ text: `A beautiful, atmospheric watercolor painting of a travel memory: "${note}". Dreamy, artistic, soft lighting, 1:1 aspect ratio.` }]
-      },
-      config: {
-        imageConfig: { aspectRatio: "1:1" }
-      }
-    });
-
-    // Iterate through all parts to find the image part, do not assume it is the first part.
-    if (response.candidates?.[0]?.content?.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          const base64EncodeString: string = part.inlineData.data;
-          return `data:${part.inlineData.mimeType};base64,${base64EncodeString}`;
-        }
-      }
-    }
-    return null;
+    return await getAIProvider().paint(note);
   } catch (error) {
-    console.error("Image generation failed:", error);
-    return null;
+    throw asAIError(error);
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,65 @@
+import { Coordinates, JournalEntry, RouteStats } from '../types';
+import { haversineDistance } from '../shared/geo.mjs';
+
+// Great-circle distance in kilometres, shared with the server's prompts
+export { haversineDistance };
+
+// One colour per day of travel, cycled when a trip runs longer than the palette
+export const ROUTE_DAY_COLORS = ['#A05C3B', '#5B7C99', '#6B8F71', '#C2847A', '#8E6C8A', '#B8963E', '#4F7A7A'];
+
+export const getDayColor = (dayIndex: number) => ROUTE_DAY_COLORS[dayIndex % ROUTE_DAY_COLORS.length];
+
+export const entryCoords = (entry: JournalEntry): Coordinates => ({ lat: entry.latitude, lng: entry.longitude });
+
+export const sortChronologically = (entries: JournalEntry[]): JournalEntry[] =>
+  [...entries].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+// Local calendar day, so an evening entry doesn't slip into the next UTC day
+export const toDayKey = (timestamp: string): string => {
+  const d = new Date(timestamp);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+};
+
+export const groupByDay = (entries: JournalEntry[]): { day: string; entries: JournalEntry[] }[] => {
+  const groups: { day: string; entries: JournalEntry[] }[] = [];
+  for (const entry of sortChronologically(entries)) {
+    const day = toDayKey(entry.timestamp);
+    const last = groups[groups.length - 1];
+    if (last && last.day === day) last.entries.push(entry);
+    else groups.push({ day, entries: [entry] });
+  }
+  return groups;
+};
+
+const pathLength = (entries: JournalEntry[]) => {
+  let km = 0;
+  for (let i = 1; i < entries.length; i++) {
+    km += haversineDistance(entryCoords(entries[i - 1]), entryCoords(entries[i]));
+  }
+  return km;
+};
+
+export const computeRouteStats = (entries: JournalEntry[]): RouteStats => {
+  const ordered = sortChronologically(entries);
+  const days = groupByDay(ordered).map(({ day, entries: dayEntries }) => ({
+    day,
+    km: pathLength(dayEntries),
+    stops: dayEntries.length
+  }));
+
+  let furthest: RouteStats['furthest'] = null;
+  if (ordered.length > 1) {
+    const origin = entryCoords(ordered[0]);
+    for (const entry of ordered.slice(1)) {
+      const km = haversineDistance(origin, entryCoords(entry));
+      if (!furthest || km > furthest.km) furthest = { entryId: entry.id, km };
+    }
+  }
+
+  return { totalKm: pathLength(ordered), days, furthest };
+};
+
+export const formatDistance = (km: number): string => {
+  if (km < 1) return `${Math.round(km * 1000)} m`;
+  return `${km < 100 ? km.toFixed(1) : Math.round(km).toLocaleString()} km`;
+};
@@ -0,0 +1,246 @@
+import { Category, JournalEntry, MediaItem } from '../types';
+
+export type ExportFormat = 'json' | 'geojson' | 'kml' | 'gpx';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'json', label: 'Journal backup (JSON)', extension: 'json', mimeType: 'application/json' },
+  { format: 'geojson', label: 'GeoJSON (QGIS, Mapbox)', extension: 'geojson', mimeType: 'application/geo+json' },
+  { format: 'kml', label: 'KML (Google Earth)', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  { format: 'gpx', label: 'GPX (Komoot, GPS devices)', extension: 'gpx', mimeType: 'application/gpx+xml' },
+];
+
+export interface SerializeOptions {
+  // Turns stored /media/ paths into absolute links; they open for whoever is signed in to the journal
+  resolveMediaUrl?: (url: string) => string | undefined;
+}
+
+export interface ParsedTraceFile {
+  format: Exclude<ExportFormat, 'json'>;
+  entries: Omit<JournalEntry, 'id'>[];
+  skipped: number; // Tracks, lines and polygons: only points become entries
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// Entry timestamps may be local datetime-local values; other tools expect UTC ISO
+const toIsoTime = (timestamp: string) => {
+  const d = new Date(timestamp);
+  return isNaN(d.getTime()) ? timestamp : d.toISOString();
+};
+
+const titleFor = (entry: Omit<JournalEntry, 'id'>) => {
+  if (entry.placeName) return entry.placeName;
+  const firstLine = entry.note.split('\n')[0];
+  return firstLine.length > 60 ? `${firstLine.slice(0, 57)}...` : firstLine || entry.category;
+};
+
+const photoUrls = (photos: MediaItem[], options: SerializeOptions) =>
+  photos.map(p => options.resolveMediaUrl?.(p.url) ?? p.url).filter(url => !url.startsWith('data:'));
+
+// --- Export ---
+
+export const toGeoJSON = (entries: JournalEntry[], options: SerializeOptions = {}): string => JSON.stringify({
+  type: 'FeatureCollection',
+  features: entries.map(entry => ({
+    type: 'Feature',
+    id: entry.id,
+    geometry: { type: 'Point', coordinates: [entry.longitude, entry.latitude] },
+    properties: {
+      name: titleFor(entry),
+      note: entry.note,
+      category: entry.category,
+      timestamp: toIsoTime(entry.timestamp),
+      placeName: entry.placeName ?? null,
+      tripId: entry.tripId ?? null,
+      photos: photoUrls(entry.photos, options)
+    }
+  }))
+}, null, 2);
+
+export const toKML = (entries: JournalEntry[], options: SerializeOptions = {}): string => {
+  const placemarks = entries.map(entry => {
+    const images = photoUrls(entry.photos, options).map(url => `<img src="${escapeXml(url)}" width="320" />`).join('');
+    const description = `<p>${escapeXml(entry.note).replace(/\n/g, '<br/>')}</p>${images}`;
+    return `    <Placemark id="${escapeXml(entry.id)}">
+      <name>${escapeXml(titleFor(entry))}</name>
+      <description><![CDATA[${description}]]></description>
+      <TimeStamp><when>${escapeXml(toIsoTime(entry.timestamp))}</when></TimeStamp>
+      <ExtendedData>
+        <Data name="note"><value>${escapeXml(entry.note)}</value></Data>
+        <Data name="category"><value>${escapeXml(entry.category)}</value></Data>
+        <Data name="timestamp"><value>${escapeXml(toIsoTime(entry.timestamp))}</value></Data>
+      </ExtendedData>
+      <Point><coordinates>${entry.longitude},${entry.latitude}</coordinates></Point>
+    </Placemark>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>Wanderlust Traces</name>
+${placemarks.join('\n')}
+  </Document>
+</kml>
+`;
+};
+
+export const toGPX = (entries: JournalEntry[], options: SerializeOptions = {}): string => {
+  const waypoints = entries.map(entry => {
+    const links = photoUrls(entry.photos, options).map(url => `\n    <link href="${escapeXml(url)}"><type>image</type></link>`).join('');
+    return `  <wpt lat="${entry.latitude}" lon="${entry.longitude}">
+    <time>${escapeXml(toIsoTime(entry.timestamp))}</time>
+    <name>${escapeXml(titleFor(entry))}</name>
+    <desc>${escapeXml(entry.note)}</desc>${links}
+    <type>${escapeXml(entry.category)}</type>
+  </wpt>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Wanderlust Traces" xmlns="http://www.topografix.com/GPX/1/1">
+${waypoints.join('\n')}
+</gpx>
+`;
+};
+
+export const serializeEntries = (entries: JournalEntry[], format: ExportFormat, options: SerializeOptions = {}): string => {
+  switch (format) {
+    case 'geojson': return toGeoJSON(entries, options);
+    case 'kml': return toKML(entries, options);
+    case 'gpx': return toGPX(entries, options);
+    default: return JSON.stringify(entries, null, 2);
+  }
+};
+
+// --- Import ---
+
+const toCategory = (value: unknown): Category => {
+  const text = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return Object.values(Category).find(c => c.toLowerCase() === text) ?? Category.Other;
+};
+
+const buildEntry = (fields: {
+  latitude: number;
+  longitude: number;
+  time?: string | null;
+  note?: string | null;
+  name?: string | null;
+  category?: unknown;
+  photos?: unknown;
+}): Omit<JournalEntry, 'id'> | null => {
+  const { latitude, longitude } = fields;
+  if (!isFinite(latitude) || !isFinite(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  const parsed = fields.time ? new Date(fields.time) : null;
+  const date = parsed && !isNaN(parsed.getTime()) ? parsed : new Date();
+  const note = fields.note?.trim() || fields.name?.trim() || '';
+  return {
+    latitude,
+    longitude,
+    timestamp: date.toISOString(),
+    dateDisplay: date.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }),
+    note,
+    category: toCategory(fields.category),
+    photos: Array.isArray(fields.photos)
+      ? fields.photos.filter((url): url is string => typeof url === 'string' && /^https?:\/\//.test(url)).map(url => ({ url, caption: '' }))
+      : [],
+    // A name that isn't just the note makes a good place label
+    placeName: fields.name?.trim() && fields.name.trim() !== note ? fields.name.trim() : null,
+    tripId: null
+  };
+};
+
+const parseGeoJSON = (data: any): ParsedTraceFile => {
+  const features: any[] = data?.type === 'FeatureCollection' ? data.features ?? []
+    : data?.type === 'Feature' ? [data] : [];
+  const entries: Omit<JournalEntry, 'id'>[] = [];
+  let skipped = 0;
+  for (const feature of features) {
+    const geometry = feature?.geometry;
+    const props = feature?.properties ?? {};
+    const points: number[][] = geometry?.type === 'Point' ? [geometry.coordinates]
+      : geometry?.type === 'MultiPoint' ? geometry.coordinates : [];
+    if (points.length === 0) { skipped++; continue; }
+    for (const [lng, lat] of points) {
+      const entry = buildEntry({
+        latitude: Number(lat),
+        longitude: Number(lng),
+        time: props.timestamp ?? props.time ?? props.date,
+        note: props.note ?? props.description ?? props.desc,
+        name: props.name ?? props.title ?? props.placeName,
+        category: props.category ?? props.type,
+        photos: props.photos
+      });
+      if (entry) entries.push(entry);
+      else skipped++;
+    }
+  }
+  return { format: 'geojson', entries, skipped };
+};
+
+const childText = (el: Element, tag: string) => el.getElementsByTagName(tag)[0]?.textContent ?? null;
+
+// Strips markup from KML descriptions, which are usually HTML
+const plainText = (html: string | null) => {
+  if (!html) return null;
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return doc.body.textContent;
+};
+
+const parseKML = (doc: Document): ParsedTraceFile => {
+  const entries: Omit<JournalEntry, 'id'>[] = [];
+  let skipped = 0;
+  for (const placemark of Array.from(doc.getElementsByTagName('Placemark'))) {
+    const point = placemark.getElementsByTagName('Point')[0];
+    const coords = point ? childText(point, 'coordinates')?.trim().split(',') : null;
+    if (!coords) { skipped++; continue; }
+    const data: Record<string, string> = {};
+    for (const d of Array.from(placemark.getElementsByTagName('Data'))) {
+      data[d.getAttribute('name') || ''] = childText(d, 'value') ?? '';
+    }
+    const entry = buildEntry({
+      latitude: Number(coords[1]),
+      longitude: Number(coords[0]),
+      time: data.timestamp ?? childText(placemark, 'when'),
+      note: data.note ?? plainText(childText(placemark, 'description')),
+      name: childText(placemark, 'name'),
+      category: data.category
+    });
+    if (entry) entries.push(entry);
+    else skipped++;
+  }
+  return { format: 'kml', entries, skipped };
+};
+
+const parseGPX = (doc: Document): ParsedTraceFile => {
+  const entries: Omit<JournalEntry, 'id'>[] = [];
+  for (const wpt of Array.from(doc.getElementsByTagName('wpt'))) {
+    const entry = buildEntry({
+      latitude: Number(wpt.getAttribute('lat')),
+      longitude: Number(wpt.getAttribute('lon')),
+      time: childText(wpt, 'time'),
+      note: childText(wpt, 'desc') ?? childText(wpt, 'cmt'),
+      name: childText(wpt, 'name'),
+      category: childText(wpt, 'type')
+    });
+    if (entry) entries.push(entry);
+  }
+  const skipped = doc.getElementsByTagName('trk').length + doc.getElementsByTagName('rte').length;
+  return { format: 'gpx', entries, skipped };
+};
+
+/**
+ * Reads GeoJSON, KML or GPX. Returns null for anything else (including the
+ * app's own JSON backups, which go through the regular import).
+ */
+export const parseTraceFile = (text: string, fileName: string): ParsedTraceFile | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  const trimmed = text.trimStart();
+  if (extension === 'geojson' || (trimmed.startsWith('{') && /"type"\s*:\s*"Feature/.test(trimmed))) {
+    return parseGeoJSON(JSON.parse(text));
+  }
+  if (!trimmed.startsWith('<')) return null;
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) return null;
+  const root = doc.documentElement.tagName.toLowerCase();
+  if (root === 'kml') return parseKML(doc);
+  if (root === 'gpx') return parseGPX(doc);
+  return null;
+};
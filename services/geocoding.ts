@@ -0,0 +1,101 @@
+/**
+ * Turns coordinates into short place names, e.g. "Greenwich Park, London".
+ * The lookup itself is pluggable (Nominatim by default); answers are cached
+ * in localStorage so the same spot is never looked up twice.
+ */
+export interface Geocoder {
+  id: string;
+  reverse(lat: number, lng: number): Promise<string | null>;
+}
+
+// Nominatim asks for an identifying email on every request and at most one request a second (Usage Policy)
+const NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+const CONTACT_EMAIL = 'wanderlust-traces@example.com';
+const NOMINATIM_INTERVAL_MS = 1100;
+// Never hold up saving an entry for long just to name the place
+const TIMEOUT_MS = 3000;
+
+const CACHE_KEY = 'luminary_geocode_cache';
+const CACHE_MAX_ITEMS = 1000;
+// About 11 m: close enough to share a name
+const CACHE_PRECISION = 4;
+
+export const createNominatimGeocoder = (): Geocoder => {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const lookup = async (lat: number, lng: number): Promise<string | null> => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS);
+    try {
+      const response = await fetch(`${NOMINATIM_URL}/reverse?format=json&zoom=16&lat=${lat}&lon=${lng}&email=${CONTACT_EMAIL}`, {
+        headers: { 'Accept-Language': 'en-US,en;q=0.9' },
+        signal: controller.signal
+      });
+      if (!response.ok) return null;
+      const data = await response.json();
+      const a = data.address || {};
+      const local = data.name || a.attraction || a.amenity || a.road || a.suburb || a.neighbourhood;
+      const city = a.city || a.town || a.village || a.county;
+      return [local, city].filter(Boolean).join(', ') || data.display_name || null;
+    } catch {
+      return null;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  };
+
+  return {
+    id: 'nominatim',
+    // Lookups wait their turn so a batch never breaks the one-a-second limit
+    reverse(lat, lng) {
+      const result = queue.then(() => lookup(lat, lng));
+      queue = result.then(() => new Promise(resolve => setTimeout(resolve, NOMINATIM_INTERVAL_MS)));
+      return result;
+    }
+  };
+};
+
+let geocoder: Geocoder = createNominatimGeocoder();
+
+export const setGeocoder = (next: Geocoder) => {
+  geocoder = next;
+};
+
+const cacheKey = (lat: number, lng: number) => `${geocoder.id}:${lat.toFixed(CACHE_PRECISION)},${lng.toFixed(CACHE_PRECISION)}`;
+
+const readCache = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(CACHE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const remember = (key: string, placeName: string) => {
+  const cache = readCache();
+  delete cache[key];
+  cache[key] = placeName;
+  // Keys keep insertion order, so the first ones are the oldest
+  const keys = Object.keys(cache);
+  keys.slice(0, Math.max(0, keys.length - CACHE_MAX_ITEMS)).forEach(k => delete cache[k]);
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(cache));
+  } catch {
+    // A full localStorage only costs us a repeat lookup
+  }
+};
+
+// The cache is a map of where someone has been, so it goes when the account changes
+export const clearGeocodeCache = () => localStorage.removeItem(CACHE_KEY);
+
+/**
+ * Short human place name for a coordinate, or null when the geocoder can't name it
+ */
+export const reverseGeocode = async (lat: number, lng: number): Promise<string | null> => {
+  const key = cacheKey(lat, lng);
+  const cached = readCache()[key];
+  if (cached) return cached;
+  const placeName = await geocoder.reverse(lat, lng);
+  if (placeName) remember(key, placeName);
+  return placeName;
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { Category, JournalEntry } from '../types';
+import { analyzeImport, validateEntry } from './importValidation';
+
+const row = (fields: Record<string, unknown> = {}) => ({
+  latitude: 51.5,
+  longitude: -0.12,
+  timestamp: '2025-06-01T09:00:00.000Z',
+  note: 'A walk in the park',
+  category: 'Nature',
+  ...fields
+});
+
+const existing = (id: string, fields: Partial<JournalEntry> = {}): JournalEntry => ({
+  ...row(),
+  id,
+  dateDisplay: 'Jun 1, 2025',
+  category: Category.Nature,
+  photos: [],
+  ...fields
+});
+
+describe('validateEntry', () => {
+  it('keeps the id of a backup row, fills in defaults and ignores fields it does not know', () => {
+    const { entry, messages } = validateEntry(row({ id: 'e1', revision: 7, ownerId: 'someone', legacy: true }));
+    expect(messages).toEqual([]);
+    expect(entry).toMatchObject({ id: 'e1', photos: [], placeName: null, tripId: null });
+    expect(entry!.dateDisplay).toBeTruthy();
+    expect(entry).not.toHaveProperty('revision');
+    expect(entry).not.toHaveProperty('legacy');
+  });
+
+  it('reads the single photoUrl of old backups as a gallery', () => {
+    expect(validateEntry(row({ photoUrl: '/media/a.jpg' })).entry).toMatchObject({ photos: [{ url: '/media/a.jpg', caption: '' }] });
+    expect(validateEntry(row({ photoUrl: null })).entry).toMatchObject({ photos: [] });
+  });
+
+  it('lists every problem with a row', () => {
+    expect(validateEntry('not a trace')).toEqual({ entry: null, messages: ['Not an object'] });
+    const { entry, messages } = validateEntry({ id: 5, latitude: 120, category: 'Sports', timestamp: 'someday' });
+    expect(entry).toBeNull();
+    expect(messages[0]).toBe('id must be a non-empty string');
+    expect(messages).toEqual(expect.arrayContaining([
+      'longitude is required',
+      'note is required',
+      expect.stringMatching(/^latitude must be/),
+      expect.stringMatching(/^category must be one of/),
+      expect.stringMatching(/^timestamp must be/)
+    ]));
+  });
+});
+
+describe('analyzeImport', () => {
+  const journal = [existing('e1')];
+
+  it('skips rows already in the journal when merging, by id or by time and place', () => {
+    const rows = [
+      row({ id: 'e1', note: 'Same id' }),
+      row({ id: 'other', latitude: 51.500001 }),
+      row({ timestamp: '2025-06-02T09:00:00.000Z' })
+    ];
+    const { accepted, duplicates, errors } = analyzeImport(rows, journal, 'merge');
+    expect(accepted).toMatchObject([{ timestamp: '2025-06-02T09:00:00.000Z' }]);
+    expect(duplicates).toBe(2);
+    expect(errors).toEqual([]);
+  });
+
+  it('ignores the current journal when replacing but still drops repeats within the file', () => {
+    const rows = [row({ id: 'e1' }), row({ id: 'e1', note: 'Again' }), row()];
+    const { accepted, duplicates } = analyzeImport(rows, journal, 'replace');
+    expect(accepted).toMatchObject([{ id: 'e1', note: 'A walk in the park' }]);
+    expect(duplicates).toBe(2);
+  });
+
+  it('reports bad rows by their position in the file, with their id when they have one', () => {
+    const { accepted, errors } = analyzeImport([row({ timestamp: '2025-06-03T09:00:00.000Z' }), { id: 'broken' }, null], journal, 'merge');
+    expect(accepted).toHaveLength(1);
+    expect(errors).toMatchObject([{ row: 2, id: 'broken' }, { row: 3, messages: ['Not an object'] }]);
+    expect(errors[1]).not.toHaveProperty('id');
+  });
+});
@@ -0,0 +1,79 @@
+import { ImportMode, ImportRowError, JournalEntry, JournalEntryInput } from '../types';
+import { withPhotos } from './media';
+import { validateEntryInput } from './entrySchema';
+
+export type ImportCandidate = JournalEntryInput & { id?: string };
+
+export interface ImportAnalysis {
+  accepted: ImportCandidate[];
+  duplicates: number;
+  errors: ImportRowError[];
+}
+
+/**
+ * Checks one row of an imported journal against schema/journalEntry.json, the
+ * rules the server's POST /entries/import applies, so the preview reports what
+ * the server will accept. Backups carry ids and extra fields; the id is kept
+ * for de-duplication and the rest is ignored.
+ */
+export const validateEntry = (raw: unknown): { entry: ImportCandidate | null; messages: string[] } => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return { entry: null, messages: ['Not an object'] };
+  const row = withPhotos(raw as Record<string, any>);
+  const { fields, errors } = validateEntryInput(row, { lenient: true });
+  const messages = [...errors];
+  if (row.id !== undefined && (typeof row.id !== 'string' || !row.id)) messages.unshift('id must be a non-empty string');
+  if (!fields || messages.length > 0) return { entry: null, messages };
+
+  const timestamp = fields.timestamp!;
+  return {
+    entry: {
+      ...(row.id ? { id: row.id } : {}),
+      latitude: fields.latitude!,
+      longitude: fields.longitude!,
+      timestamp,
+      dateDisplay: fields.dateDisplay || new Date(timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }),
+      note: fields.note!,
+      category: fields.category!,
+      photos: (fields.photos ?? []).map(p => ({ url: p.url, caption: p.caption || '', ...(p.aiGenerated ? { aiGenerated: true } : {}) })),
+      placeName: fields.placeName || null,
+      tripId: fields.tripId || null
+    },
+    messages
+  };
+};
+
+// Same moment at the same spot (to ~1 m) is the same trace, whatever its id
+export const dedupeKey = (entry: Pick<JournalEntry, 'timestamp' | 'latitude' | 'longitude'>) =>
+  `${new Date(entry.timestamp).getTime()}|${entry.latitude.toFixed(5)}|${entry.longitude.toFixed(5)}`;
+
+/**
+ * Validates every row and drops duplicates, both within the file and, when
+ * merging, against the journal we already have.
+ */
+export const analyzeImport = (rows: unknown[], existing: JournalEntry[], mode: ImportMode): ImportAnalysis => {
+  const baseline = mode === 'merge' ? existing : [];
+  const seenIds = new Set(baseline.map(e => e.id));
+  const seenKeys = new Set(baseline.map(dedupeKey));
+  const accepted: ImportCandidate[] = [];
+  const errors: ImportRowError[] = [];
+  let duplicates = 0;
+
+  rows.forEach((raw, index) => {
+    const { entry, messages } = validateEntry(raw);
+    if (!entry) {
+      const id = (raw as any)?.id;
+      errors.push({ row: index + 1, ...(typeof id === 'string' ? { id } : {}), messages });
+      return;
+    }
+    const key = dedupeKey(entry);
+    if ((entry.id && seenIds.has(entry.id)) || seenKeys.has(key)) {
+      duplicates++;
+      return;
+    }
+    if (entry.id) seenIds.add(entry.id);
+    seenKeys.add(key);
+    accepted.push(entry);
+  });
+
+  return { accepted, duplicates, errors };
+};
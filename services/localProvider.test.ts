@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { Category, JournalEntry } from '../types';
+import { createLocalProvider } from './localProvider';
+import { parseStory } from './story';
+
+const entry = (id: string, timestamp: string, fields: Partial<JournalEntry> = {}): JournalEntry => ({
+  id,
+  latitude: 51.5,
+  longitude: -0.12,
+  timestamp,
+  dateDisplay: 'Jun 1, 2025, 10:00 AM',
+  note: '',
+  category: Category.Other,
+  photos: [],
+  ...fields
+});
+
+const trip = [
+  entry('c', '2025-06-02T12:00:00', { category: Category.Culture, placeName: 'Louvre, Paris', latitude: 48.86, longitude: 2.34, note: 'so many paintings' }),
+  entry('a', '2025-06-01T09:00:00', { category: Category.Food, placeName: 'Borough Market, London', note: 'the best pie I have ever had' }),
+  entry('b', '2025-06-01T15:00:00', { category: Category.Food, placeName: 'Soho, London', latitude: 51.51, longitude: -0.13 })
+];
+
+const writeStory = async (entries: JournalEntry[], tone: 'poetic' | 'itinerary' | 'diary' | 'postcard') => {
+  let text = '';
+  await createLocalProvider().writeStory(entries, { tone, length: 'long' }, (delta) => { text += delta; });
+  return text;
+};
+
+describe('local provider', () => {
+  const provider = createLocalProvider();
+
+  it('summarizes in time order whatever order the traces arrive in', async () => {
+    const summary = await provider.summarize(trip);
+    expect(summary).toMatch(/^2 days and 3 traces across \d/);
+    expect(summary).toContain('drawn mostly to food and culture');
+    expect(summary).toContain('It began at Borough Market, London and ended at Louvre, Paris.');
+    expect(summary).toContain('"the best pie I have ever had"');
+    expect(await provider.summarize([...trip].reverse())).toBe(summary);
+  });
+
+  it('enhances a note without stacking the mood on a second pass', async () => {
+    const once = await provider.enhanceNote('lovely walk by the river', Category.Nature);
+    expect(once).toBe('Out in the open air: Lovely walk by the river.');
+    expect(await provider.enhanceNote(once!, Category.Nature)).toBe(once);
+  });
+
+  it('describes a place from its coordinates alone', async () => {
+    const context = await provider.placeContext(-33.87, 151.21, null);
+    expect(context).toContain('33.87°S, 151.21°E');
+    expect(context).toContain('south of the equator');
+    expect(context).toContain('10 hours ahead of Greenwich');
+    expect(await provider.placeContext(-33.87, 151.21, 'Sydney')).toMatch(/^Sydney, /);
+  });
+
+  it('has nothing to paint without a canvas', async () => {
+    expect(await provider.paint('sunset over the bay')).toBeNull();
+  });
+
+  it('lists the retrieved traces with citations and the trip most of them belong to', async () => {
+    const answer = await provider.chat([{ role: 'user', text: 'Where did I eat?' }], trip.map(e => ({ ...e, tripId: 't1' })), [
+      { id: 't1', name: 'Summer in Europe', startDate: '2025-06-01', endDate: '2025-06-10', coverPhotoUrl: null, color: '#A05C3B' }
+    ]);
+    expect(answer).toMatch(/^I found 3 traces that look related:/);
+    expect(answer).toContain('[1]\n');
+    expect(answer).toContain('[3]\n');
+    expect(answer).toContain('Most of them (3) are from Summer in Europe.');
+    expect(await provider.chat([{ role: 'user', text: 'Anything?' }], [], [])).toMatch(/^I couldn't find any traces/);
+  });
+
+  it('streams a story that parses into one section per day, citing every trace', async () => {
+    const ordered = [trip[1], trip[2], trip[0]];
+    const story = parseStory(await writeStory(ordered, 'itinerary'), ordered);
+    expect(story.title).toBe('Itinerary: 2 days, 3 stops');
+    expect(story.sections.map(s => s.day)).toEqual(['2025-06-01', '2025-06-02']);
+    expect(story.sections.map(s => s.entryIds)).toEqual([['a', 'b'], ['c']]);
+  });
+
+  it('tells the same story every time', async () => {
+    const ordered = [trip[1], trip[2], trip[0]];
+    for (const tone of ['poetic', 'diary', 'postcard'] as const) {
+      expect(await writeStory(ordered, tone)).toBe(await writeStory(ordered, tone));
+    }
+  });
+
+  it('stops a story when the signal is cancelled', async () => {
+    const controller = new AbortController();
+    const received: string[] = [];
+    const writing = provider.writeStory(trip, { tone: 'diary', length: 'long' }, (text) => {
+      received.push(text);
+      controller.abort();
+    }, controller.signal);
+    await expect(writing).rejects.toThrow();
+    expect(received).toHaveLength(1);
+  });
+});
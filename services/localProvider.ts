@@ -0,0 +1,205 @@
+import { Category, JournalEntry, StoryLength, StoryOptions } from "../types";
+import { AIProvider } from "./aiProvider";
+import { computeRouteStats, entryCoords, formatDistance, groupByDay, haversineDistance } from "./geo";
+
+/**
+ * Works offline with no API key: every answer is built from the input alone,
+ * so the same input always gives the same output. Meant for development and
+ * tests, and as a stand-in when no Gemini key is configured.
+ */
+
+const MOODS: Record<string, string> = {
+  [Category.Food]: 'A taste to remember',
+  [Category.Shopping]: 'A find worth keeping',
+  [Category.Culture]: 'A moment with history',
+  [Category.Nature]: 'Out in the open air',
+  [Category.Other]: 'A small adventure'
+};
+
+const limitWords = (text: string, max: number) => {
+  const words = text.split(/\s+/).filter(Boolean);
+  return words.length > max ? `${words.slice(0, max).join(' ')}…` : words.join(' ');
+};
+
+const sentence = (text: string) => {
+  const trimmed = text.trim();
+  if (!trimmed) return trimmed;
+  const capitalized = trimmed[0].toUpperCase() + trimmed.slice(1);
+  return /[.!?…]$/.test(capitalized) ? capitalized : `${capitalized}.`;
+};
+
+const describeStop = (entry: JournalEntry) => entry.placeName ? `at ${entry.placeName}` : `with a ${entry.category.toLowerCase()} stop`;
+
+const localDay = (entry: JournalEntry) => new Date(entry.timestamp).toDateString();
+
+// FNV-1a, enough to turn a note into a stable seed
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+  return h >>> 0;
+};
+
+// mulberry32: a tiny seeded random number generator
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// How much of each note a story quotes, and how many stops it mentions per day
+const STORY_DETAIL: Record<StoryLength, { words: number; stops: number }> = {
+  short: { words: 8, stops: 2 },
+  medium: { words: 20, stops: 4 },
+  long: { words: 45, stops: Infinity }
+};
+
+const STREAM_DELAY_MS = 25;
+
+const timeOf = (entry: JournalEntry) =>
+  new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const buildStory = (entries: JournalEntry[], { tone, length }: StoryOptions) => {
+  const { words, stops } = STORY_DETAIL[length];
+  const days = groupByDay(entries);
+  const first = entries[0];
+  const cite = (entry: JournalEntry) => `[${entries.indexOf(entry) + 1}]`;
+  const leg = (entry: JournalEntry) => {
+    const previous = entries[entries.indexOf(entry) - 1];
+    return previous ? ` (${formatDistance(haversineDistance(entryCoords(previous), entryCoords(entry)))} from the last stop)` : '';
+  };
+  const quote = (entry: JournalEntry) => entry.note.trim() ? ` ${sentence(limitWords(entry.note, words))}` : '';
+  const dayCount = `${days.length} ${days.length === 1 ? 'day' : 'days'}`;
+
+  const title = {
+    poetic: `${dayCount} of wandering`,
+    itinerary: `Itinerary: ${dayCount}, ${entries.length} ${entries.length === 1 ? 'stop' : 'stops'}`,
+    diary: 'My travel diary',
+    postcard: `Greetings from ${first.placeName?.split(',')[0] ?? 'the road'}`
+  }[tone];
+  const intro = {
+    poetic: `Some journeys are measured in miles, this one in moments: ${dayCount}, ${entries.length} traces, each a small light on the map.`,
+    itinerary: `${dayCount} and ${entries.length} recorded stops over ${formatDistance(computeRouteStats(entries).totalKm)}, from ${first.dateDisplay.split(',')[0]}.`,
+    diary: `I kept these notes over ${dayCount}. Here is how it went.`,
+    postcard: 'Dear friend, wish you were here! A quick note on what I have been up to.'
+  }[tone];
+
+  const line = (entry: JournalEntry) => {
+    const stop = describeStop(entry);
+    switch (tone) {
+      case 'poetic': return `${MOODS[entry.category] ?? MOODS[Category.Other]} ${stop}.${quote(entry)} ${cite(entry)}`;
+      case 'itinerary': return `${timeOf(entry)}: ${entry.category} ${stop}${leg(entry)}.${quote(entry)} ${cite(entry)}`;
+      case 'diary': return `At ${timeOf(entry)} I stopped ${stop}.${quote(entry)} ${cite(entry)}`;
+      case 'postcard': return `Then ${stop}!${quote(entry)} ${cite(entry)}`;
+    }
+  };
+
+  const sections = days.map(({ day, entries: dayEntries }, i) => {
+    const heading = tone === 'poetic' ? (dayEntries[0].placeName?.split(',')[0] ?? `Day ${i + 1}`) : `Day ${i + 1}`;
+    const shown = dayEntries.slice(0, stops);
+    const more = dayEntries.length - shown.length;
+    const rest = more > 0 ? ` And ${more} more ${more === 1 ? 'stop' : 'stops'} besides.` : '';
+    const signOff = tone === 'postcard' && i === days.length - 1 ? '\n\nSee you soon!' : '';
+    return `## ${day} | ${heading}\n${shown.map(line).join(' ')}${rest}${signOff}`;
+  });
+
+  return [`TITLE: ${title}`, intro, ...sections].join('\n');
+};
+
+export const createLocalProvider = (): AIProvider => ({
+  id: 'local',
+
+  async summarize(entries) {
+    const sorted = [...entries].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    const days = new Set(sorted.map(localDay)).size;
+    const counts = new Map<string, number>();
+    sorted.forEach(e => counts.set(e.category, (counts.get(e.category) ?? 0) + 1));
+    const favourites = [...counts.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, 2)
+      .map(([category]) => category.toLowerCase());
+    const first = sorted[0];
+    const last = sorted[sorted.length - 1];
+    const { totalKm } = computeRouteStats(sorted);
+    const distance = totalKm > 0 ? ` across ${formatDistance(totalKm)}` : '';
+    const span = `${days} ${days === 1 ? 'day' : 'days'} and ${sorted.length} ${sorted.length === 1 ? 'trace' : 'traces'}${distance}`;
+    const route = sorted.length > 1 ? `It began ${describeStop(first)} and ended ${describeStop(last)}.` : `It all happened ${describeStop(first)}.`;
+    const quote = first.note.trim() ? ` "${limitWords(first.note, 12)}"` : '';
+    return `${span}, drawn mostly to ${favourites.join(' and ')}. ${route}${quote} A journey worth remembering.`;
+  },
+
+  async enhanceNote(note, category) {
+    const mood = MOODS[category] ?? MOODS[Category.Other];
+    const body = note.trim().startsWith(`${mood}:`) ? note.trim().slice(mood.length + 1) : note;
+    return `${mood}: ${sentence(limitWords(body, 36))}`;
+  },
+
+  async placeContext(lat, lng, placeName) {
+    const km = Math.round(Math.abs(lat) * 111.2);
+    const hours = Math.round(lng / 15);
+    const position = `${Math.abs(lat).toFixed(2)}°${lat >= 0 ? 'N' : 'S'}, ${Math.abs(lng).toFixed(2)}°${lng >= 0 ? 'E' : 'W'}`;
+    const clock = hours === 0
+      ? 'the sun keeps roughly Greenwich time'
+      : `the sun runs about ${Math.abs(hours)} ${Math.abs(hours) === 1 ? 'hour' : 'hours'} ${hours > 0 ? 'ahead of' : 'behind'} Greenwich`;
+    return `${placeName ? `${placeName}, ` : ''}${position}: about ${km.toLocaleString()} km ${lat >= 0 ? 'north' : 'south'} of the equator, where ${clock}.`;
+  },
+
+  // Soft overlapping washes of colour, seeded by the note
+  async paint(note) {
+    if (typeof document === 'undefined') return null;
+    const size = 512;
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    const random = seededRandom(hash(note));
+    const hue = Math.floor(random() * 360);
+
+    const background = ctx.createLinearGradient(0, 0, size, size);
+    background.addColorStop(0, `hsl(${hue}, 60%, 92%)`);
+    background.addColorStop(1, `hsl(${(hue + 60) % 360}, 55%, 85%)`);
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, size, size);
+
+    for (let i = 0; i < 14; i++) {
+      const x = random() * size;
+      const y = random() * size;
+      const radius = 40 + random() * 140;
+      const wash = ctx.createRadialGradient(x, y, 0, x, y, radius);
+      const shade = (hue + Math.floor(random() * 120) - 60 + 360) % 360;
+      wash.addColorStop(0, `hsla(${shade}, 65%, 70%, 0.45)`);
+      wash.addColorStop(1, `hsla(${shade}, 65%, 70%, 0)`);
+      ctx.fillStyle = wash;
+      ctx.beginPath();
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    return canvas.toDataURL('image/png');
+  },
+
+  // Lists what retrieval found rather than answering: there is nothing here that understands the question
+  async chat(_messages, entries, trips) {
+    if (entries.length === 0) return "I couldn't find any traces about that. Try naming a place, a trip or what you did there.";
+    const lines = entries.map((entry, i) => {
+      const quote = entry.note.trim() ? ` ${sentence(limitWords(entry.note, 12))}` : '';
+      return `${entry.dateDisplay.split(',')[0]}: ${entry.category} ${describeStop(entry)}.${quote} [${i + 1}]`;
+    });
+    const perTrip = new Map<string, number>();
+    entries.forEach(e => e.tripId && perTrip.set(e.tripId, (perTrip.get(e.tripId) ?? 0) + 1));
+    const [topTripId, topCount] = [...perTrip.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+    const topTrip = trips.find(t => t.id === topTripId);
+    const tripLine = topTrip ? `\nMost of them (${topCount}) are from ${topTrip.name}.` : '';
+    return `I found ${entries.length} ${entries.length === 1 ? 'trace' : 'traces'} that look related:\n${lines.join('\n')}${tripLine}`;
+  },
+
+  // Handed out a few words at a time, so stories appear the same way as from the server
+  async writeStory(entries, options, onText, signal) {
+    const chunks = buildStory(entries, options).match(/\S+\s*/g) ?? [];
+    for (let i = 0; i < chunks.length; i += 3) {
+      signal?.throwIfAborted();
+      onText(chunks.slice(i, i + 3).join(''));
+      await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+    }
+  }
+});
@@ -0,0 +1,30 @@
+import { MediaItem } from '../types';
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = /^data:([^;]+)/.exec(header)?.[1] || 'application/octet-stream';
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+type LegacyPhotoFields = { photos?: MediaItem[]; photoUrl?: string | null };
+
+/**
+ * Entries saved before galleries had a single photoUrl. Folds it into photos so
+ * old caches, exports and queued offline edits keep working.
+ */
+export const withPhotos = <T extends LegacyPhotoFields>(entry: T): Omit<T, 'photoUrl'> & { photos: MediaItem[] } => {
+  const { photoUrl, ...rest } = entry;
+  if (!('photoUrl' in entry)) return { ...rest, photos: entry.photos ?? [] };
+  return { ...rest, photos: photoUrl ? [{ url: photoUrl, caption: '' }] : [] };
+};
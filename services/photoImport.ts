@@ -0,0 +1,95 @@
+import { Category } from '../types';
+import { readPhotoMetadata } from './exif';
+import { haversineDistance } from './geo';
+
+// Shots closer than this in space and time become one draft entry
+const GROUP_RADIUS_KM = 0.25;
+const GROUP_GAP_MINUTES = 60;
+
+export interface ImportedPhoto {
+  file: File;
+  latitude: number | null;
+  longitude: number | null;
+  takenAt: string; // YYYY-MM-DDTHH:mm; the file's modified time when the camera didn't record one
+}
+
+export interface PhotoDraft {
+  id: string;
+  photos: ImportedPhoto[];
+  latitude: number | null; // null means the photos had no GPS and the draft can't be placed
+  longitude: number | null;
+  takenAt: string;
+  note: string;
+  category: Category;
+  selected: boolean;
+}
+
+const toLocalInputValue = (ms: number) =>
+  new Date(ms - new Date(ms).getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
+export const readImportedPhotos = async (files: File[]): Promise<ImportedPhoto[]> => {
+  const images = files.filter(f => f.type.startsWith('image/'));
+  const photos: ImportedPhoto[] = [];
+  // One at a time: a folder can hold hundreds of large images
+  for (const file of images) {
+    const metadata = await readPhotoMetadata(file);
+    photos.push({
+      file,
+      latitude: metadata?.latitude ?? null,
+      longitude: metadata?.longitude ?? null,
+      takenAt: metadata?.takenAt ?? toLocalInputValue(file.lastModified)
+    });
+  }
+  return photos.sort((a, b) => a.takenAt.localeCompare(b.takenAt));
+};
+
+const minutesBetween = (a: string, b: string) => Math.abs(new Date(b).getTime() - new Date(a).getTime()) / 60000;
+
+const draftFrom = (photos: ImportedPhoto[]): PhotoDraft => {
+  const first = photos[0];
+  return {
+    id: `${first.file.name}-${first.file.lastModified}`,
+    photos,
+    latitude: first.latitude,
+    longitude: first.longitude,
+    takenAt: first.takenAt,
+    note: '',
+    category: Category.Other,
+    selected: first.latitude !== null
+  };
+};
+
+/**
+ * Turns chronologically sorted photos into draft entries. With grouping on, a
+ * shot joins the previous draft when it was taken nearby shortly afterwards.
+ */
+export const groupPhotoDrafts = (photos: ImportedPhoto[], groupNearby: boolean): PhotoDraft[] => {
+  if (!groupNearby) return photos.map(photo => draftFrom([photo]));
+  const groups: ImportedPhoto[][] = [];
+  for (const photo of photos) {
+    const group = groups[groups.length - 1];
+    const anchor = group?.[0];
+    const last = group?.[group.length - 1];
+    const isNearby = anchor && last
+      && photo.latitude !== null && photo.longitude !== null
+      && anchor.latitude !== null && anchor.longitude !== null
+      && haversineDistance({ lat: anchor.latitude, lng: anchor.longitude }, { lat: photo.latitude, lng: photo.longitude }) <= GROUP_RADIUS_KM
+      && minutesBetween(last.takenAt, photo.takenAt) <= GROUP_GAP_MINUTES;
+    if (isNearby) group.push(photo);
+    else groups.push([photo]);
+  }
+  return groups.map(draftFrom);
+};
+
+/**
+ * The placed draft taken closest in time to one without GPS. Phones often lose
+ * the fix indoors, so a shot from minutes earlier is usually a good stand-in.
+ */
+export const nearestPlacedDraft = (draft: PhotoDraft, drafts: PhotoDraft[]): PhotoDraft | null => {
+  let nearest: PhotoDraft | null = null;
+  for (const other of drafts) {
+    if (other.id === draft.id || other.latitude === null || other.longitude === null) continue;
+    if (!nearest || minutesBetween(draft.takenAt, other.takenAt) < minutesBetween(draft.takenAt, nearest.takenAt)) nearest = other;
+  }
+  return nearest;
+};
@@ -0,0 +1,98 @@
+import { Category, JournalEntry, Trip } from '../types';
+import { tokenize } from '../shared/search.mjs';
+
+/**
+ * Picks the traces a question to the journal assistant is about, so the AI
+ * reads a handful of relevant ones instead of the whole journal. Words are
+ * matched against place names, categories and notes like the journal search,
+ * but any word may match, everyday words hint at a category ("eat" → Food),
+ * and a trip name, year or month in the question narrows the search to it.
+ */
+
+export const RETRIEVAL_LIMIT = 12;
+
+const WEIGHTS = { placeName: 3, category: 2, note: 1 };
+const CATEGORY_HINT_SCORE = 2;
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'all', 'an', 'and', 'any', 'are', 'at', 'be', 'by', 'can', 'did', 'do', 'does', 'during', 'for',
+  'from', 'go', 'got', 'had', 'has', 'have', 'how', 'i', 'in', 'is', 'it', 'last', 'may', 'me', 'most', 'much', 'many',
+  'my', 'of', 'on', 'or', 'our', 'place', 'places', 'show', 'some', 'stop', 'stops', 'tell', 'than', 'that', 'the',
+  'their', 'there', 'this', 'to', 'trace', 'traces', 'trip', 'trips', 'us', 'visit', 'visited', 'was', 'we', 'went',
+  'were', 'what', 'when', 'where', 'which', 'who', 'why', 'with', 'you'
+]);
+
+const CATEGORY_HINTS: Record<Category, string[]> = {
+  [Category.Food]: ['eat', 'ate', 'eaten', 'eating', 'food', 'restaurant', 'restaurants', 'lunch', 'dinner', 'breakfast', 'brunch', 'cafe', 'coffee', 'drink', 'drinks', 'dish', 'meal', 'meals', 'bakery', 'taste', 'tasted'],
+  [Category.Shopping]: ['shop', 'shops', 'shopping', 'buy', 'bought', 'market', 'markets', 'store', 'souvenir', 'souvenirs'],
+  [Category.Culture]: ['museum', 'museums', 'church', 'cathedral', 'history', 'historic', 'art', 'gallery', 'temple', 'castle', 'culture', 'monument', 'palace'],
+  [Category.Nature]: ['nature', 'park', 'parks', 'hike', 'hiking', 'beach', 'beaches', 'mountain', 'mountains', 'lake', 'river', 'garden', 'forest', 'sea', 'outdoors', 'sunset'],
+  [Category.Other]: []
+};
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+const monthOf = (word: string) => MONTHS.indexOf(word);
+
+const fieldWords = (entry: JournalEntry) => ({
+  placeName: tokenize(entry.placeName || ''),
+  category: tokenize(entry.category || ''),
+  note: tokenize(entry.note || '')
+});
+
+/**
+ * The traces most relevant to the question, oldest first, or none when
+ * nothing in the journal seems to match.
+ */
+export const retrieveEntries = (
+  question: string,
+  entries: JournalEntry[],
+  trips: Trip[],
+  limit = RETRIEVAL_LIMIT
+): JournalEntry[] => {
+  const words = tokenize(question);
+  const wordSet = new Set(words);
+
+  const hinted = new Set(
+    (Object.keys(CATEGORY_HINTS) as Category[]).filter(category => CATEGORY_HINTS[category].some(hint => wordSet.has(hint)))
+  );
+  // A trip counts as named when every word of its name is in the question
+  const tripIds = new Set(trips.filter(trip => {
+    const nameWords = tokenize(trip.name).filter(w => !STOP_WORDS.has(w));
+    return nameWords.length > 0 && nameWords.every(w => wordSet.has(w));
+  }).map(trip => trip.id));
+  const tripWords = new Set(trips.filter(trip => tripIds.has(trip.id)).flatMap(trip => tokenize(trip.name)));
+  const years = new Set(words.filter(w => /^(19|20)\d{2}$/.test(w)).map(Number));
+  // "may" is more often a word than a month, so it only counts next to a year
+  const months = new Set(words.filter(w => w !== 'may' || years.size > 0).map(monthOf).filter(m => m >= 0));
+
+  const terms = words.filter(w => !STOP_WORDS.has(w) && !tripWords.has(w) && !years.has(Number(w)) && !months.has(monthOf(w)));
+
+  const scored: { entry: JournalEntry; score: number }[] = [];
+  for (const entry of entries) {
+    const date = new Date(entry.timestamp);
+    if (tripIds.size > 0 && !(entry.tripId && tripIds.has(entry.tripId))) continue;
+    if (years.size > 0 && !years.has(date.getFullYear())) continue;
+    if (months.size > 0 && !months.has(date.getMonth())) continue;
+
+    const fields = fieldWords(entry);
+    let score = hinted.has(entry.category) ? CATEGORY_HINT_SCORE : 0;
+    for (const term of terms) {
+      for (const field of Object.keys(WEIGHTS) as (keyof typeof WEIGHTS)[]) {
+        if (fields[field].some(w => w.startsWith(term))) score += WEIGHTS[field];
+      }
+    }
+    scored.push({ entry, score });
+  }
+
+  // Naming only a trip or a date ("what did we do in May 2024?") is a question about all of it
+  const narrowed = tripIds.size > 0 || years.size > 0 || months.size > 0;
+  const matches = scored.some(s => s.score > 0) ? scored.filter(s => s.score > 0) : narrowed ? scored : [];
+
+  return matches
+    .sort((a, b) => b.score - a.score || new Date(b.entry.timestamp).getTime() - new Date(a.entry.timestamp).getTime())
+    .slice(0, limit)
+    .map(s => s.entry)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+};
+
@@ -0,0 +1,24 @@
+import { AISettings, JournalEntry } from "../types";
+import { AIProvider } from "./aiProvider";
+import { ApiService } from "./api";
+
+/**
+ * Gemini through the journal server, which holds the API key, rate-limits
+ * each account and caches repeated requests. Failures arrive as AIError.
+ */
+// Names the client looked up for traces that have none saved, so the server can use them without a write
+const placeNames = (entries: JournalEntry[]): Record<string, string> =>
+  Object.fromEntries(entries.filter(e => e.placeName).map(e => [e.id, e.placeName!]));
+
+export const createServerProvider = ({ textModel, imageModel, includePhotos }: Omit<AISettings, 'provider'>): AIProvider => ({
+  id: 'gemini',
+  // The server reads the traces (and their photos) itself, so only ids leave the browser
+  summarize: (entries) => ApiService.aiSummary(entries.map(e => e.id), { model: textModel, includePhotos, placeNames: placeNames(entries) }),
+  enhanceNote: (note, category) => ApiService.aiEnhance(note, category, textModel),
+  placeContext: (lat, lng, placeName) => ApiService.aiPlaceContext(lat, lng, placeName, textModel),
+  paint: (note) => ApiService.aiPaint(note, imageModel),
+  writeStory: (entries, options, onText, signal) =>
+    ApiService.aiStory(entries.map(e => e.id), options, { model: textModel, includePhotos, placeNames: placeNames(entries) }, onText, signal),
+  // The server knows the trips and counts the whole journal itself
+  chat: (messages, entries) => ApiService.aiChat(messages, entries.map(e => e.id), textModel)
+});
@@ -0,0 +1,91 @@
+import { DateRange, JournalEntry, StoryLength, StorySection, StoryTone, TravelStory } from "../types";
+import { toDayKey } from "./geo";
+import { CITATION, citedEntryIds } from "./citations";
+
+/**
+ * Every provider writes stories in the same plain-text layout, so a story can
+ * be shown while it streams and split into sections once it's done:
+ *
+ *   TITLE: A week in Lisbon
+ *   One short introduction paragraph.
+ *   ## 2024-05-01 | Arrival
+ *   What happened that day, citing traces by number. [1] [2]
+ *
+ * Traces are numbered from 1 in the order they were handed to the provider.
+ */
+
+export type StoryDraft = Pick<TravelStory, 'title' | 'intro' | 'sections'>;
+
+export const STORY_TONES: { id: StoryTone; label: string; description: string }[] = [
+  { id: 'poetic', label: 'Poetic', description: 'Warm and reflective' },
+  { id: 'itinerary', label: 'Itinerary', description: 'Where, when and what' },
+  { id: 'diary', label: 'Diary', description: 'Day by day, in your voice' },
+  { id: 'postcard', label: 'Postcard', description: 'A note to a friend' }
+];
+
+export const STORY_LENGTHS: { id: StoryLength; label: string }[] = [
+  { id: 'short', label: 'Short' },
+  { id: 'medium', label: 'Medium' },
+  { id: 'long', label: 'Long' }
+];
+
+const TITLE = /^TITLE:\s*(.*)$/i;
+const HEADING = /^#{2,3}\s*(\d{4}-\d{2}-\d{2})?\s*\|?\s*(.*)$/;
+
+const cleanText = (lines: string[]) => lines.join('\n')
+  .replace(CITATION, '')
+  .replace(/\*\*/g, '')
+  .replace(/[ \t]+([.,;:!?])/g, '$1')
+  .replace(/[ \t]{2,}/g, ' ')
+  .replace(/[ \t]+\n/g, '\n')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+/**
+ * Reads a story written in the layout above. Works on a partial text too, so
+ * it can run after every streamed chunk. A section that cites nothing falls
+ * back to the traces from its day.
+ */
+export const parseStory = (text: string, entries: JournalEntry[]): StoryDraft => {
+  let title = '';
+  const intro: string[] = [];
+  const sections: { day: string; title: string; lines: string[] }[] = [];
+  for (const line of text.split('\n')) {
+    const titleMatch = line.trim().match(TITLE);
+    if (titleMatch && !title && sections.length === 0) {
+      title = titleMatch[1].trim();
+      continue;
+    }
+    const heading = line.trim().match(HEADING);
+    if (heading) {
+      sections.push({ day: heading[1] ?? '', title: heading[2].trim(), lines: [] });
+      continue;
+    }
+    (sections.length > 0 ? sections[sections.length - 1].lines : intro).push(line);
+  }
+  return {
+    title,
+    intro: cleanText(intro),
+    sections: sections.map((section): StorySection => {
+      const cited = citedEntryIds(section.lines.join('\n'), entries);
+      const day = section.day || (cited.length > 0 ? toDayKey(entries.find(e => e.id === cited[0])!.timestamp) : '');
+      return {
+        day,
+        title: section.title,
+        text: cleanText(section.lines),
+        entryIds: cited.length > 0 ? cited : entries.filter(e => day && toDayKey(e.timestamp) === day).map(e => e.id)
+      };
+    })
+  };
+};
+
+// Stories are saved per trip and date range; a new one replaces the old
+export const storyScope = ({ tripId, dateRange }: { tripId: string | null; dateRange: DateRange }) =>
+  `${tripId ?? ''}|${dateRange.start}|${dateRange.end}`;
+
+// Plain text for places that only take a string, like share links
+export const storyToText = (story: StoryDraft): string => [
+  story.title,
+  story.intro,
+  ...story.sections.map(section => `${section.title}\n${section.text}`)
+].filter(Boolean).join('\n\n');
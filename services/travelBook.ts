@@ -0,0 +1,192 @@
+import { JournalEntry } from '../types';
+import { computeRouteStats, formatDistance, getDayColor, groupByDay, sortChronologically } from './geo';
+
+const TILE_SIZE = 256;
+const TILE_URL = 'https://a.basemaps.cartocdn.com/rastertiles/voyager';
+const MAP_MAX_ZOOM = 16;
+const MAP_PADDING_PX = 40;
+
+export interface TravelBookOptions {
+  title: string;
+  subtitle?: string;
+  entries: JournalEntry[];
+  story?: string | null;
+  coverPhotoUrl?: string | null;
+  // Turns stored /media/ paths into URLs the book window can load
+  resolveMediaUrl: (url: string) => string | undefined;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const paragraphs = (text: string) =>
+  text.split(/\n{2,}/).map(p => `<p>${escapeHtml(p.trim()).replace(/\n/g, '<br/>')}</p>`).join('');
+
+// Web Mercator world pixel coordinates at the given zoom
+const project = (lat: number, lng: number, zoom: number) => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sin = Math.sin(lat * Math.PI / 180);
+  return {
+    x: (lng + 180) / 360 * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale
+  };
+};
+
+/**
+ * Builds a static map from raster tiles with the route drawn over it as SVG,
+ * so the book prints without a live map.
+ */
+export const renderStaticMap = (entries: JournalEntry[], width: number, height: number): string => {
+  const ordered = sortChronologically(entries);
+  if (ordered.length === 0) return '';
+
+  // Highest zoom at which every trace still fits inside the padded frame
+  let zoom = MAP_MAX_ZOOM;
+  for (; zoom > 1; zoom--) {
+    const points = ordered.map(e => project(e.latitude, e.longitude, zoom));
+    const spanX = Math.max(...points.map(p => p.x)) - Math.min(...points.map(p => p.x));
+    const spanY = Math.max(...points.map(p => p.y)) - Math.min(...points.map(p => p.y));
+    if (spanX <= width - MAP_PADDING_PX * 2 && spanY <= height - MAP_PADDING_PX * 2) break;
+  }
+  if (ordered.length === 1) zoom = Math.min(zoom, 13);
+
+  const points = ordered.map(e => project(e.latitude, e.longitude, zoom));
+  const centerX = (Math.max(...points.map(p => p.x)) + Math.min(...points.map(p => p.x))) / 2;
+  const centerY = (Math.max(...points.map(p => p.y)) + Math.min(...points.map(p => p.y))) / 2;
+  const originX = centerX - width / 2;
+  const originY = centerY - height / 2;
+
+  const tileCount = 2 ** zoom;
+  const tiles: string[] = [];
+  for (let tx = Math.floor(originX / TILE_SIZE); tx <= Math.floor((originX + width) / TILE_SIZE); tx++) {
+    for (let ty = Math.floor(originY / TILE_SIZE); ty <= Math.floor((originY + height) / TILE_SIZE); ty++) {
+      if (ty < 0 || ty >= tileCount) continue;
+      const wrappedX = ((tx % tileCount) + tileCount) % tileCount;
+      tiles.push(`<img src="${TILE_URL}/${zoom}/${wrappedX}/${ty}.png" style="left:${tx * TILE_SIZE - originX}px;top:${ty * TILE_SIZE - originY}px" alt="" />`);
+    }
+  }
+
+  const toLocal = (e: JournalEntry) => {
+    const p = project(e.latitude, e.longitude, zoom);
+    return { x: p.x - originX, y: p.y - originY };
+  };
+  const lines = groupByDay(ordered).map((day, i) => {
+    const coords = day.entries.map(toLocal).map(p => `${p.x.toFixed(1)},${p.y.toFixed(1)}`).join(' ');
+    return `<polyline points="${coords}" fill="none" stroke="${getDayColor(i)}" stroke-width="4" stroke-linecap="round" stroke-linejoin="round" opacity="0.85" />`;
+  });
+  const dots = ordered.map((e, i) => {
+    const p = toLocal(e);
+    return `<g><circle cx="${p.x.toFixed(1)}" cy="${p.y.toFixed(1)}" r="9" fill="#fff" stroke="#A05C3B" stroke-width="2" /><text x="${p.x.toFixed(1)}" y="${(p.y + 3.5).toFixed(1)}" text-anchor="middle">${i + 1}</text></g>`;
+  });
+
+  return `<div class="static-map" style="width:${width}px;height:${height}px">
+  ${tiles.join('\n  ')}
+  <svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${lines.join('')}${dots.join('')}</svg>
+  <span class="attribution">&copy; OpenStreetMap contributors &copy; CARTO</span>
+</div>`;
+};
+
+const BOOK_STYLES = `
+  @page { size: A4; margin: 16mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; background: #efe9df; color: #44403c; font-family: 'Montserrat', sans-serif; font-weight: 300; }
+  h1, h2, h3 { font-family: 'Cormorant Garamond', serif; font-style: italic; font-weight: 400; color: #292524; margin: 0; }
+  .page { width: 210mm; min-height: 297mm; margin: 12mm auto; padding: 18mm; background: #fffdf9; box-shadow: 0 4px 24px rgba(0,0,0,0.08); page-break-after: always; break-after: page; }
+  .page:last-of-type { page-break-after: auto; break-after: auto; }
+  .cover { display: flex; flex-direction: column; justify-content: center; text-align: center; }
+  .cover h1 { font-size: 48pt; margin-bottom: 8mm; }
+  .cover .subtitle { font-size: 11pt; letter-spacing: 0.2em; text-transform: uppercase; color: #a8a29e; }
+  .cover img { width: 100%; max-height: 120mm; object-fit: cover; border-radius: 4px; margin-bottom: 12mm; }
+  .stats { display: flex; justify-content: center; gap: 14mm; margin-top: 12mm; }
+  .stats div { font-family: 'Cormorant Garamond', serif; font-size: 24pt; color: #A05C3B; }
+  .stats span { display: block; font-family: 'Inter', sans-serif; font-size: 7pt; letter-spacing: 0.2em; text-transform: uppercase; color: #a8a29e; }
+  .section-title { font-size: 28pt; margin-bottom: 6mm; border-bottom: 1px solid rgba(160,92,59,0.2); padding-bottom: 3mm; }
+  .static-map { position: relative; overflow: hidden; border-radius: 6px; margin: 0 auto; }
+  .static-map img { position: absolute; width: 256px; height: 256px; }
+  .static-map svg { position: absolute; left: 0; top: 0; }
+  .static-map text { font: 600 9px 'Inter', sans-serif; fill: #44403c; }
+  .static-map .attribution { position: absolute; right: 4px; bottom: 2px; font: 8px 'Inter', sans-serif; color: #78716c; background: rgba(255,255,255,0.7); padding: 0 4px; }
+  .legend { display: flex; flex-wrap: wrap; gap: 3mm 8mm; margin-top: 6mm; font-size: 9pt; }
+  .legend i { display: inline-block; width: 14px; height: 4px; border-radius: 2px; margin-right: 6px; vertical-align: middle; }
+  .story { font-family: 'Cormorant Garamond', serif; font-size: 17pt; font-style: italic; line-height: 1.6; color: #57534e; }
+  .day-meta { font-family: 'Inter', sans-serif; font-size: 8pt; letter-spacing: 0.2em; text-transform: uppercase; color: #a8a29e; margin-bottom: 8mm; }
+  .entry { margin-bottom: 9mm; page-break-inside: avoid; break-inside: avoid; }
+  .entry .when { font-family: 'Inter', sans-serif; font-size: 8pt; letter-spacing: 0.15em; text-transform: uppercase; color: #A05C3B; }
+  .entry h3 { font-size: 16pt; margin: 1mm 0 2mm; }
+  .entry p { font-size: 10.5pt; line-height: 1.65; margin: 0 0 3mm; }
+  .photos { display: grid; grid-template-columns: repeat(auto-fill, minmax(52mm, 1fr)); gap: 3mm; }
+  .photos figure { margin: 0; }
+  .photos img { width: 100%; aspect-ratio: 4 / 3; object-fit: cover; border-radius: 3px; }
+  .photos figcaption { font-family: 'Cormorant Garamond', serif; font-style: italic; font-size: 10pt; color: #78716c; margin-top: 1mm; }
+  .toolbar { position: sticky; top: 0; z-index: 10; display: flex; justify-content: center; gap: 12px; padding: 12px; background: rgba(239,233,223,0.95); }
+  .toolbar button { font: 600 11px 'Inter', sans-serif; letter-spacing: 0.15em; text-transform: uppercase; border: none; border-radius: 999px; padding: 10px 22px; background: #A05C3B; color: #fff; cursor: pointer; }
+  @media print {
+    body { background: none; }
+    .toolbar { display: none; }
+    .page { margin: 0; box-shadow: none; width: auto; min-height: auto; padding: 0; }
+  }
+`;
+
+/**
+ * Lays out a trip or date range as a printable book: cover, route overview,
+ * the AI story, then one page per day. Returns a complete HTML document.
+ */
+export const buildTravelBook = ({ title, subtitle, entries, story, coverPhotoUrl, resolveMediaUrl }: TravelBookOptions): string => {
+  const days = groupByDay(entries);
+  const stats = computeRouteStats(entries);
+  const kmByDay = new Map(stats.days.map(d => [d.day, d.km]));
+  const photoCount = entries.reduce((n, e) => n + e.photos.length, 0);
+  const formatDay = (day: string) =>
+    new Date(`${day}T00:00`).toLocaleDateString([], { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+  const src = (url: string) => escapeHtml(resolveMediaUrl(url) ?? url);
+
+  const cover = `<section class="page cover">
+  ${coverPhotoUrl ? `<img src="${src(coverPhotoUrl)}" alt="" />` : ''}
+  <h1>${escapeHtml(title)}</h1>
+  ${subtitle ? `<div class="subtitle">${escapeHtml(subtitle)}</div>` : ''}
+  <div class="stats">
+    <div>${days.length}<span>${days.length === 1 ? 'Day' : 'Days'}</span></div>
+    <div>${entries.length}<span>Traces</span></div>
+    <div>${formatDistance(stats.totalKm)}<span>Travelled</span></div>
+    ${photoCount > 0 ? `<div>${photoCount}<span>Photos</span></div>` : ''}
+  </div>
+</section>`;
+
+  const overview = `<section class="page">
+  <h2 class="section-title">The Route</h2>
+  ${renderStaticMap(entries, 640, 720)}
+  <div class="legend">
+    ${days.map((d, i) => `<div><i style="background:${getDayColor(i)}"></i>${escapeHtml(formatDay(d.day))} · ${formatDistance(kmByDay.get(d.day) ?? 0)}</div>`).join('\n    ')}
+  </div>
+</section>`;
+
+  const storyPage = story ? `<section class="page">
+  <h2 class="section-title">Reflections</h2>
+  <div class="story">${paragraphs(story)}</div>
+</section>` : '';
+
+  const dayPages = days.map((day, i) => `<section class="page">
+  <h2 class="section-title">Day ${i + 1}</h2>
+  <div class="day-meta">${escapeHtml(formatDay(day.day))} · ${day.entries.length} ${day.entries.length === 1 ? 'trace' : 'traces'} · ${formatDistance(kmByDay.get(day.day) ?? 0)}</div>
+  ${day.entries.map(entry => `<article class="entry">
+    <div class="when">${escapeHtml(new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }))} · ${escapeHtml(entry.category)}</div>
+    ${entry.placeName ? `<h3>${escapeHtml(entry.placeName)}</h3>` : ''}
+    ${paragraphs(entry.note)}
+    ${entry.photos.length > 0 ? `<div class="photos">${entry.photos.map(photo => `<figure><img src="${src(photo.url)}" alt="" />${photo.caption ? `<figcaption>${escapeHtml(photo.caption)}</figcaption>` : ''}</figure>`).join('')}</div>` : ''}
+  </article>`).join('\n  ')}
+</section>`);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<link href="https://fonts.googleapis.com/css2?family=Cormorant+Garamond:ital,wght@0,400;0,600;1,400;1,600&family=Inter:wght@400;500;600&family=Montserrat:wght@300;400;500&display=swap" rel="stylesheet">
+<style>${BOOK_STYLES}</style>
+</head>
+<body>
+<div class="toolbar"><button onclick="window.print()">Print / Save as PDF</button></div>
+${[cover, overview, storyPage, ...dayPages].filter(Boolean).join('\n')}
+</body>
+</html>`;
+};
@@ -0,0 +1,28 @@
+export interface FieldSchema {
+  type?: string | string[];
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  maxItems?: number;
+  format?: string;
+  items?: FieldSchema;
+  properties?: Record<string, FieldSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+export interface EntrySchema extends FieldSchema {
+  properties: Record<string, FieldSchema>;
+  serverManaged: string[];
+}
+
+export interface ValidateOptions {
+  partial?: boolean; // Check only the fields present, as PATCH does
+  lenient?: boolean; // Ignore unknown fields, as imports do
+}
+
+export declare const createEntryValidator: <T>(
+  schema: EntrySchema
+) => (raw: unknown, options?: ValidateOptions) => { fields: Partial<T> | null; errors: string[] };
@@ -0,0 +1,110 @@
+/**
+ * 日志字段的校验，服务器（schema/index.js）和前端（services/entrySchema.ts）共用，错误信息也一致。
+ * 规则写在 schema/journalEntry.json 里，由调用方传入（服务器也用它校验 schema/trip.json）；
+ * 这里只实现用到的 JSON Schema 子集：type、enum、minimum / maximum、minLength / maxLength、
+ * maxItems、format（见 FORMATS）、items、properties、required、additionalProperties: false
+ */
+
+const typeOf = (value) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isFinite(value) ? 'number' : 'invalid';
+  return typeof value;
+};
+
+const TYPE_NAMES = {
+  string: 'a string',
+  number: 'a number',
+  boolean: 'true or false',
+  array: 'a list',
+  object: 'an object',
+  null: 'null'
+};
+
+// 支持的 format：检查函数和错误信息里的说法
+const FORMATS = {
+  'date-time': { test: (value) => !isNaN(new Date(value).getTime()), name: 'a date string' },
+  // 日期要真实存在：2025-02-30 解析后会变成 3 月 2 日
+  date: {
+    test: (value) => {
+      const day = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00Z`) : null;
+      return !!day && !isNaN(day.getTime()) && day.toISOString().startsWith(value);
+    },
+    name: 'a YYYY-MM-DD date'
+  },
+  'hex-color': { test: (value) => /^#[0-9a-f]{6}$/i.test(value), name: 'a colour such as #A05C3B' },
+  // 照片：服务器上的 /media/ 文件、外部 http(s) 图片，或离线时内联的图片（服务器收到后存成文件）
+  'photo-url': {
+    test: (value) => /^\/media\/[\w.-]+$/.test(value) || /^https?:\/\/\S+$/i.test(value) || /^data:image\/(jpeg|png|webp|gif);base64,[\w+/]+=*$/.test(value),
+    name: 'a /media/ path, an http(s) URL or a JPEG, PNG, WebP or GIF data URL'
+  }
+};
+
+const describeType = (schema) => {
+  const types = [].concat(schema.type);
+  const names = types.map(type => TYPE_NAMES[type]);
+  if (types.includes('number') && schema.minimum !== undefined && schema.maximum !== undefined) {
+    names[types.indexOf('number')] = `a number between ${schema.minimum} and ${schema.maximum}`;
+  }
+  if (types.includes('string') && FORMATS[schema.format]) names[types.indexOf('string')] = FORMATS[schema.format].name;
+  return names.join(' or ');
+};
+
+/**
+ * 校验一个值，错误信息追加到 errors。lenient 时忽略未知字段（导入旧备份时用）
+ */
+const check = (schema, value, where, errors, lenient) => {
+  if (schema.enum) {
+    if (!schema.enum.includes(value)) errors.push(`${where} must be one of ${schema.enum.join(', ')}`);
+    return;
+  }
+  const type = typeOf(value);
+  const types = [].concat(schema.type);
+  const invalid = () => errors.push(`${where} must be ${describeType(schema)}`);
+  if (!types.includes(type)) return invalid();
+
+  if (type === 'number') {
+    if ((schema.minimum !== undefined && value < schema.minimum) || (schema.maximum !== undefined && value > schema.maximum)) invalid();
+  } else if (type === 'string') {
+    if (FORMATS[schema.format] && !FORMATS[schema.format].test(value)) invalid();
+    else if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${where} must not be empty`);
+    else if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${where} must be at most ${schema.maxLength} characters`);
+  } else if (type === 'array') {
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${where} can hold at most ${schema.maxItems} items`);
+    else value.forEach((item, index) => check(schema.items, item, `${where}[${index}]`, errors, lenient));
+  } else if (type === 'object') {
+    checkFields(schema, value, `${where}.`, errors, { lenient });
+  }
+};
+
+const checkFields = (schema, value, prefix, errors, { partial = false, lenient = false } = {}) => {
+  if (!partial) {
+    (schema.required || []).filter(key => value[key] === undefined).forEach(key => errors.push(`${prefix}${key} is required`));
+  }
+  Object.keys(value).forEach(key => {
+    const field = schema.properties[key];
+    if (field) {
+      if (value[key] !== undefined) check(field, value[key], `${prefix}${key}`, errors, lenient);
+    } else if (schema.additionalProperties === false && !lenient) {
+      errors.push(`${prefix}${key} is not a known field`);
+    }
+  });
+};
+
+/**
+ * 按 schema 生成校验函数 validateEntryInput(raw, { partial, lenient })。
+ * 服务器维护的字段（schema.serverManaged，如 id、revision）直接丢弃，不算错误；
+ * partial 用于 PATCH，只校验出现的字段。返回 { fields, errors }，fields 只含 schema 里的字段
+ */
+export const createEntryValidator = (schema) => {
+  const managed = new Set(schema.serverManaged);
+  return (raw, { partial = false, lenient = false } = {}) => {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return { fields: null, errors: ['Expected a JSON object'] };
+    const input = Object.fromEntries(Object.entries(raw).filter(([key]) => !managed.has(key)));
+    const errors = [];
+    checkFields(schema, input, '', errors, { partial, lenient });
+    if (errors.length > 0) return { fields: null, errors };
+    const fields = Object.fromEntries(Object.entries(input).filter(([key, value]) => key in schema.properties && value !== undefined));
+    return { fields, errors };
+  };
+};
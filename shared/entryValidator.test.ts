@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import entrySchema from '../schema/journalEntry.json';
+import tripSchema from '../schema/trip.json';
+import { createEntryValidator } from './entryValidator.mjs';
+
+const validateEntry = createEntryValidator(entrySchema);
+const validateTrip = createEntryValidator(tripSchema);
+
+const entry = (fields: Record<string, unknown> = {}) => ({
+  latitude: 51.5,
+  longitude: -0.12,
+  timestamp: '2025-06-01T09:00:00.000Z',
+  note: 'A walk in the park',
+  category: 'Nature',
+  ...fields
+});
+
+describe('createEntryValidator', () => {
+  it('returns only schema fields and drops the ones the server manages', () => {
+    const { fields, errors } = validateEntry(entry({ id: 'e1', revision: 3, ownerId: 'bob', placeName: undefined }));
+    expect(errors).toEqual([]);
+    expect(fields).toEqual(entry());
+  });
+
+  it('lists every problem, nested ones with their path', () => {
+    const { fields, errors } = validateEntry({
+      latitude: 91,
+      longitude: '0',
+      category: 'Sports',
+      note: 'x'.repeat(20001),
+      photos: [{ url: '/media/a.jpg' }, { caption: 'No picture', extra: true }],
+      mood: 'happy'
+    });
+    expect(fields).toBeNull();
+    expect(errors).toEqual([
+      'timestamp is required',
+      'latitude must be a number between -90 and 90',
+      'longitude must be a number between -180 and 180',
+      'category must be one of Food, Shopping, Culture, Nature, Other',
+      'note must be at most 20000 characters',
+      'photos[1].url is required',
+      'photos[1].extra is not a known field',
+      'mood is not a known field'
+    ]);
+  });
+
+  it('refuses anything that is not an object', () => {
+    for (const raw of [null, 'entry', [entry()]]) {
+      expect(validateEntry(raw)).toEqual({ fields: null, errors: ['Expected a JSON object'] });
+    }
+  });
+
+  it('checks only the fields present when partial, and ignores unknown ones when lenient', () => {
+    expect(validateEntry({ note: 'Edited' }, { partial: true })).toEqual({ fields: { note: 'Edited' }, errors: [] });
+    expect(validateEntry({ note: 5 }, { partial: true }).errors).toEqual(['note must be a string']);
+    expect(validateEntry(entry({ legacy: true }), { lenient: true }).fields).toEqual(entry());
+  });
+
+  it('takes photos from the media store, the web or an inline image, and nothing else', () => {
+    const photoErrors = (url: string) => validateEntry(entry({ photos: [{ url }] })).errors;
+    for (const url of ['/media/1717-abc.thumb.jpg', 'https://example.com/a.jpg', 'data:image/png;base64,iVBORw0KGgo=']) {
+      expect(photoErrors(url)).toEqual([]);
+    }
+    for (const url of ['', 'javascript:alert(1)', 'data:text/html;base64,PHNjcmlwdD4=', 'data:image/svg+xml;base64,PHN2Zz4=', '/media/../db.sqlite', 'file:///etc/passwd']) {
+      expect(photoErrors(url)).toEqual(['photos[0].url must be a /media/ path, an http(s) URL or a JPEG, PNG, WebP or GIF data URL']);
+    }
+  });
+
+  it('checks trip dates, colours and covers', () => {
+    const trip = { name: 'Summer', startDate: '2025-06-01', endDate: '2025-06-10' };
+    expect(validateTrip({ ...trip, color: '#6b8f71', coverPhotoUrl: null }).errors).toEqual([]);
+    expect(validateTrip({ ...trip, startDate: '2025-02-29', endDate: '2025-6-10', color: '#fff', coverPhotoUrl: 'javascript:alert(1)' }).errors).toEqual([
+      'startDate must be a YYYY-MM-DD date',
+      'endDate must be a YYYY-MM-DD date',
+      'color must be a colour such as #A05C3B',
+      'coverPhotoUrl must be a /media/ path, an http(s) URL or a JPEG, PNG, WebP or GIF data URL or null'
+    ]);
+  });
+});
@@ -0,0 +1,3 @@
+import type { Coordinates } from '../types';
+
+export declare const haversineDistance: (a: Coordinates, b: Coordinates) => number;
@@ -0,0 +1,17 @@
+/**
+ * 球面距离，前端（services/geo.ts）和服务器的提示词（ai/prompts.js）共用。
+ * 写成 ES 模块：前端直接 import，服务器用 require 加载
+ */
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (deg) => deg * Math.PI / 180;
+
+// 两点间的大圆距离（haversine），单位千米；a、b 为 { lat, lng }
+export const haversineDistance = (a, b) => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
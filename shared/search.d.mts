@@ -0,0 +1,16 @@
+import type { JournalEntry, SearchResult } from '../types';
+
+export interface SearchIndex {
+  docs: {
+    entry: JournalEntry;
+    fields: { note: string; category: string; placeName: string };
+    words: string[];
+  }[];
+}
+
+export declare const normalize: (text: string | null | undefined) => string;
+export declare const tokenize: (text: string | null | undefined) => string[];
+export declare const matchRanges: (text: string | null | undefined, terms: string[]) => [number, number][];
+export declare const createSearchIndex: (entries: JournalEntry[]) => SearchIndex;
+export declare const searchIndex: (index: SearchIndex, query: string, limit?: number) => SearchResult[];
+export declare const searchEntries: (entries: JournalEntry[], query: string, limit?: number) => SearchResult[];
@@ -0,0 +1,113 @@
+/**
+ * 日志全文搜索。服务器（GET /entries?q=）和前端离线搜索共用这一份实现，排序和摘要两边一致。
+ * 写成 ES 模块：前端直接 import，服务器用 require 加载
+ */
+
+// 字段权重：命中地名比命中长笔记里的某个词更说明问题
+const WEIGHTS = { placeName: 3, category: 2, note: 1 };
+const SNIPPET_RADIUS = 40;
+const DIACRITICS = /[̀-ͯ]/g;
+
+// 转小写并去掉重音，"sao" 也能找到 "São"
+export const normalize = (text) => (text || '').normalize('NFD').replace(DIACRITICS, '').toLowerCase();
+
+export const tokenize = (text) => normalize(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * 规范化后的文本，以及其中每个字符对应原文的 [start, end)。
+ * 规范化会改变长度（去掉的重音符号、展开的字母），匹配位置要靠它映射回原文
+ */
+const normalizeWithOffsets = (text) => {
+  let normalized = '';
+  const starts = [];
+  const ends = [];
+  let offset = 0;
+  for (const char of text) {
+    const part = normalize(char);
+    // 单独的组合符号规范化后为空，算进前一个字符
+    if (!part && ends.length > 0) ends[ends.length - 1] = offset + char.length;
+    for (let i = 0; i < part.length; i++) {
+      starts.push(offset);
+      ends.push(offset + char.length);
+    }
+    normalized += part;
+    offset += char.length;
+  }
+  return { normalized, starts, ends };
+};
+
+/**
+ * 原文中出现搜索词的区间 [start, end)，按位置排序且互不重叠。
+ * 在规范化后的文本上比较，所以搜 "cafe" 也会标出 "Café"
+ */
+export const matchRanges = (text, terms) => {
+  const { normalized, starts, ends } = normalizeWithOffsets(text || '');
+  const ranges = [];
+  terms.filter(Boolean).forEach(term => {
+    for (let at = normalized.indexOf(term); at >= 0; at = normalized.indexOf(term, at + term.length)) {
+      ranges.push([starts[at], ends[at + term.length - 1]]);
+    }
+  });
+  ranges.sort((a, b) => a[0] - b[0] || b[1] - a[1]);
+  const merged = [];
+  for (const [start, end] of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  }
+  return merged;
+};
+
+const buildSnippet = (original, terms) => {
+  const first = matchRanges(original, terms)[0];
+  if (!first) return original.slice(0, SNIPPET_RADIUS * 2);
+  const start = Math.max(0, first[0] - SNIPPET_RADIUS);
+  const end = Math.min(original.length, first[0] + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${original.slice(start, end)}${end < original.length ? '…' : ''}`;
+};
+
+export const createSearchIndex = (entries) => ({
+  docs: entries.map(entry => {
+    const fields = {
+      note: normalize(entry.note),
+      category: normalize(entry.category),
+      placeName: normalize(entry.placeName)
+    };
+    return { entry, fields, words: tokenize(`${fields.note} ${fields.category} ${fields.placeName}`) };
+  })
+});
+
+/**
+ * 返回包含所有搜索词（按词前缀匹配）的日志，按得分排序。
+ * 整词命中比前缀命中得分高，同分时新的在前
+ */
+export const searchIndex = (index, query, limit = 20) => {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+
+  const results = [];
+  for (const doc of index.docs) {
+    if (!terms.every(term => doc.words.some(w => w.startsWith(term)))) continue;
+    let score = 0;
+    for (const term of terms) {
+      const wholeWord = new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(term)}($|[^\\p{L}\\p{N}])`, 'u');
+      for (const field of Object.keys(WEIGHTS)) {
+        if (doc.fields[field].includes(term)) score += WEIGHTS[field] * (wholeWord.test(doc.fields[field]) ? 2 : 1);
+      }
+    }
+    const note = doc.entry.note || '';
+    const snippet = terms.some(t => doc.fields.note.includes(t))
+      ? buildSnippet(note, terms)
+      : doc.entry.placeName || note.slice(0, SNIPPET_RADIUS * 2);
+    results.push({ entry: doc.entry, score, snippet, terms });
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || new Date(b.entry.timestamp).getTime() - new Date(a.entry.timestamp).getTime())
+    .slice(0, limit);
+};
+
+// 不保留索引的一次性搜索
+export const searchEntries = (entries, query, limit = 20) => searchIndex(createSearchIndex(entries), query, limit);
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { Category, JournalEntry } from '../types';
+import { matchRanges, searchEntries, tokenize } from './search.mjs';
+
+const entry = (id: string, fields: Partial<JournalEntry> = {}): JournalEntry => ({
+  id,
+  latitude: 51.5,
+  longitude: -0.12,
+  timestamp: '2025-06-01T09:00:00.000Z',
+  dateDisplay: 'Jun 1, 2025',
+  note: '',
+  category: Category.Other,
+  photos: [],
+  placeName: null,
+  ...fields
+});
+
+describe('tokenize', () => {
+  it('lower-cases, drops accents and splits on anything but letters and digits', () => {
+    expect(tokenize('Café São-Paulo, 2025!')).toEqual(['cafe', 'sao', 'paulo', '2025']);
+    expect(tokenize(null)).toEqual([]);
+  });
+});
+
+describe('matchRanges', () => {
+  it('marks matches in the original text, accents included', () => {
+    expect(matchRanges('Coffee at the Café', ['cafe'])).toEqual([[14, 18]]);
+  });
+
+  it('merges overlapping matches', () => {
+    expect(matchRanges('seaside', ['sea', 'easi'])).toEqual([[0, 5]]);
+  });
+});
+
+describe('searchEntries', () => {
+  const entries = [
+    entry('note', { note: 'We passed a lisbon tram on the way', timestamp: '2025-06-03T09:00:00.000Z' }),
+    entry('place', { placeName: 'Lisbon, Portugal', note: 'Custard tarts' }),
+    entry('prefix', { note: 'Lisboners love their trams' }),
+    entry('other', { note: 'Porto by the river' })
+  ];
+
+  it('needs every term, matched at the start of a word', () => {
+    expect(searchEntries(entries, 'lisbo tram').map(r => r.entry.id)).toEqual(['note', 'prefix']);
+    expect(searchEntries(entries, 'isbon')).toEqual([]);
+    expect(searchEntries(entries, '  ')).toEqual([]);
+  });
+
+  it('ranks place names over notes and whole words over prefixes', () => {
+    expect(searchEntries(entries, 'lisbon').map(r => r.entry.id)).toEqual(['place', 'note', 'prefix']);
+  });
+
+  it('puts newer entries first when the scores tie, and honours the limit', () => {
+    const twins = [entry('older', { note: 'Tram' }), entry('newer', { note: 'Tram', timestamp: '2025-07-01T09:00:00.000Z' })];
+    expect(searchEntries(twins, 'tram').map(r => r.entry.id)).toEqual(['newer', 'older']);
+    expect(searchEntries(twins, 'tram', 1)).toHaveLength(1);
+  });
+
+  it('quotes the note around the first match, or falls back to the place name', () => {
+    const long = entry('long', { note: `${'x'.repeat(60)} the harbour at dusk ${'y'.repeat(60)}` });
+    const [result] = searchEntries([long], 'harbour');
+    expect(result.snippet).toMatch(/^….*the harbour at dusk.*…$/);
+    expect(result.terms).toEqual(['harbour']);
+    expect(searchEntries(entries, 'portugal')[0].snippet).toBe('Lisbon, Portugal');
+  });
+});
@@ -0,0 +1,33 @@
+const { createSqliteStorage } = require('./sqliteStorage');
+
+/**
+ * 存储层接口。HTTP 处理函数只通过这些方法读写数据，不关心底层实现：
+ *
+ *   isNew                                   本次启动时新建的数据库
+ *   transaction(fn)                         在一个事务里执行 fn
+ *   close()
+ *
+ *   countUsers() / getUser(id) / findUserByUsername(name) / insertUser(user)
+ *   insertSession(s) / findSession(tokenHash) / deleteSession(tokenHash) / deleteExpiredSessions(now)
+ *
+ *   listEntries(ownerId, filters) / pageEntries(ownerId, filters, { limit, after }) / countEntries(ownerId, filters)
+ *   getEntry(ownerId, id) / entryOwner(id)
+ *   saveEntry(entry) / deleteEntry(ownerId, id) / deleteEntries(ownerId)
+ *
+ *   listTrips(ownerId) / getTrip(ownerId, id) / saveTrip(trip) / deleteTrip(ownerId, id)
+ *
+ *   listShares(ownerId) / getShare(token) / saveShare(share)
+ *   deleteShare(ownerId, token) / deleteSharesForTrip(ownerId, tripId)
+ *
+ *   listStories(ownerId) / saveStory(story)
+ *   deleteStory(ownerId, id) / deleteStoriesForTrip(ownerId, tripId)
+ *
+ *   claimUnowned(userId)                    第一个账户接管无主数据
+ *
+ * filters 为 { from, to, bbox, tripId, categories, hasPhoto, text }，全部可选。
+ * 所有方法都是同步的；save* 按主键插入或覆盖同一账户的记录（主键属于其他账户时抛出 409），
+ * saveStory 按旅程 + 时间范围覆盖。
+ */
+const openStorage = (file) => createSqliteStorage(file);
+
+module.exports = { openStorage };
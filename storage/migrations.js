@@ -0,0 +1,88 @@
+/**
+ * 数据库结构迁移：按顺序执行，已执行到第几个记录在 PRAGMA user_version 里。
+ * 只能在末尾追加新的迁移，不要修改已发布的迁移。
+ */
+const MIGRATIONS = [
+  // 1: 初始结构。日志、旅程和分享链接的完整内容存成 JSON，查询用到的字段另存一列并建索引
+  `
+  CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE,
+    salt TEXT NOT NULL,
+    password_hash TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE sessions (
+    token_hash TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    created_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL
+  );
+  CREATE INDEX sessions_by_expiry ON sessions (expires_at);
+
+  -- owner_id 为空表示启用账户之前的数据，由第一个注册的账户接管
+  CREATE TABLE entries (
+    id TEXT PRIMARY KEY,
+    owner_id TEXT,
+    trip_id TEXT,
+    time INTEGER NOT NULL,
+    latitude REAL NOT NULL,
+    longitude REAL NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX entries_by_time ON entries (owner_id, time);
+  CREATE INDEX entries_by_position ON entries (owner_id, latitude, longitude);
+  CREATE INDEX entries_by_trip ON entries (owner_id, trip_id);
+
+  CREATE TABLE trips (
+    id TEXT PRIMARY KEY,
+    owner_id TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX trips_by_owner ON trips (owner_id);
+
+  CREATE TABLE shares (
+    token TEXT PRIMARY KEY,
+    owner_id TEXT,
+    trip_id TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX shares_by_owner ON shares (owner_id);
+  `,
+  // 2: 分类单独成列，按分类筛选时不必解析 JSON
+  `
+  ALTER TABLE entries ADD COLUMN category TEXT;
+  UPDATE entries SET category = json_extract(data, '$.category');
+  CREATE INDEX entries_by_category ON entries (owner_id, category, time);
+  `,
+  // 3: 保存的游记。scope 是旅程 + 时间范围，每个范围只保留最新的一篇
+  `
+  CREATE TABLE stories (
+    id TEXT PRIMARY KEY,
+    owner_id TEXT NOT NULL,
+    trip_id TEXT,
+    scope TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE UNIQUE INDEX stories_by_scope ON stories (owner_id, scope);
+  `
+];
+
+/**
+ * 执行尚未执行的迁移，返回迁移前的版本（0 表示新建的数据库）
+ */
+const migrate = (db) => {
+  const from = db.pragma('user_version', { simple: true });
+  MIGRATIONS.slice(from).forEach((sql, index) => {
+    const version = from + index + 1;
+    db.transaction(() => {
+      db.exec(sql);
+      db.pragma(`user_version = ${version}`);
+    })();
+    console.log(`🗄️  Applied database migration ${version}`);
+  });
+  return from;
+};
+
+module.exports = { MIGRATIONS, migrate };
@@ -0,0 +1,222 @@
+const Database = require('better-sqlite3');
+const { migrate } = require('./migrations');
+
+const parse = (row) => (row ? JSON.parse(row.data) : null);
+
+// 覆盖写入只对同一账户的记录生效；主键已被其他账户占用时什么也没写，报错而不是悄悄丢掉
+const expectWritten = (result) => {
+  if (result.changes === 0) {
+    throw Object.assign(new Error('This id already belongs to another account'), { status: 409, code: 'id_taken', expose: true });
+  }
+};
+
+// 日志的时间列用于排序和范围查询；datetime-local 格式按服务器本地时间解析
+const timeOf = (entry) => {
+  const time = new Date(entry.timestamp).getTime();
+  return Number.isFinite(time) ? time : 0;
+};
+
+/**
+ * 把日志筛选条件转成 WHERE 子句。from / to 为毫秒时间戳（to 不含），
+ * bbox 为 [west, south, east, north]，west > east 时跨越 180° 经线；
+ * text 为小写文本，匹配笔记里的子串（与前端 services/filters.ts 相同）
+ */
+const entryConditions = (ownerId, { from, to, bbox, tripId, categories, hasPhoto, text } = {}) => {
+  const where = ['owner_id = @ownerId'];
+  const params = { ownerId };
+  if (from !== undefined) { where.push('time >= @from'); params.from = from; }
+  if (to !== undefined) { where.push('time < @to'); params.to = to; }
+  if (tripId !== undefined) { where.push('trip_id = @tripId'); params.tripId = tripId; }
+  if (categories && categories.length > 0) {
+    where.push(`category IN (${categories.map((_, i) => `@category${i}`).join(', ')})`);
+    categories.forEach((category, i) => { params[`category${i}`] = category; });
+  }
+  if (hasPhoto) where.push("json_array_length(data, '$.photos') > 0");
+  if (text) { where.push("note_includes(json_extract(data, '$.note'), @text)"); params.text = text; }
+  if (bbox) {
+    const [west, south, east, north] = bbox;
+    where.push('latitude BETWEEN @south AND @north');
+    where.push(west <= east ? 'longitude BETWEEN @west AND @east' : '(longitude >= @west OR longitude <= @east)');
+    Object.assign(params, { west, south, east, north });
+  }
+  return { where, params };
+};
+
+/**
+ * SQLite 实现。better-sqlite3 是同步的，但每次只写改动的那一行，
+ * 并且写入都在事务里完成，进程中途退出也不会损坏数据库。
+ */
+const createSqliteStorage = (file) => {
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  const previousVersion = migrate(db);
+  // SQLite 的 lower() 只处理 ASCII，用 JS 的 toLowerCase 与前端保持一致
+  db.function('note_includes', { deterministic: true }, (note, text) => ((note || '').toLowerCase().includes(text) ? 1 : 0));
+
+  const statements = {
+    countUsers: db.prepare('SELECT COUNT(*) AS count FROM users'),
+    userById: db.prepare('SELECT * FROM users WHERE id = ?'),
+    userByName: db.prepare('SELECT * FROM users WHERE username = ?'),
+    insertUser: db.prepare('INSERT INTO users (id, username, salt, password_hash, created_at) VALUES (@id, @username, @salt, @passwordHash, @createdAt)'),
+
+    insertSession: db.prepare('INSERT OR REPLACE INTO sessions (token_hash, user_id, created_at, expires_at) VALUES (@tokenHash, @userId, @createdAt, @expiresAt)'),
+    sessionByHash: db.prepare('SELECT * FROM sessions WHERE token_hash = ?'),
+    deleteSession: db.prepare('DELETE FROM sessions WHERE token_hash = ?'),
+    deleteExpiredSessions: db.prepare('DELETE FROM sessions WHERE expires_at <= ?'),
+
+    entryById: db.prepare('SELECT data FROM entries WHERE id = ? AND owner_id = ?'),
+    entryOwner: db.prepare('SELECT owner_id FROM entries WHERE id = ?'),
+    saveEntry: db.prepare(`INSERT INTO entries (id, owner_id, trip_id, time, latitude, longitude, category, data)
+      VALUES (@id, @ownerId, @tripId, @time, @latitude, @longitude, @category, @data)
+      ON CONFLICT (id) DO UPDATE SET trip_id = excluded.trip_id, time = excluded.time,
+        latitude = excluded.latitude, longitude = excluded.longitude, category = excluded.category, data = excluded.data
+      WHERE entries.owner_id IS excluded.owner_id`),
+    deleteEntry: db.prepare('DELETE FROM entries WHERE id = ? AND owner_id = ?'),
+    deleteEntries: db.prepare('DELETE FROM entries WHERE owner_id = ?'),
+
+    tripsByOwner: db.prepare('SELECT data FROM trips WHERE owner_id = ? ORDER BY rowid'),
+    tripById: db.prepare('SELECT data FROM trips WHERE id = ? AND owner_id = ?'),
+    saveTrip: db.prepare(`INSERT INTO trips (id, owner_id, data) VALUES (@id, @ownerId, @data)
+      ON CONFLICT (id) DO UPDATE SET data = excluded.data
+      WHERE trips.owner_id IS excluded.owner_id`),
+    deleteTrip: db.prepare('DELETE FROM trips WHERE id = ? AND owner_id = ?'),
+
+    sharesByOwner: db.prepare('SELECT data FROM shares WHERE owner_id = ? ORDER BY rowid'),
+    shareByToken: db.prepare('SELECT data FROM shares WHERE token = ?'),
+    saveShare: db.prepare(`INSERT INTO shares (token, owner_id, trip_id, data) VALUES (@token, @ownerId, @tripId, @data)
+      ON CONFLICT (token) DO UPDATE SET trip_id = excluded.trip_id, data = excluded.data
+      WHERE shares.owner_id IS excluded.owner_id`),
+    deleteShare: db.prepare('DELETE FROM shares WHERE token = ? AND owner_id = ?'),
+    deleteSharesForTrip: db.prepare('DELETE FROM shares WHERE trip_id = ? AND owner_id = ?'),
+
+    storiesByOwner: db.prepare('SELECT data FROM stories WHERE owner_id = ? ORDER BY rowid'),
+    saveStory: db.prepare(`INSERT INTO stories (id, owner_id, trip_id, scope, data) VALUES (@id, @ownerId, @tripId, @scope, @data)
+      ON CONFLICT (owner_id, scope) DO UPDATE SET id = excluded.id, trip_id = excluded.trip_id, data = excluded.data`),
+    deleteStory: db.prepare('DELETE FROM stories WHERE id = ? AND owner_id = ?'),
+    deleteStoriesForTrip: db.prepare('DELETE FROM stories WHERE trip_id = ? AND owner_id = ?')
+  };
+
+  const claim = (table) => db.prepare(
+    `UPDATE ${table} SET owner_id = @userId, data = json_set(data, '$.ownerId', @userId) WHERE owner_id IS NULL`
+  );
+  const claimStatements = [claim('entries'), claim('trips'), claim('shares')];
+
+  const toUser = (row) => row && {
+    id: row.id,
+    username: row.username,
+    salt: row.salt,
+    passwordHash: row.password_hash,
+    createdAt: row.created_at
+  };
+
+  const toSession = (row) => row && {
+    tokenHash: row.token_hash,
+    userId: row.user_id,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at
+  };
+
+  return {
+    isNew: previousVersion === 0,
+
+    transaction: (fn) => db.transaction(fn)(),
+    close: () => db.close(),
+
+    // --- 账户与会话 ---
+    countUsers: () => statements.countUsers.get().count,
+    getUser: (id) => toUser(statements.userById.get(id)),
+    findUserByUsername: (username) => toUser(statements.userByName.get(username)),
+    insertUser: (user) => { statements.insertUser.run(user); },
+
+    insertSession: (session) => { statements.insertSession.run(session); },
+    findSession: (tokenHash) => toSession(statements.sessionByHash.get(tokenHash)),
+    deleteSession: (tokenHash) => { statements.deleteSession.run(tokenHash); },
+    deleteExpiredSessions: (now) => { statements.deleteExpiredSessions.run(new Date(now).toISOString()); },
+
+    // --- 日志 ---
+    /**
+     * 按账户列出日志（从早到晚），筛选条件见 entryConditions
+     */
+    listEntries: (ownerId, filters = {}) => {
+      const { where, params } = entryConditions(ownerId, filters);
+      return db.prepare(`SELECT data FROM entries WHERE ${where.join(' AND ')} ORDER BY time, id`).all(params).map(parse);
+    },
+    /**
+     * 分页列出日志（从新到旧）。after 是上一页最后一条的 { time, id }；
+     * 返回的 next 用来取下一页，没有更多时为 null
+     */
+    pageEntries: (ownerId, filters, { limit, after }) => {
+      const { where, params } = entryConditions(ownerId, filters);
+      if (after) {
+        where.push('(time < @afterTime OR (time = @afterTime AND id < @afterId))');
+        Object.assign(params, { afterTime: after.time, afterId: after.id });
+      }
+      const rows = db.prepare(
+        `SELECT id, time, data FROM entries WHERE ${where.join(' AND ')} ORDER BY time DESC, id DESC LIMIT @limit`
+      ).all({ ...params, limit: limit + 1 });
+      const page = rows.slice(0, limit);
+      const last = page[page.length - 1];
+      return { entries: page.map(parse), next: rows.length > limit ? { time: last.time, id: last.id } : null };
+    },
+    countEntries: (ownerId, filters) => {
+      const { where, params } = entryConditions(ownerId, filters);
+      return db.prepare(`SELECT COUNT(*) AS count FROM entries WHERE ${where.join(' AND ')}`).get(params).count;
+    },
+    getEntry: (ownerId, id) => parse(statements.entryById.get(id, ownerId)),
+    // id 在所有账户间唯一；返回占用它的账户，没有时返回 undefined
+    entryOwner: (id) => statements.entryOwner.get(id)?.owner_id,
+    saveEntry: (entry) => {
+      expectWritten(statements.saveEntry.run({
+        id: entry.id,
+        ownerId: entry.ownerId || null,
+        tripId: entry.tripId || null,
+        time: timeOf(entry),
+        latitude: entry.latitude,
+        longitude: entry.longitude,
+        category: entry.category || null,
+        data: JSON.stringify(entry)
+      }));
+    },
+    deleteEntry: (ownerId, id) => { statements.deleteEntry.run(id, ownerId); },
+    deleteEntries: (ownerId) => { statements.deleteEntries.run(ownerId); },
+
+    // --- 旅程 ---
+    listTrips: (ownerId) => statements.tripsByOwner.all(ownerId).map(parse),
+    getTrip: (ownerId, id) => parse(statements.tripById.get(id, ownerId)),
+    saveTrip: (trip) => {
+      expectWritten(statements.saveTrip.run({ id: trip.id, ownerId: trip.ownerId || null, data: JSON.stringify(trip) }));
+    },
+    deleteTrip: (ownerId, id) => { statements.deleteTrip.run(id, ownerId); },
+
+    // --- 分享链接 ---
+    listShares: (ownerId) => statements.sharesByOwner.all(ownerId).map(parse),
+    getShare: (token) => parse(statements.shareByToken.get(token)),
+    saveShare: (share) => {
+      expectWritten(statements.saveShare.run({ token: share.token, ownerId: share.ownerId || null, tripId: share.tripId || null, data: JSON.stringify(share) }));
+    },
+    deleteShare: (ownerId, token) => { statements.deleteShare.run(token, ownerId); },
+    deleteSharesForTrip: (ownerId, tripId) => { statements.deleteSharesForTrip.run(tripId, ownerId); },
+
+    // --- 游记 ---
+    listStories: (ownerId) => statements.storiesByOwner.all(ownerId).map(parse),
+    /**
+     * 保存游记；同一账户、同一旅程和时间范围的旧游记被替换
+     */
+    saveStory: (story) => {
+      const scope = `${story.tripId || ''}|${story.dateRange.start}|${story.dateRange.end}`;
+      statements.saveStory.run({ id: story.id, ownerId: story.ownerId, tripId: story.tripId || null, scope, data: JSON.stringify(story) });
+    },
+    deleteStory: (ownerId, id) => { statements.deleteStory.run(id, ownerId); },
+    deleteStoriesForTrip: (ownerId, tripId) => { statements.deleteStoriesForTrip.run(tripId, ownerId); },
+
+    /**
+     * 把没有归属的日志、旅程和分享链接交给指定账户，返回接管的条数
+     */
+    claimUnowned: (userId) => db.transaction(() =>
+      claimStatements.reduce((sum, statement) => sum + statement.run({ userId }).changes, 0)
+    )()
+  };
+};
+
+module.exports = { createSqliteStorage };
@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createSqliteStorage } from './sqliteStorage';
+
+const entry = (id, timestamp, fields = {}) => ({
+  id,
+  ownerId: 'ann',
+  latitude: 51.5,
+  longitude: -0.12,
+  timestamp,
+  dateDisplay: timestamp,
+  note: '',
+  category: 'Other',
+  photos: [],
+  placeName: null,
+  tripId: null,
+  ...fields
+});
+
+const ids = (entries) => entries.map(e => e.id);
+
+// 逐页读完，返回所有 id（从新到旧）和页数
+const readAllPages = (storage, filters, limit) => {
+  const seen = [];
+  let after = null;
+  let pages = 0;
+  do {
+    const page = storage.pageEntries('ann', filters, { limit, after });
+    seen.push(...ids(page.entries));
+    after = page.next;
+    pages++;
+  } while (after && pages < 100);
+  return { seen, pages };
+};
+
+describe('sqlite storage', () => {
+  let storage;
+
+  beforeEach(() => {
+    storage = createSqliteStorage(':memory:');
+  });
+
+  afterEach(() => {
+    storage.close();
+  });
+
+  describe('pageEntries', () => {
+    beforeEach(() => {
+      // 同一时刻的几条日志按 id 排序，翻页时不能重复或漏掉
+      storage.saveEntry(entry('e1', '2025-06-01T09:00:00Z'));
+      storage.saveEntry(entry('e2', '2025-06-01T10:00:00Z'));
+      storage.saveEntry(entry('e3', '2025-06-01T10:00:00Z'));
+      storage.saveEntry(entry('e4', '2025-06-01T10:00:00Z'));
+      storage.saveEntry(entry('e5', '2025-06-02T08:00:00Z'));
+      storage.saveEntry(entry('bob-1', '2025-06-03T08:00:00Z', { ownerId: 'bob' }));
+    });
+
+    it('returns the newest traces first, ties broken by id', () => {
+      const page = storage.pageEntries('ann', {}, { limit: 10 });
+      expect(ids(page.entries)).toEqual(['e5', 'e4', 'e3', 'e2', 'e1']);
+      expect(page.next).toBeNull();
+    });
+
+    it('walks every trace exactly once, whatever the page size', () => {
+      for (const limit of [1, 2, 3, 4, 5]) {
+        const { seen, pages } = readAllPages(storage, {}, limit);
+        expect(seen).toEqual(['e5', 'e4', 'e3', 'e2', 'e1']);
+        expect(pages).toBe(Math.ceil(5 / limit));
+      }
+    });
+
+    it('points the cursor at the last trace on the page', () => {
+      const page = storage.pageEntries('ann', {}, { limit: 2 });
+      expect(ids(page.entries)).toEqual(['e5', 'e4']);
+      expect(page.next).toEqual({ time: Date.parse('2025-06-01T10:00:00Z'), id: 'e4' });
+      expect(ids(storage.pageEntries('ann', {}, { limit: 2, after: page.next }).entries)).toEqual(['e3', 'e2']);
+    });
+
+    it('keeps its place when traces are added or removed between pages', () => {
+      const first = storage.pageEntries('ann', {}, { limit: 2 });
+      storage.saveEntry(entry('e6', '2025-06-05T08:00:00Z'));
+      storage.deleteEntry('ann', 'e5');
+      expect(ids(storage.pageEntries('ann', {}, { limit: 2, after: first.next }).entries)).toEqual(['e3', 'e2']);
+    });
+
+    it('pages through filtered traces only', () => {
+      storage.saveEntry(entry('e3', '2025-06-01T10:00:00Z', { category: 'Food' }));
+      storage.saveEntry(entry('e1', '2025-06-01T09:00:00Z', { category: 'Food' }));
+      const { seen } = readAllPages(storage, { categories: ['Food'] }, 1);
+      expect(seen).toEqual(['e3', 'e1']);
+    });
+  });
+
+  describe('filters', () => {
+    beforeEach(() => {
+      storage.saveEntry(entry('london', '2025-06-01T09:00:00Z', { category: 'Food', note: 'Best Café in town', photos: [{ url: '/media/a.jpg', caption: '' }] }));
+      storage.saveEntry(entry('paris', '2025-06-02T09:00:00Z', { category: 'Culture', latitude: 48.86, longitude: 2.34, tripId: 'trip-1', note: 'The Louvre' }));
+      storage.saveEntry(entry('fiji', '2025-06-03T09:00:00Z', { category: 'Nature', latitude: -17.7, longitude: 178.1, tripId: 'trip-1' }));
+      storage.saveEntry(entry('samoa', '2025-06-04T09:00:00Z', { category: 'Nature', latitude: -13.8, longitude: -171.8 }));
+      storage.saveEntry(entry('bob', '2025-06-02T09:00:00Z', { ownerId: 'bob', category: 'Food', note: 'café' }));
+    });
+
+    const matching = (filters) => {
+      const listed = ids(storage.listEntries('ann', filters));
+      expect(storage.countEntries('ann', filters)).toBe(listed.length);
+      return listed;
+    };
+
+    it("lists only the account's own traces, oldest first", () => {
+      expect(matching({})).toEqual(['london', 'paris', 'fiji', 'samoa']);
+      expect(ids(storage.listEntries('bob'))).toEqual(['bob']);
+    });
+
+    it('includes from and excludes to', () => {
+      expect(matching({ from: Date.parse('2025-06-02T09:00:00Z'), to: Date.parse('2025-06-04T09:00:00Z') })).toEqual(['paris', 'fiji']);
+    });
+
+    it('filters by category, trip and photos', () => {
+      expect(matching({ categories: ['Food', 'Nature'] })).toEqual(['london', 'fiji', 'samoa']);
+      expect(matching({ tripId: 'trip-1' })).toEqual(['paris', 'fiji']);
+      expect(matching({ hasPhoto: true })).toEqual(['london']);
+    });
+
+    it('matches note text without regard to case, accented letters included', () => {
+      expect(matching({ text: 'café' })).toEqual(['london']);
+      expect(matching({ text: 'louvre' })).toEqual(['paris']);
+    });
+
+    it('finds traces in a box, also across the antimeridian', () => {
+      expect(matching({ bbox: [-1, 48, 3, 52] })).toEqual(['london', 'paris']);
+      expect(matching({ bbox: [170, -20, -170, -10] })).toEqual(['fiji', 'samoa']);
+    });
+  });
+
+  describe('ownership', () => {
+    it("refuses to overwrite another account's trace", () => {
+      storage.saveEntry(entry('e1', '2025-06-01T09:00:00Z', { note: 'mine' }));
+      expect(() => storage.saveEntry(entry('e1', '2025-06-01T09:00:00Z', { ownerId: 'bob', note: 'taken' })))
+        .toThrow(expect.objectContaining({ status: 409, code: 'id_taken' }));
+      expect(storage.getEntry('ann', 'e1').note).toBe('mine');
+      expect(storage.getEntry('bob', 'e1')).toBeNull();
+    });
+
+    it('overwrites its own trace and moves its indexed columns along', () => {
+      storage.saveEntry(entry('e1', '2025-06-01T09:00:00Z'));
+      storage.saveEntry(entry('e1', '2025-06-01T09:00:00Z', { category: 'Food', tripId: 'trip-1' }));
+      expect(ids(storage.listEntries('ann', { categories: ['Food'], tripId: 'trip-1' }))).toEqual(['e1']);
+      expect(storage.countEntries('ann', {})).toBe(1);
+    });
+
+    it('guards trips and shares the same way', () => {
+      storage.saveTrip({ id: 'trip-1', ownerId: 'ann', name: 'Summer' });
+      expect(() => storage.saveTrip({ id: 'trip-1', ownerId: 'bob', name: 'Mine now' })).toThrow(expect.objectContaining({ status: 409 }));
+      storage.saveShare({ token: 'tok', ownerId: 'ann', tripId: null });
+      expect(() => storage.saveShare({ token: 'tok', ownerId: 'bob', tripId: null })).toThrow(expect.objectContaining({ status: 409 }));
+      expect(storage.getTrip('ann', 'trip-1').name).toBe('Summer');
+    });
+
+    it('hands unowned data to the account that claims it', () => {
+      storage.saveEntry(entry('old', '2025-06-01T09:00:00Z', { ownerId: undefined }));
+      storage.saveTrip({ id: 'trip-old', name: 'Before accounts' });
+      expect(storage.claimUnowned('ann')).toBe(2);
+      expect(storage.getEntry('ann', 'old').ownerId).toBe('ann');
+      expect(storage.listTrips('ann')).toHaveLength(1);
+      expect(storage.claimUnowned('bob')).toBe(0);
+    });
+  });
+
+  it('keeps one story per trip and date range', () => {
+    const story = (id, start) => ({ id, ownerId: 'ann', tripId: 'trip-1', dateRange: { start, end: '' } });
+    storage.saveStory(story('s1', ''));
+    storage.saveStory(story('s2', ''));
+    storage.saveStory(story('s3', '2025-06-01'));
+    expect(ids(storage.listStories('ann'))).toEqual(['s2', 's3']);
+  });
+});
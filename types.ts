@@ -11,6 +11,12 @@ export interface Coordinates {
   lng: number;
 }
 
+export interface MediaItem {
+  url: string; // /media/ path, or a data URL while offline
+  caption: string;
+  aiGenerated?: boolean; // Painted by the AI rather than taken by the traveller
+}
+
 export interface JournalEntry {
   id: string;
   latitude: number;
@@ -19,10 +25,236 @@ export interface JournalEntry {
   dateDisplay: string; // Human readable
   note: string;
   category: Category;
-  photoUrl: string | null;
+  photos: MediaItem[]; // In display order; the first one is the cover
+  placeName?: string | null; // Reverse-geocoded, e.g. "Greenwich Park, London"
+  tripId?: string | null;
+  revision?: number; // Bumped by the server on every write
+  updatedAt?: string; // ISO string, set by the server
 }
 
+// Fields the server assigns; it ignores them in request bodies
+export type ServerManagedField = 'id' | 'revision' | 'updatedAt';
+
+// Body of POST /entries; PATCH /entries/:id takes any subset. Checked against schema/journalEntry.json
+export type JournalEntryInput = Omit<JournalEntry, ServerManagedField>;
+
+export interface JournalEntryPatch extends Partial<JournalEntryInput> {
+  baseRevision?: number; // The revision this edit was based on; a mismatch returns 409
+}
+
+// Body of every 4xx/5xx response
+export interface ApiErrorBody {
+  error: string; // Written for the user
+  code?: AIErrorCode; // On /ai/* routes
+  retryAfter?: number; // Seconds, on 429s and 503s from /ai/*
+  details?: string[]; // One line per invalid field, on 400s
+  current?: JournalEntry | null; // The server's copy, on 409s
+}
+
+// 'offline' is raised in the browser when the server can't be reached
+export type AIErrorCode = 'invalid_request' | 'rate_limited' | 'ai_unavailable' | 'upstream_busy' | 'upstream_error' | 'no_result' | 'offline';
+
 export interface DateRange {
   start: string;
   end: string;
-}
\ No newline at end of file
+}
+
+export interface SearchResult {
+  entry: JournalEntry;
+  score: number;
+  snippet: string; // Excerpt of the best matching field
+  terms: string[]; // Normalized query terms, for highlighting
+}
+
+// One filter drives the map, the Trace List, the summary and the export. Empty values mean "no constraint".
+export interface EntryFilter {
+  dateRange: DateRange; // start/end are YYYY-MM-DD or ''
+  categories: Category[];
+  hasPhoto: boolean;
+  text: string;
+  tripId: string | null;
+}
+
+// 'day' links stops within each day, 'trip' links the whole selection end to end
+export type RouteMode = 'off' | 'day' | 'trip';
+
+export interface DayDistance {
+  day: string; // YYYY-MM-DD, local time
+  km: number;
+  stops: number;
+}
+
+export interface RouteStats {
+  totalKm: number;
+  days: DayDistance[];
+  furthest: { entryId: string; km: number } | null; // Measured from the first entry
+}
+
+export interface Trip {
+  id: string;
+  name: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  coverPhotoUrl: string | null;
+  color: string; // Hex colour used for the trip's badge
+}
+
+export interface EntryFormData {
+  note: string;
+  category: Category;
+  photos: MediaItem[];
+  date: string;
+  tripId: string | null;
+}
+
+export type PendingOperation =
+  | { id: string; type: 'create'; entryId: string; payload: JournalEntryInput; queuedAt: string }
+  | { id: string; type: 'update'; entryId: string; payload: Partial<JournalEntryInput>; baseRevision?: number; queuedAt: string }
+  | { id: string; type: 'delete'; entryId: string; baseRevision?: number; queuedAt: string }
+  | TripOperation;
+
+// Trip changes made offline; tripId is a local-trip- id until its createTrip has synced
+export type TripOperation =
+  | { id: string; type: 'createTrip'; tripId: string; payload: Omit<Trip, 'id'>; queuedAt: string }
+  | { id: string; type: 'updateTrip'; tripId: string; payload: Partial<Omit<Trip, 'id'>>; queuedAt: string }
+  | { id: string; type: 'deleteTrip'; tripId: string; queuedAt: string };
+
+// Pushed by GET /events and between open tabs. 'entries.reset' means many entries changed at once (an import); reload them.
+export type EntryEvent =
+  | { type: 'entry.created' | 'entry.updated'; entry: JournalEntry; replaces?: string } // replaces: the local- id a synced entry had
+  | { type: 'entry.deleted'; id: string }
+  | { type: 'entries.reset' };
+
+export interface SyncResult {
+  synced: number;
+  remaining: number;
+  idMap: Record<string, string>; // local id -> server id, for entries and trips
+  conflicts: number;
+}
+
+export interface EntryConflict {
+  id: string;
+  entryId: string;
+  local: JournalEntry | null; // null when this device deleted the entry
+  remote: JournalEntry | null; // null when another device deleted the entry
+  detectedAt: string;
+}
+
+// 'merge' adds new traces and skips duplicates, 'replace' swaps the whole journal for the file
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportRowError {
+  row: number; // 1-based position in the imported file
+  id?: string;
+  messages: string[];
+}
+
+export interface ImportReport {
+  imported: number;
+  duplicates: number;
+  errors: ImportRowError[];
+  entries: JournalEntry[]; // The whole journal after the import
+}
+
+export interface User {
+  id: string;
+  username: string;
+  createdAt: string;
+}
+
+// Returned by POST /auth/login and /auth/register; the token goes in the Authorization header
+export interface AuthSession {
+  token: string;
+  mediaKey: string; // Added to /media/ URLs as ?key=, since <img> can't send the Authorization header
+  user: User;
+}
+
+export interface Share {
+  token: string; // Unguessable; the public link is /share/<token>
+  title: string;
+  tripId: string | null;
+  dateRange: DateRange;
+  coarse: boolean; // Coordinates snapped to a ~1 km grid, place names cut to the city
+  story: string | null;
+  createdAt: string;
+}
+
+// What a share link shows: no ids, nothing that can be edited
+export interface SharedTrip {
+  title: string;
+  story: string | null;
+  coarse: boolean;
+  dateRange: DateRange;
+  trip: Pick<Trip, 'name' | 'color' | 'coverPhotoUrl'> | null;
+  entries: Omit<JournalEntry, 'id' | 'tripId' | 'revision' | 'updatedAt'>[];
+}
+
+// Server-side filters and paging for GET /entries
+export interface EntryQuery {
+  bbox?: [number, number, number, number]; // west, south, east, north; west > east crosses the antimeridian
+  from?: string; // YYYY-MM-DD, local time
+  to?: string; // YYYY-MM-DD, inclusive
+  categories?: Category[];
+  tripId?: string | null;
+  hasPhoto?: boolean;
+  text?: string; // Case-insensitive substring of the note
+  limit?: number;
+  cursor?: string | null;
+}
+
+export interface EntryPage {
+  entries: JournalEntry[]; // Newest first
+  nextCursor: string | null; // null on the last page
+  total: number; // Matching traces across all pages
+}
+
+// Which backend writes summaries, polishes notes, explains places and paints memories
+export type AIProviderId = 'gemini' | 'local';
+
+export interface AISettings {
+  provider: AIProviderId;
+  textModel: string; // Used for summaries, notes and place context
+  imageModel: string; // Used for paintings
+  includePhotos: boolean; // Send trace photos along with summaries and stories
+}
+
+// How a travel story is told
+export type StoryTone = 'poetic' | 'itinerary' | 'diary' | 'postcard';
+
+export type StoryLength = 'short' | 'medium' | 'long';
+
+export interface StoryOptions {
+  tone: StoryTone;
+  length: StoryLength;
+}
+
+export interface StorySection {
+  day: string; // YYYY-MM-DD, local time
+  title: string;
+  text: string;
+  entryIds: string[]; // The traces this section draws on, in story order
+}
+
+// A generated story, saved against the trip and date range it covers
+export interface TravelStory extends StoryOptions {
+  id: string;
+  tripId: string | null;
+  dateRange: DateRange;
+  title: string;
+  intro: string;
+  sections: StorySection[];
+  provider: AIProviderId;
+  createdAt: string;
+}
+
+// One turn in a conversation with the journal assistant
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+export interface ChatMessage extends ChatTurn {
+  id: string;
+  sourceIds: string[]; // The traces the answer was given, in order: [n] cites sourceIds[n - 1]
+  error?: boolean;
+}